@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from "next/server";
+import { invokeAgent, streamAgent, getPendingToolCall } from "@/lib/agent";
+import { planMessageEdit } from "@/lib/threads";
+import { validateModelOverrides } from "@/lib/models";
+import { createEventStreamResponse } from "@/lib/utils/sse";
+import { StepCollector } from "@/lib/steps";
+import { createModelErrorResponse } from "@/lib/utils/errorResponse";
+import { traceRoute } from "@/lib/tracing";
+
+/**
+ * Edit an Earlier Message
+ *
+ * POST /api/chat/edit
+ * Body: {
+ *   threadId: string,
+ *   messageId: string,  // id of a human message, from GET /api/threads/:id
+ *   message: string,    // the corrected text
+ *   stream?: boolean,
+ *   models?: { chat?, parser? },
+ *   includeSteps?: boolean
+ * }
+ *
+ * Rewinds the thread to the checkpoint before that message and replays
+ * from there with the new text; everything after the original message is
+ * dropped from the thread. The old branch stays retrievable through
+ * GET /api/threads/:id?checkpointId=... and POST /api/threads/:id/fork.
+ * Responds like POST /api/chat.
+ */
+export const POST = traceRoute("/api/chat/edit", async (request: NextRequest) => {
+  try {
+    const {
+      threadId,
+      messageId,
+      message,
+      stream = false,
+      models,
+      includeSteps = false,
+    } = await request.json();
+
+    if (!threadId || typeof threadId !== "string") {
+      return NextResponse.json(
+        { error: "threadId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!messageId || typeof messageId !== "string") {
+      return NextResponse.json(
+        { error: "messageId is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!message) {
+      return NextResponse.json(
+        { error: "Message is required" },
+        { status: 400 }
+      );
+    }
+
+    const modelError = validateModelOverrides(models);
+    if (modelError) {
+      return NextResponse.json({ error: modelError }, { status: 400 });
+    }
+
+    const plan = await planMessageEdit(threadId, messageId, message);
+    if (!plan) {
+      return NextResponse.json(
+        { error: `Thread ${threadId} has no human message ${messageId}` },
+        { status: 404 }
+      );
+    }
+
+    const stepCollector = includeSteps ? new StepCollector() : undefined;
+    const options = {
+      models,
+      stepCollector,
+      checkpointId: plan.checkpointId,
+      persona: plan.persona,
+      userId: plan.userId,
+      route: "/api/chat/edit",
+    };
+
+    // Streaming mode for token-by-token updates
+    if (stream) {
+      return createEventStreamResponse(
+        streamAgent([plan.message], threadId, options),
+        "Failed to process the edited message"
+      );
+    }
+
+    const response = await invokeAgent([plan.message], threadId, options);
+
+    const pendingToolCall = await getPendingToolCall(threadId);
+    const steps = stepCollector ? { steps: stepCollector.getTrace() } : {};
+    if (pendingToolCall) {
+      return NextResponse.json({ response: null, pendingToolCall, ...steps });
+    }
+
+    const lastMessage = response.messages.at(-1);
+    const content = lastMessage?.content || "No response";
+
+    return NextResponse.json({ response: content, violations: response.violations ?? [], ...steps });
+  } catch (error) {
+    console.error("Edit message error:", error);
+    const modelErrorResponse = createModelErrorResponse(error);
+    if (modelErrorResponse) {
+      return modelErrorResponse;
+    }
+    return NextResponse.json(
+      { error: "Failed to process the edited message" },
+      { status: 500 }
+    );
+  }
+});
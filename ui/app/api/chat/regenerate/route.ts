@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from "next/server";
+import { invokeAgent, streamAgent, getPendingToolCall } from "@/lib/agent";
+import { planRegeneration } from "@/lib/threads";
+import { validateModelOverrides } from "@/lib/models";
+import { createEventStreamResponse } from "@/lib/utils/sse";
+import { StepCollector } from "@/lib/steps";
+import { createModelErrorResponse } from "@/lib/utils/errorResponse";
+import { traceRoute } from "@/lib/tracing";
+
+/**
+ * Regenerate the Last Answer
+ *
+ * POST /api/chat/regenerate
+ * Body: {
+ *   threadId: string,
+ *   stream?: boolean,
+ *   models?: { chat?, parser? },
+ *   includeSteps?: boolean
+ * }
+ *
+ * Rewinds the thread to the checkpoint before its last human message and
+ * replays that message, producing a new answer rather than a cached one
+ * (see lib/responseCache). The previous answer stays
+ * on an abandoned branch (see GET /api/threads/:id). Responds like
+ * POST /api/chat.
+ */
+export const POST = traceRoute("/api/chat/regenerate", async (request: NextRequest) => {
+  try {
+    const { threadId, stream = false, models, includeSteps = false } = await request.json();
+
+    if (!threadId || typeof threadId !== "string") {
+      return NextResponse.json(
+        { error: "threadId is required" },
+        { status: 400 }
+      );
+    }
+
+    const modelError = validateModelOverrides(models);
+    if (modelError) {
+      return NextResponse.json({ error: modelError }, { status: 400 });
+    }
+
+    const plan = await planRegeneration(threadId);
+    if (!plan) {
+      return NextResponse.json(
+        { error: `Thread ${threadId} has no message to regenerate` },
+        { status: 404 }
+      );
+    }
+
+    const stepCollector = includeSteps ? new StepCollector() : undefined;
+    const options = {
+      models,
+      stepCollector,
+      checkpointId: plan.checkpointId,
+      persona: plan.persona,
+      userId: plan.userId,
+      route: "/api/chat/regenerate",
+      skipResponseCache: true,
+    };
+
+    // Streaming mode for token-by-token updates
+    if (stream) {
+      return createEventStreamResponse(
+        streamAgent([plan.message], threadId, options),
+        "Failed to regenerate the response"
+      );
+    }
+
+    const response = await invokeAgent([plan.message], threadId, options);
+
+    const pendingToolCall = await getPendingToolCall(threadId);
+    const steps = stepCollector ? { steps: stepCollector.getTrace() } : {};
+    if (pendingToolCall) {
+      return NextResponse.json({ response: null, pendingToolCall, ...steps });
+    }
+
+    const lastMessage = response.messages.at(-1);
+    const content = lastMessage?.content || "No response";
+
+    return NextResponse.json({ response: content, violations: response.violations ?? [], ...steps });
+  } catch (error) {
+    console.error("Regenerate error:", error);
+    const modelErrorResponse = createModelErrorResponse(error);
+    if (modelErrorResponse) {
+      return modelErrorResponse;
+    }
+    return NextResponse.json(
+      { error: "Failed to regenerate the response" },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  invokeAgent,
+  streamAgent,
+  getPendingToolCall,
+  createResumeCommand,
+  validateToolArgs,
+} from "@/lib/agent";
+import type { ApprovalDecision } from "@/lib/tools";
+import { validateModelOverrides } from "@/lib/models";
+import { createEventStreamResponse } from "@/lib/utils/sse";
+import { StepCollector } from "@/lib/steps";
+import { createModelErrorResponse } from "@/lib/utils/errorResponse";
+import { traceRoute } from "@/lib/tracing";
+
+/**
+ * Resume a Paused Chat Thread
+ *
+ * POST /api/chat/resume
+ * Body: {
+ *   threadId: string,
+ *   action: "approve" | "reject" | "edit",
+ *   args?: object,     // required for "edit": replacement tool arguments,
+ *                      // checked against the pending tool's schema
+ *   reason?: string,   // optional for "reject"
+ *   stream?: boolean,
+ *   models?: { chat?, parser? },
+ *   includeSteps?: boolean
+ * }
+ *
+ * Answers the tool call a thread is waiting on and continues the run
+ * from its checkpoint. Responds like POST /api/chat.
+ */
+
+function parseDecision(body: Record<string, unknown>): ApprovalDecision | string {
+  switch (body.action) {
+    case "approve":
+      return { action: "approve" };
+    case "reject":
+      return {
+        action: "reject",
+        reason: typeof body.reason === "string" ? body.reason : undefined,
+      };
+    case "edit":
+      if (!body.args || typeof body.args !== "object" || Array.isArray(body.args)) {
+        return "args must be an object when action is \"edit\"";
+      }
+      return { action: "edit", args: body.args as Record<string, unknown> };
+    default:
+      return "action must be one of: approve, reject, edit";
+  }
+}
+
+export const POST = traceRoute("/api/chat/resume", async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+    const { threadId, stream = false, models, includeSteps = false } = body;
+
+    if (!threadId || typeof threadId !== "string") {
+      return NextResponse.json(
+        { error: "threadId is required" },
+        { status: 400 }
+      );
+    }
+
+    const decision = parseDecision(body);
+    if (typeof decision === "string") {
+      return NextResponse.json({ error: decision }, { status: 400 });
+    }
+
+    const modelError = validateModelOverrides(models);
+    if (modelError) {
+      return NextResponse.json({ error: modelError }, { status: 400 });
+    }
+
+    const pending = await getPendingToolCall(threadId);
+    if (!pending) {
+      return NextResponse.json(
+        { error: `Thread ${threadId} has no tool call waiting for approval` },
+        { status: 409 }
+      );
+    }
+
+    // The edited arguments go straight to the tool, so check them first
+    if (decision.action === "edit") {
+      const argsError = validateToolArgs(pending.name, decision.args);
+      if (argsError) {
+        return NextResponse.json({ error: argsError }, { status: 400 });
+      }
+    }
+
+    const command = createResumeCommand(decision, threadId);
+    const stepCollector = includeSteps ? new StepCollector() : undefined;
+    const options = { models, stepCollector, route: "/api/chat/resume" };
+
+    // Streaming mode for token-by-token updates
+    if (stream) {
+      return createEventStreamResponse(
+        streamAgent(command, threadId, options),
+        "Failed to resume the conversation"
+      );
+    }
+
+    const response = await invokeAgent(command, threadId, options);
+
+    const pendingToolCall = await getPendingToolCall(threadId);
+    const steps = stepCollector ? { steps: stepCollector.getTrace() } : {};
+    if (pendingToolCall) {
+      return NextResponse.json({ response: null, pendingToolCall, ...steps });
+    }
+
+    const lastMessage = response.messages.at(-1);
+    const content = lastMessage?.content || "No response";
+
+    return NextResponse.json({ response: content, violations: response.violations ?? [], ...steps });
+  } catch (error) {
+    console.error("Resume error:", error);
+    const modelErrorResponse = createModelErrorResponse(error);
+    if (modelErrorResponse) {
+      return modelErrorResponse;
+    }
+    return NextResponse.json(
+      { error: "Failed to resume the conversation" },
+      { status: 500 }
+    );
+  }
+});
@@ -1,10 +1,74 @@
 import { NextRequest, NextResponse } from "next/server";
 import { HumanMessage } from "@langchain/core/messages";
-import { invokeAgent } from "@/lib/agent";
+import {
+  invokeAgent,
+  streamAgent,
+  getPendingToolCall,
+  getThreadPersona,
+} from "@/lib/agent";
+import { validateModelOverrides } from "@/lib/models";
+import { validatePersona } from "@/lib/personas";
+import { createEventStreamResponse } from "@/lib/utils/sse";
+import { StepCollector } from "@/lib/steps";
+import { createModelErrorResponse } from "@/lib/utils/errorResponse";
+import { traceRoute } from "@/lib/tracing";
 
-export async function POST(request: NextRequest) {
+/**
+ * Chat API Endpoint
+ *
+ * POST /api/chat
+ * Body: {
+ *   message: string,
+ *   threadId?: string,
+ *   stream?: boolean,
+ *   models?: { chat?, parser? },
+ *   includeSteps?: boolean,
+ *   persona?: string,
+ *   userId?: string
+ * }
+ *
+ * Each turn is routed by a supervisor: answered directly, handled by the
+ * tool agent, or researched on the web by the research graph.
+ *
+ * With stream=true the response is a Server-Sent Events stream of
+ * token, tool_start, tool_end, research_progress and final events.
+ *
+ * If the agent calls a tool that needs approval, the run pauses and the
+ * response carries `pendingToolCall` (or a stream `interrupt` event).
+ * Resume it through POST /api/chat/resume.
+ *
+ * `models` picks per-request models by role as "provider:model" strings,
+ * e.g. { chat: "openai:gpt-4o-mini", parser: "groq:llama-3.1-8b-instant" }.
+ *
+ * With includeSteps=true the response also carries `steps`: an ordered
+ * trace of the model calls (tool calls, token usage) and tool calls
+ * (arguments, results) with their timings. Streams send it as a
+ * `steps` event before `final`.
+ *
+ * `persona` (see GET /api/personas) sets the assistant's system prompt,
+ * tools and model parameters. It is stored with the thread on its first
+ * message and applies to every later turn.
+ *
+ * Personal data in the conversation is masked before it reaches a model.
+ * Answers are checked against the output policies (see lib/guardrails);
+ * `violations` (also on the `final` event) lists each match, and an
+ * answer that breaks a "block" policy is replaced with a refusal.
+ *
+ * `userId` picks whose long-term memories (see /api/memory) the agent
+ * recalls and saves; the thread keeps it for later turns. Without one,
+ * all threads share the "default" user.
+ */
+export const POST = traceRoute("/api/chat", async (request: NextRequest) => {
   try {
-    const { message, threadId } = await request.json();
+    const {
+      message,
+      threadId,
+      stream = false,
+      models,
+      includeSteps = false,
+      persona,
+      userId,
+    } = await request.json();
 
     if (!message) {
       return NextResponse.json(
@@ -13,24 +77,81 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const modelError = validateModelOverrides(models);
+    if (modelError) {
+      return NextResponse.json({ error: modelError }, { status: 400 });
+    }
+
+    const personaError = validatePersona(persona);
+    if (personaError) {
+      return NextResponse.json({ error: personaError }, { status: 400 });
+    }
+
+    if (userId !== undefined && (typeof userId !== "string" || !userId.trim())) {
+      return NextResponse.json(
+        { error: "userId must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    const stepCollector = includeSteps ? new StepCollector() : undefined;
+
     // Use provided threadId or generate a default one
     const conversationThreadId = threadId || "default-thread";
 
+    // A thread keeps the persona it was created with
+    if (persona) {
+      const threadPersona = await getThreadPersona(conversationThreadId);
+      if (threadPersona && threadPersona !== persona) {
+        return NextResponse.json(
+          {
+            error: `Thread ${conversationThreadId} uses the "${threadPersona}" persona; a persona can only be picked when a thread is created`,
+          },
+          { status: 409 }
+        );
+      }
+    }
+
+    // Streaming mode for token-by-token updates
+    if (stream) {
+      return createEventStreamResponse(
+        streamAgent([new HumanMessage(message)], conversationThreadId, {
+          models,
+          stepCollector,
+          persona,
+          userId,
+          route: "/api/chat",
+        }),
+        "Failed to process message"
+      );
+    }
+
     // Invoke agent with memory support
     const response = await invokeAgent(
       [new HumanMessage(message)],
-      conversationThreadId
+      conversationThreadId,
+      { models, stepCollector, persona, userId, route: "/api/chat" }
     );
 
+    const pendingToolCall = await getPendingToolCall(conversationThreadId);
+    const steps = stepCollector ? { steps: stepCollector.getTrace() } : {};
+    if (pendingToolCall) {
+      return NextResponse.json({ response: null, pendingToolCall, ...steps });
+    }
+
     const lastMessage = response.messages.at(-1);
     const content = lastMessage?.content || "No response";
 
-    return NextResponse.json({ response: content });
+    return NextResponse.json({ response: content, violations: response.violations ?? [], ...steps });
   } catch (error) {
     console.error("Agent error:", error);
+    const modelErrorResponse = createModelErrorResponse(error);
+    if (modelErrorResponse) {
+      return modelErrorResponse;
+    }
     return NextResponse.json(
       { error: "Failed to process message" },
       { status: 500 }
     );
   }
-}
+});
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { deleteDocument } from "@/lib/vectorStore";
+import { traceRoute } from "@/lib/tracing";
 
 // In-memory document metadata store (shared with upload route in production, use DB)
 // For now, we'll handle deletion through the vector store directly
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = traceRoute("/api/documents", async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url);
     const documentId = searchParams.get("id");
@@ -30,10 +31,10 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // GET - List all documents (basic version using vector store search)
-export async function GET() {
+export const GET = traceRoute("/api/documents", async () => {
   try {
     // In a production app, you'd query a database for document metadata
     // For now, return a placeholder response
@@ -48,5 +49,5 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
+});
 
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  runEval,
+  loadGoldenSet,
+  loadBaseline,
+  saveBaseline,
+  diffReports,
+  getGoldenDir,
+} from "@/lib/evals";
+import { validateModelOverrides } from "@/lib/models";
+import { createModelErrorResponse } from "@/lib/utils/errorResponse";
+import { traceRoute } from "@/lib/tracing";
+
+// The golden set and baseline are read from disk on every request
+export const dynamic = "force-dynamic";
+
+/**
+ * RAG Evaluation API Endpoint
+ *
+ * GET /api/evals
+ * Describes the golden set and the saved baseline metrics.
+ *
+ * POST /api/evals
+ * Body: {
+ *   k?: number[],          // recall cut-offs, default [1, 3, 5]
+ *   answers?: boolean,     // generate and judge answers, default true
+ *   models?: { chat?, grader? },
+ *   saveBaseline?: boolean // store this run as the new baseline
+ * }
+ *
+ * Ingests the golden set's PDFs, runs every question through
+ * similaritySearchWithScores and query_study_materials, and returns the
+ * report with recall@k, MRR and answer faithfulness. When a baseline
+ * exists the response also carries `diff`: the change of every metric
+ * and the cases that regressed or improved.
+ */
+export const GET = traceRoute("/api/evals", async () => {
+  try {
+    const goldenSet = loadGoldenSet();
+    const baseline = loadBaseline();
+
+    return NextResponse.json({
+      success: true,
+      goldenSet: {
+        dir: getGoldenDir(),
+        description: goldenSet.description,
+        caseCount: goldenSet.cases.length,
+      },
+      baseline: baseline
+        ? { startedAt: baseline.startedAt, config: baseline.config, metrics: baseline.metrics }
+        : null,
+    });
+  } catch (error) {
+    console.error("Eval error:", error);
+    return NextResponse.json(
+      { error: `Failed to load the golden set: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = traceRoute("/api/evals", async (request: NextRequest) => {
+  try {
+    const { k, answers, models, saveBaseline: save = false } = await request.json();
+
+    if (
+      k !== undefined &&
+      (!Array.isArray(k) || k.length === 0 || !k.every((n) => Number.isInteger(n) && n > 0))
+    ) {
+      return NextResponse.json(
+        { error: "k must be a non-empty array of positive integers" },
+        { status: 400 }
+      );
+    }
+
+    const modelError = validateModelOverrides(models);
+    if (modelError) {
+      return NextResponse.json({ error: modelError }, { status: 400 });
+    }
+
+    const report = await runEval({ k, answers }, { configurable: { models } });
+
+    const baseline = loadBaseline();
+    const diff = baseline ? diffReports(baseline, report) : null;
+
+    if (save) {
+      await saveBaseline(report);
+    }
+
+    return NextResponse.json({ success: true, report, diff, savedAsBaseline: save });
+  } catch (error) {
+    console.error("Eval error:", error);
+    const modelErrorResponse = createModelErrorResponse(error);
+    if (modelErrorResponse) {
+      return modelErrorResponse;
+    }
+    return NextResponse.json(
+      { error: `Failed to run the evaluation: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { captureFeedback, validateFeedback, getFeedbackRecords, FeedbackInput } from "@/lib/feedback";
+import { traceRoute } from "@/lib/tracing";
+
+// Feedback changes with every rating
+export const dynamic = "force-dynamic";
+
+/**
+ * Feedback API Endpoint
+ *
+ * POST /api/feedback
+ * Body: {
+ *   threadId: string,
+ *   messageId: string,
+ *   rating: "up" | "down",
+ *   correction?: string
+ * }
+ *
+ * Rates an assistant answer; `messageId` is the id from the chat
+ * stream's `final` event. The question, tool calls and study material
+ * sources of the answer's turn are stored with the rating. Rating the
+ * same answer again replaces the earlier rating.
+ */
+export const POST = traceRoute("/api/feedback", async (request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => null);
+
+    const feedbackError = validateFeedback(body);
+    if (feedbackError) {
+      return NextResponse.json({ error: feedbackError }, { status: 400 });
+    }
+
+    const feedback = await captureFeedback(body as FeedbackInput);
+
+    if (!feedback) {
+      return NextResponse.json(
+        { error: `No answer ${body.messageId} in thread ${body.threadId}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, feedback });
+  } catch (error) {
+    console.error("Feedback error:", error);
+    return NextResponse.json(
+      { error: `Failed to save feedback: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * GET /api/feedback?threadId=...
+ * Lists the latest rating of each answer, newest first.
+ */
+export const GET = traceRoute("/api/feedback", async (request: NextRequest) => {
+  try {
+    const feedback = getFeedbackRecords({
+      threadId: request.nextUrl.searchParams.get("threadId") ?? undefined,
+    });
+
+    return NextResponse.json({ success: true, count: feedback.length, feedback });
+  } catch (error) {
+    console.error("List feedback error:", error);
+    return NextResponse.json(
+      { error: `Failed to list feedback: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
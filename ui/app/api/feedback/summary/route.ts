@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getFeedbackSummary } from "@/lib/feedback";
+import { traceRoute } from "@/lib/tracing";
+
+export const dynamic = "force-dynamic";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Feedback Summary API Endpoint
+ *
+ * GET /api/feedback/summary?tool=solve_math_puzzle&threadId=...&from=2025-01-01&to=2025-01-31
+ *
+ * Aggregates the latest rating of each answer: overall, per tool the
+ * answer used, per study material it cited and per day, with the most
+ * thumbs down first. `recentNegative` lists the latest thumbs-down
+ * answers with their questions, tool arguments and corrections. All
+ * query parameters are optional filters; dates are inclusive (UTC).
+ */
+export const GET = traceRoute("/api/feedback/summary", async (request: NextRequest) => {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get("from") ?? undefined;
+    const to = params.get("to") ?? undefined;
+
+    for (const date of [from, to]) {
+      if (date && !DATE_PATTERN.test(date)) {
+        return NextResponse.json(
+          { error: `Invalid date "${date}", expected YYYY-MM-DD` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const summary = getFeedbackSummary({
+      threadId: params.get("threadId") ?? undefined,
+      tool: params.get("tool") ?? undefined,
+      from,
+      to,
+    });
+
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error("Feedback summary error:", error);
+    return NextResponse.json(
+      { error: `Failed to summarize feedback: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,106 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { handleMcpMessage, wantsProgress, JsonRpcMessage } from "@/lib/mcp";
+import { traceRoute } from "@/lib/tracing";
+
+/**
+ * MCP Server Endpoint (Streamable HTTP)
+ *
+ * POST /api/mcp
+ * Body: a JSON-RPC message or a batch of them
+ *
+ * Serves solve_math_puzzle, query_study_materials, list_study_materials,
+ * run_research and the uploaded documents to MCP clients (see
+ * lib/mcp/server.ts). Responses are JSON, except for a tool call with a
+ * progressToken from a client that accepts text/event-stream: that one
+ * streams its notifications/progress and then the result as Server-Sent
+ * Events. Sessions aren't used, so there is no GET stream.
+ *
+ * Requests need "Authorization: Bearer <MCP_SERVER_TOKEN>"; without
+ * MCP_SERVER_TOKEN set the endpoint is disabled. A client that disconnects
+ * stops the requests it was waiting on.
+ */
+
+/**
+ * Compare the Authorization header with the token in constant time
+ *
+ * Both are hashed first, so the comparison doesn't reveal the length either.
+ */
+function isAuthorized(request: NextRequest, token: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(request.headers.get("authorization") ?? ""), digest(`Bearer ${token}`));
+}
+
+export const POST = traceRoute("/api/mcp", async (request: NextRequest) => {
+  const token = process.env.MCP_SERVER_TOKEN;
+  if (!token) {
+    return NextResponse.json({ error: "Set MCP_SERVER_TOKEN to enable the MCP server" }, { status: 503 });
+  }
+  if (!isAuthorized(request, token)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  let body: JsonRpcMessage | JsonRpcMessage[];
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } },
+      { status: 400 }
+    );
+  }
+
+  const messages = Array.isArray(body) ? body : [body];
+
+  // Notifications and responses from the client are only acknowledged
+  if (messages.every((message) => message.id === undefined || !message.method)) {
+    return new NextResponse(null, { status: 202 });
+  }
+
+  const acceptsStream = request.headers.get("accept")?.includes("text/event-stream");
+  if (acceptsStream && messages.some(wantsProgress)) {
+    const encoder = new TextEncoder();
+    const abort = new AbortController();
+    let closed = false;
+
+    const stop = () => {
+      closed = true;
+      abort.abort();
+    };
+    request.signal.addEventListener("abort", stop, { once: true });
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const send = (message: JsonRpcMessage) => {
+          if (!closed) {
+            controller.enqueue(encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`));
+          }
+        };
+
+        const responses = await Promise.all(
+          messages.map((message) => handleMcpMessage(message, send, abort.signal))
+        );
+        responses.forEach((response) => response && send(response));
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      },
+      // The client stopped reading, e.g. it cancelled a long run_research
+      cancel: stop,
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  const responses = (await Promise.all(messages.map((message) => handleMcpMessage(message, undefined, request.signal)))).filter(
+    (response): response is JsonRpcMessage => response !== null
+  );
+  return NextResponse.json(Array.isArray(body) ? responses : responses[0]);
+});
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteMemory, DEFAULT_USER_ID } from "@/lib/memory";
+import { traceRoute } from "@/lib/tracing";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * DELETE /api/memory/:id?userId=...
+ * Forgets a single fact about a user.
+ */
+export const DELETE = traceRoute("/api/memory/[id]", async (request: NextRequest, { params }: RouteContext) => {
+  try {
+    const userId = request.nextUrl.searchParams.get("userId") || DEFAULT_USER_ID;
+    const deleted = deleteMemory(userId, params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: `Memory ${params.id} not found for user ${userId}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Memory ${params.id} deleted successfully`,
+    });
+  } catch (error) {
+    console.error("Delete memory error:", error);
+    return NextResponse.json(
+      { error: `Failed to delete memory: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
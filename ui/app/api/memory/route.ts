@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listMemories, clearMemories, DEFAULT_USER_ID } from "@/lib/memory";
+import { traceRoute } from "@/lib/tracing";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Memory API Endpoint
+ *
+ * GET /api/memory?userId=...
+ * Lists the facts the agent remembers about a user across threads,
+ * oldest first. Without userId, those of the "default" user.
+ */
+export const GET = traceRoute("/api/memory", async (request: NextRequest) => {
+  try {
+    const userId = request.nextUrl.searchParams.get("userId") || DEFAULT_USER_ID;
+    const memories = listMemories(userId);
+
+    return NextResponse.json({
+      success: true,
+      userId,
+      count: memories.length,
+      memories,
+    });
+  } catch (error) {
+    console.error("List memories error:", error);
+    return NextResponse.json(
+      { error: `Failed to list memories: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/memory?userId=...
+ * Forgets everything remembered about a user.
+ */
+export const DELETE = traceRoute("/api/memory", async (request: NextRequest) => {
+  try {
+    const userId = request.nextUrl.searchParams.get("userId") || DEFAULT_USER_ID;
+    const deleted = clearMemories(userId);
+
+    return NextResponse.json({
+      success: true,
+      message: `Deleted ${deleted} memories of user ${userId}`,
+      deleted,
+    });
+  } catch (error) {
+    console.error("Clear memories error:", error);
+    return NextResponse.json(
+      { error: `Failed to clear memories: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
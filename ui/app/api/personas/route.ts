@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { listPersonas, DEFAULT_PERSONA_ID } from "@/lib/personas";
+import { traceRoute } from "@/lib/tracing";
+
+/**
+ * Personas API Endpoint
+ *
+ * GET /api/personas
+ * Lists the personas a new thread can pick through POST /api/chat,
+ * with their system prompts, allowed tools and model parameters.
+ */
+export const GET = traceRoute("/api/personas", async () => {
+  const personas = listPersonas();
+
+  return NextResponse.json({
+    success: true,
+    defaultPersona: DEFAULT_PERSONA_ID,
+    count: personas.length,
+    personas,
+  });
+});
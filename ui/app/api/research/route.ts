@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runResearch, streamResearch } from "@/lib/research";
+import { validateModelOverrides, findLlmError } from "@/lib/models";
+import { createModelErrorResponse } from "@/lib/utils/errorResponse";
+import { traceRoute } from "@/lib/tracing";
 
 /**
  * Research Agent API Endpoint
  * 
  * POST /api/research
- * Body: { topic: string, config?: { maxIterations?, qualityThreshold?, minRelevantDocs? } }
+ * Body: { topic: string, config?: { maxIterations?, qualityThreshold?, minRelevantDocs? }, models?: { grader?, synthesizer? } }
  * 
  * This endpoint runs the autonomous research agent which:
  * 1. Generates search queries
@@ -14,10 +17,10 @@ import { runResearch, streamResearch } from "@/lib/research";
  * 4. Iteratively refines queries if needed (CYCLIC WORKFLOW)
  * 5. Synthesizes findings into a report
  */
-export async function POST(request: NextRequest) {
+export const POST = traceRoute("/api/research", async (request: NextRequest) => {
   try {
     const body = await request.json();
-    const { topic, config, stream = false } = body;
+    const { topic, stream = false } = body;
 
     if (!topic || typeof topic !== "string") {
       return NextResponse.json(
@@ -40,6 +43,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const modelError = validateModelOverrides(body.models);
+    if (modelError) {
+      return NextResponse.json({ error: modelError }, { status: 400 });
+    }
+
+    const config = { ...body.config, models: body.models, route: "/api/research" };
+
     // Streaming mode for real-time updates
     if (stream) {
       const encoder = new TextEncoder();
@@ -55,7 +65,8 @@ export async function POST(request: NextRequest) {
             controller.close();
           } catch (error) {
             const errorData = JSON.stringify({ 
-              error: (error as Error).message 
+              error: (error as Error).message,
+              code: findLlmError(error)?.kind,
             });
             controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
             controller.close();
@@ -95,6 +106,10 @@ export async function POST(request: NextRequest) {
     });
   } catch (error) {
     console.error("Research error:", error);
+    const modelErrorResponse = createModelErrorResponse(error);
+    if (modelErrorResponse) {
+      return modelErrorResponse;
+    }
     return NextResponse.json(
       { 
         error: `Research failed: ${(error as Error).message}`,
@@ -103,12 +118,12 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * GET endpoint for checking API status
  */
-export async function GET() {
+export const GET = traceRoute("/api/research", async () => {
   return NextResponse.json({
     status: "ready",
     description: "Autonomous Research Agent API",
@@ -122,10 +137,14 @@ export async function GET() {
             qualityThreshold: "number 0-1 (default: 0.6)",
             minRelevantDocs: "number (default: 3)",
           },
+          models: {
+            grader: "string \"provider:model\" (optional)",
+            synthesizer: "string \"provider:model\" (optional)",
+          },
           stream: "boolean (default: false)",
         },
       },
     },
   });
-}
+});
 
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  exportThread,
+  renderMarkdown,
+  renderHtml,
+  EXPORT_FORMATS,
+  ExportFormat,
+} from "@/lib/threads";
+import { traceRoute } from "@/lib/tracing";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+const CONTENT_TYPES: Record<ExportFormat, { type: string; extension: string }> = {
+  markdown: { type: "text/markdown; charset=utf-8", extension: "md" },
+  json: { type: "application/json; charset=utf-8", extension: "json" },
+  html: { type: "text/html; charset=utf-8", extension: "html" },
+};
+
+/**
+ * GET /api/threads/:id/export?format=markdown|json|html&download=true
+ *
+ * Exports the thread's current messages:
+ * - markdown (default): a readable transcript
+ * - json: every message including tool calls and results, which
+ *   POST /api/threads/import can turn back into a thread
+ * - html: a standalone transcript that prints well
+ *
+ * Answers list the study materials query_study_materials found for them.
+ * With download=true the file is sent as an attachment.
+ */
+export const GET = traceRoute("/api/threads/[id]/export", async (request: NextRequest, { params }: RouteContext) => {
+  try {
+    const format = request.nextUrl.searchParams.get("format") ?? "markdown";
+    const download = request.nextUrl.searchParams.get("download") === "true";
+
+    if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+      return NextResponse.json(
+        { error: `format must be one of: ${EXPORT_FORMATS.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const data = await exportThread(params.id);
+
+    if (!data) {
+      return NextResponse.json(
+        { error: `Thread ${params.id} not found` },
+        { status: 404 }
+      );
+    }
+
+    const body =
+      format === "markdown"
+        ? renderMarkdown(data)
+        : format === "html"
+          ? renderHtml(data)
+          : JSON.stringify(data, null, 2);
+    const { type, extension } = CONTENT_TYPES[format as ExportFormat];
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": type,
+        ...(download
+          ? { "Content-Disposition": `attachment; filename="${params.id}.${extension}"` }
+          : {}),
+      },
+    });
+  } catch (error) {
+    console.error("Export thread error:", error);
+    return NextResponse.json(
+      { error: `Failed to export thread: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forkThread } from "@/lib/threads";
+import { traceRoute } from "@/lib/tracing";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * POST /api/threads/:id/fork
+ * Body: { checkpointId?: string }
+ *
+ * Copies the thread as it was at the given checkpoint (default: latest)
+ * into a new thread and returns it.
+ */
+export const POST = traceRoute("/api/threads/[id]/fork", async (request: NextRequest, { params }: RouteContext) => {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { checkpointId } = body;
+
+    if (checkpointId !== undefined && typeof checkpointId !== "string") {
+      return NextResponse.json(
+        { error: "checkpointId must be a string" },
+        { status: 400 }
+      );
+    }
+
+    const thread = await forkThread(params.id, checkpointId);
+
+    if (!thread) {
+      return NextResponse.json(
+        { error: `Thread ${params.id} or checkpoint not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      forkedFrom: { threadId: params.id, checkpointId },
+      thread,
+    });
+  } catch (error) {
+    console.error("Fork thread error:", error);
+    return NextResponse.json(
+      { error: `Failed to fork thread: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
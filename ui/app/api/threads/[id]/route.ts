@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getThread, deleteThread } from "@/lib/threads";
+import { traceRoute } from "@/lib/tracing";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/threads/:id?checkpointId=...
+ * Returns the full message history and checkpoints of a thread.
+ * With checkpointId, the messages are those at that checkpoint, which
+ * can be on a branch abandoned by an edit or regeneration.
+ */
+export const GET = traceRoute("/api/threads/[id]", async (request: NextRequest, { params }: RouteContext) => {
+  try {
+    const checkpointId = request.nextUrl.searchParams.get("checkpointId") ?? undefined;
+    const thread = await getThread(params.id, checkpointId);
+
+    if (!thread) {
+      return NextResponse.json(
+        { error: `Thread ${params.id} or checkpoint not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, thread });
+  } catch (error) {
+    console.error("Get thread error:", error);
+    return NextResponse.json(
+      { error: `Failed to load thread: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
+
+/**
+ * DELETE /api/threads/:id
+ * Removes a thread and all of its checkpoints.
+ */
+export const DELETE = traceRoute("/api/threads/[id]", async (_request: NextRequest, { params }: RouteContext) => {
+  try {
+    const deleted = await deleteThread(params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: `Thread ${params.id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Thread ${params.id} deleted successfully`,
+    });
+  } catch (error) {
+    console.error("Delete thread error:", error);
+    return NextResponse.json(
+      { error: `Failed to delete thread: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from "next/server";
+import { importThread, validateThreadExport, ThreadExport } from "@/lib/threads";
+import { traceRoute } from "@/lib/tracing";
+
+/**
+ * POST /api/threads/import
+ * Body: a JSON export from GET /api/threads/:id/export?format=json
+ *
+ * Rebuilds the conversation, with its persona and user, in a new thread
+ * that can be continued through POST /api/chat. Returns the new thread.
+ * Exports with system messages other than the conversation summary, or
+ * with tool calls and results that don't pair up, are rejected.
+ */
+export const POST = traceRoute("/api/threads/import", async (request: NextRequest) => {
+  try {
+    const data = await request.json().catch(() => null);
+
+    const exportError = validateThreadExport(data);
+    if (exportError) {
+      return NextResponse.json({ error: exportError }, { status: 400 });
+    }
+
+    const thread = await importThread(data as ThreadExport);
+
+    return NextResponse.json({
+      success: true,
+      importedFrom: (data as ThreadExport).threadId,
+      thread,
+    });
+  } catch (error) {
+    console.error("Import thread error:", error);
+    return NextResponse.json(
+      { error: `Failed to import thread: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
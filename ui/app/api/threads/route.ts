@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { listThreads } from "@/lib/threads";
+import { traceRoute } from "@/lib/tracing";
+
+// Always read the checkpointer at request time (never prerender the list)
+export const dynamic = "force-dynamic";
+
+/**
+ * Threads API Endpoint
+ *
+ * GET /api/threads
+ * Lists all conversations in the checkpointer with titles and timestamps.
+ */
+export const GET = traceRoute("/api/threads", async () => {
+  try {
+    const threads = await listThreads();
+
+    return NextResponse.json({
+      success: true,
+      count: threads.length,
+      threads,
+    });
+  } catch (error) {
+    console.error("List threads error:", error);
+    return NextResponse.json(
+      { error: `Failed to list threads: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTrace } from "@/lib/tracing";
+
+interface RouteContext {
+  params: { id: string };
+}
+
+/**
+ * GET /api/traces/:id
+ * Returns a trace with all of its spans in start order.
+ */
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+  try {
+    const trace = getTrace(params.id);
+
+    if (!trace) {
+      return NextResponse.json(
+        { error: `Trace ${params.id} not found` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, trace });
+  } catch (error) {
+    console.error("Get trace error:", error);
+    return NextResponse.json(
+      { error: `Failed to load trace: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { listTraces, getTraceExporterTypes } from "@/lib/tracing";
+
+// The trace buffer changes with every request
+export const dynamic = "force-dynamic";
+
+/**
+ * Traces API Endpoint
+ *
+ * GET /api/traces?limit=50
+ * Lists the buffered traces, newest first, with the name, duration and
+ * status of each request. Not traced itself, so polling the viewer
+ * doesn't fill the buffer with its own requests.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const limitParam = request.nextUrl.searchParams.get("limit");
+    const limit = limitParam ? Number(limitParam) : undefined;
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return NextResponse.json(
+        { error: "limit must be a positive integer" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      exporters: getTraceExporterTypes(),
+      traces: listTraces(limit),
+    });
+  } catch (error) {
+    console.error("List traces error:", error);
+    return NextResponse.json(
+      { error: `Failed to list traces: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+}
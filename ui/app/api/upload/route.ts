@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from "next/server";
 import { loadPDF } from "@/lib/pdf/loader";
 import { processDocumentForVectorStore } from "@/lib/pdf/splitter";
 import { addDocuments } from "@/lib/vectorStore";
+import { traceRoute } from "@/lib/tracing";
 
 // Store document metadata in memory (in production, use a database)
 const documentMetadata = new Map<
@@ -9,7 +10,7 @@ const documentMetadata = new Map<
   { id: string; filename: string; pageCount: number; chunkCount: number; uploadedAt: Date }
 >();
 
-export async function POST(request: NextRequest) {
+export const POST = traceRoute("/api/upload", async (request: NextRequest) => {
   try {
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
@@ -91,15 +92,15 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // GET endpoint to retrieve all document metadata
-export async function GET() {
+export const GET = traceRoute("/api/upload", async () => {
   const documents = Array.from(documentMetadata.values());
   return NextResponse.json({
     success: true,
     count: documents.length,
     documents,
   });
-}
+});
 
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getUsageReport, getPriceTable } from "@/lib/usage";
+import { traceRoute } from "@/lib/tracing";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Usage API Endpoint
+ *
+ * GET /api/usage?threadId=...&route=/api/chat&from=2025-01-01&to=2025-01-31
+ *
+ * Returns token and cost totals for the recorded model calls: overall,
+ * per day, and per thread, API route, graph node and model. All query
+ * parameters are optional filters; dates are inclusive (UTC).
+ */
+export const GET = traceRoute("/api/usage", async (request: NextRequest) => {
+  try {
+    const params = request.nextUrl.searchParams;
+    const from = params.get("from") ?? undefined;
+    const to = params.get("to") ?? undefined;
+
+    for (const date of [from, to]) {
+      if (date && !DATE_PATTERN.test(date)) {
+        return NextResponse.json(
+          { error: `Invalid date "${date}", expected YYYY-MM-DD` },
+          { status: 400 }
+        );
+      }
+    }
+
+    const report = getUsageReport({
+      threadId: params.get("threadId") ?? undefined,
+      route: params.get("route") ?? undefined,
+      from,
+      to,
+    });
+
+    return NextResponse.json({
+      success: true,
+      currency: "USD",
+      prices: getPriceTable(),
+      ...report,
+    });
+  } catch (error) {
+    console.error("Usage error:", error);
+    return NextResponse.json(
+      { error: `Failed to load usage: ${(error as Error).message}` },
+      { status: 500 }
+    );
+  }
+});
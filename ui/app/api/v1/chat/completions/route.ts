@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  createChatCompletion,
+  streamChatCompletion,
+  createCompletionError,
+  getCompletionModel,
+  validateCompletionRequest,
+  validateCompletionRoute,
+  ChatCompletionRequest,
+} from "@/lib/openai";
+import { findLlmError } from "@/lib/models";
+import { createEventStreamResponse } from "@/lib/utils/sse";
+import { traceRoute } from "@/lib/tracing";
+
+/**
+ * OpenAI-compatible Chat Completions Endpoint
+ *
+ * POST /v1/chat/completions (rewritten to /api/v1/chat/completions)
+ * Body: {
+ *   model: "study-agent" | "study-chat" | "study-research",
+ *   messages: [{ role, content }, ...],
+ *   stream?: boolean,
+ *   stream_options?: { include_usage?: boolean },
+ *   tools?: [{ type: "function", function: { name } }, ...],
+ *   tool_choice?: "none" | "auto" | { type: "function", function: { name } }
+ * }
+ *
+ * `model` picks how the last user message is answered: the tool agent,
+ * plain chat, or the research graph (see GET /v1/models).
+ *
+ * The agent runs its own tools on the server. `tools` limits it to the
+ * named ones (listed on the study-agent entry of GET /v1/models);
+ * tool_choice "none" answers without tools. Sampling parameters such as temperature are
+ * ignored; they come from the configured models. A tool call that needs
+ * the user's approval ends the completion with finish_reason
+ * "approval_required" (see lib/openai/completions.ts).
+ *
+ * Errors use the OpenAI error format. When the models failed, the status
+ * says how (429, 503, 504...) and `code` is the model error kind.
+ */
+export const POST = traceRoute("/api/v1/chat/completions", async (request: NextRequest) => {
+  try {
+    const body = await request.json();
+
+    const requestError = validateCompletionRequest(body);
+    if (requestError) {
+      return NextResponse.json(createCompletionError(requestError), { status: 400 });
+    }
+
+    const completionRequest = body as ChatCompletionRequest;
+    if (!getCompletionModel(completionRequest.model)) {
+      return NextResponse.json(
+        createCompletionError(
+          `The model "${completionRequest.model}" does not exist`,
+          "invalid_request_error",
+          "model_not_found"
+        ),
+        { status: 404 }
+      );
+    }
+
+    const routeError = validateCompletionRoute(completionRequest);
+    if (routeError) {
+      return NextResponse.json(createCompletionError(routeError), { status: 400 });
+    }
+
+    if (completionRequest.stream) {
+      return createEventStreamResponse(
+        streamChatCompletion(completionRequest),
+        "Failed to generate a completion"
+      );
+    }
+
+    return NextResponse.json(await createChatCompletion(completionRequest));
+  } catch (error) {
+    console.error("Chat completion error:", error);
+    const llmError = findLlmError(error);
+    if (llmError) {
+      return NextResponse.json(
+        createCompletionError(llmError.message, "server_error", llmError.kind),
+        { status: llmError.status }
+      );
+    }
+    return NextResponse.json(
+      createCompletionError("Failed to generate a completion", "server_error"),
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { listCompletionModels } from "@/lib/openai";
+import { getToolNames } from "@/lib/agent";
+import { traceRoute } from "@/lib/tracing";
+
+// The tool names include those of MCP servers connected at runtime
+export const dynamic = "force-dynamic";
+
+/**
+ * OpenAI-compatible Models Endpoint
+ *
+ * GET /v1/models (rewritten to /api/v1/models)
+ * Lists the model ids /v1/chat/completions accepts. The tool agent's
+ * entry also lists the tool names a request can pass in `tools`.
+ */
+export const GET = traceRoute("/api/v1/models", async () => {
+  const data = listCompletionModels().map((model) => ({
+    id: model.id,
+    object: "model",
+    created: 0,
+    owned_by: "langchain-agent-ui",
+    description: model.description,
+    ...(model.route === "agent" ? { tools: getToolNames() } : {}),
+  }));
+
+  return NextResponse.json({ object: "list", data });
+});
@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./ApprovalCard.module.css";
+
+export interface PendingToolCall {
+  toolCallId?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; args: Record<string, unknown> }
+  | { action: "reject"; reason?: string };
+
+interface ApprovalCardProps {
+  pendingToolCall: PendingToolCall;
+  disabled?: boolean;
+  onDecision: (decision: ApprovalDecision) => void;
+}
+
+export default function ApprovalCard({
+  pendingToolCall,
+  disabled,
+  onDecision,
+}: ApprovalCardProps) {
+  const originalArgs = JSON.stringify(pendingToolCall.args, null, 2);
+  const [argsText, setArgsText] = useState(originalArgs);
+  const [argsError, setArgsError] = useState<string | null>(null);
+
+  const isEdited = argsText.trim() !== originalArgs.trim();
+
+  const handleApprove = () => {
+    if (!isEdited) {
+      onDecision({ action: "approve" });
+      return;
+    }
+
+    try {
+      const args = JSON.parse(argsText);
+      if (typeof args !== "object" || args === null || Array.isArray(args)) {
+        throw new Error("Arguments must be a JSON object");
+      }
+      onDecision({ action: "edit", args });
+    } catch (error) {
+      setArgsError((error as Error).message);
+    }
+  };
+
+  return (
+    <div className={styles.card}>
+      <div className={styles.header}>
+        <span className={styles.title}>✋ Approval needed</span>
+        <span className={styles.toolName}>{pendingToolCall.name}</span>
+      </div>
+
+      <label className={styles.label}>Arguments</label>
+      <textarea
+        value={argsText}
+        onChange={(e) => {
+          setArgsText(e.target.value);
+          setArgsError(null);
+        }}
+        className={styles.args}
+        rows={Math.min(8, argsText.split("\n").length)}
+        disabled={disabled}
+        spellCheck={false}
+      />
+      {argsError && <span className={styles.error}>{argsError}</span>}
+
+      <div className={styles.actions}>
+        <button
+          onClick={() => onDecision({ action: "reject" })}
+          className={styles.rejectButton}
+          disabled={disabled}
+        >
+          Reject
+        </button>
+        <button
+          onClick={handleApprove}
+          className={styles.approveButton}
+          disabled={disabled}
+        >
+          {isEdited ? "Approve with edits" : "Approve"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./FeedbackControls.module.css";
+
+type Rating = "up" | "down";
+
+interface FeedbackControlsProps {
+  threadId: string;
+  messageId: string;
+}
+
+// Thumbs up/down and an optional correction for one answer, sent to /api/feedback
+export default function FeedbackControls({ threadId, messageId }: FeedbackControlsProps) {
+  const [rating, setRating] = useState<Rating | null>(null);
+  const [showCorrection, setShowCorrection] = useState(false);
+  const [correction, setCorrection] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const sendFeedback = async (newRating: Rating, newCorrection?: string) => {
+    setIsSending(true);
+    setStatus(null);
+
+    try {
+      const response = await fetch("/api/feedback", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          threadId,
+          messageId,
+          rating: newRating,
+          correction: newCorrection || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Something went wrong");
+      }
+
+      setRating(newRating);
+      setStatus(newCorrection ? "Thanks, correction saved" : "Thanks for the feedback");
+      if (newCorrection) {
+        setShowCorrection(false);
+      }
+    } catch (error) {
+      setStatus(`Couldn't save feedback: ${(error as Error).message}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleRating = (newRating: Rating) => {
+    // A thumbs down invites a correction
+    if (newRating === "down") {
+      setShowCorrection(true);
+    }
+    sendFeedback(newRating, correction.trim());
+  };
+
+  return (
+    <div className={styles.feedback}>
+      <div className={styles.buttons}>
+        <button
+          onClick={() => handleRating("up")}
+          className={`${styles.ratingButton} ${rating === "up" ? styles.selected : ""}`}
+          disabled={isSending}
+          title="Good answer"
+        >
+          👍
+        </button>
+        <button
+          onClick={() => handleRating("down")}
+          className={`${styles.ratingButton} ${rating === "down" ? styles.selected : ""}`}
+          disabled={isSending}
+          title="Wrong or unhelpful answer"
+        >
+          👎
+        </button>
+        {!showCorrection && (
+          <button
+            onClick={() => setShowCorrection(true)}
+            className={styles.correctionToggle}
+            disabled={isSending}
+          >
+            Suggest a correction
+          </button>
+        )}
+        {status && <span className={styles.status}>{status}</span>}
+      </div>
+
+      {showCorrection && (
+        <div className={styles.correction}>
+          <textarea
+            value={correction}
+            onChange={(e) => setCorrection(e.target.value)}
+            placeholder="What should the answer have said?"
+            className={styles.correctionInput}
+            rows={3}
+            disabled={isSending}
+          />
+          <div className={styles.actions}>
+            <button
+              onClick={() => setShowCorrection(false)}
+              className={styles.cancelButton}
+              disabled={isSending}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => sendFeedback(rating ?? "down", correction.trim())}
+              className={styles.submitButton}
+              disabled={isSending || !correction.trim()}
+            >
+              Send correction
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
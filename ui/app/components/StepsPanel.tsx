@@ -0,0 +1,76 @@
+"use client";
+
+import type { AgentTrace } from "@/lib/steps";
+import styles from "./StepsPanel.module.css";
+
+interface StepsPanelProps {
+  trace: AgentTrace;
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return "…";
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function formatJson(value: unknown): string {
+  if (typeof value !== "string") return JSON.stringify(value, null, 2);
+  try {
+    return JSON.stringify(JSON.parse(value), null, 2);
+  } catch {
+    return value;
+  }
+}
+
+export default function StepsPanel({ trace }: StepsPanelProps) {
+  return (
+    <details className={styles.panel}>
+      <summary className={styles.summary}>
+        🧭 {trace.steps.length} steps • {formatDuration(trace.durationMs)}
+        {trace.tokenUsage.totalTokens > 0 && ` • ${trace.tokenUsage.totalTokens} tokens`}
+      </summary>
+
+      <ol className={styles.steps}>
+        {trace.steps.map((step) => (
+          <li key={step.runId} className={styles.step}>
+            <div className={styles.stepHeader}>
+              <span className={styles.stepName}>
+                {step.type === "model"
+                  ? `🤖 ${step.model}${step.parentTool ? ` (in ${step.parentTool})` : ""}`
+                  : `🔧 ${step.name}`}
+              </span>
+              <span className={styles.stepMeta}>
+                {step.type === "model" && step.tokenUsage &&
+                  `${step.tokenUsage.inputTokens} in / ${step.tokenUsage.outputTokens} out • `}
+                {formatDuration(step.durationMs)}
+              </span>
+            </div>
+
+            {step.type === "model" && step.toolCalls.map((call, i) => (
+              <pre key={call.id ?? i} className={styles.code}>
+                {call.name}({JSON.stringify(call.args)})
+              </pre>
+            ))}
+            {step.type === "model" && step.content && (
+              <pre className={styles.code}>{step.content}</pre>
+            )}
+
+            {step.type === "tool" && (
+              <>
+                <span className={styles.label}>Input</span>
+                <pre className={styles.code}>{formatJson(step.input)}</pre>
+                {step.output !== undefined && (
+                  <>
+                    <span className={styles.label}>Output</span>
+                    <pre className={styles.code}>{formatJson(step.output)}</pre>
+                  </>
+                )}
+              </>
+            )}
+
+            {step.error && <span className={styles.error}>{step.error}</span>}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
@@ -3,12 +3,81 @@
 import { useState, useRef, useEffect } from "react";
 import styles from "./page.module.css";
 import PdfUploader from "./components/PdfUploader";
+import ApprovalCard, { PendingToolCall, ApprovalDecision } from "./components/ApprovalCard";
+import StepsPanel from "./components/StepsPanel";
+import FeedbackControls from "./components/FeedbackControls";
+import type { AgentTrace } from "@/lib/steps";
 
 interface Message {
   id: string;
   role: "user" | "agent";
   content: string;
   timestamp: Date;
+  activeTool?: string;
+  researchStatus?: string;
+  pendingToolCall?: PendingToolCall;
+  trace?: AgentTrace;
+  // Id of the answer in the thread, which feedback refers to
+  serverMessageId?: string;
+}
+
+// Events sent by /api/chat in streaming mode
+type ChatStreamEvent =
+  | { type: "token"; content: string }
+  | { type: "tool_start"; runId: string; name: string; input: unknown }
+  | { type: "tool_end"; runId: string; name: string; output: string }
+  | { type: "final"; content: string; messageId?: string }
+  | { type: "interrupt"; pendingToolCall: PendingToolCall }
+  | { type: "research_progress"; node: string; status?: string; logs: string[] }
+  | { type: "steps"; trace: AgentTrace }
+  | { type: "error"; error: string };
+
+// A resumed run continues the same answer, so its steps extend the earlier trace
+function mergeTraces(previous: AgentTrace | undefined, next: AgentTrace): AgentTrace {
+  if (!previous) return next;
+  return {
+    steps: [...previous.steps, ...next.steps],
+    durationMs: previous.durationMs + next.durationMs,
+    tokenUsage: {
+      inputTokens: previous.tokenUsage.inputTokens + next.tokenUsage.inputTokens,
+      outputTokens: previous.tokenUsage.outputTokens + next.tokenUsage.outputTokens,
+      totalTokens: previous.tokenUsage.totalTokens + next.tokenUsage.totalTokens,
+    },
+  };
+}
+
+// Read a Server-Sent Events response and hand each parsed event to the callback
+async function readEventStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) return;
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const chunks = buffer.split("\n\n");
+    buffer = chunks.pop() || "";
+
+    for (const chunk of chunks) {
+      const data = chunk.replace(/^data: /, "").trim();
+      if (!data || data === "[DONE]") continue;
+      onEvent(JSON.parse(data));
+    }
+  }
+}
+
+// Persona summary from /api/personas
+interface PersonaOption {
+  id: string;
+  name: string;
+  description: string;
 }
 
 // Generate a unique thread ID for the conversation
@@ -23,6 +92,8 @@ export default function Home() {
   const [threadId, setThreadId] = useState<string>("");
   const [showUploader, setShowUploader] = useState(false);
   const [hasDocuments, setHasDocuments] = useState(false);
+  const [personas, setPersonas] = useState<PersonaOption[]>([]);
+  const [persona, setPersona] = useState("default");
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Initialize threadId on mount (client-side only)
@@ -30,6 +101,14 @@ export default function Home() {
     setThreadId(generateThreadId());
   }, []);
 
+  // Load the personas a new conversation can pick from
+  useEffect(() => {
+    fetch("/api/personas")
+      .then((response) => response.json())
+      .then((data) => setPersonas(data.personas ?? []))
+      .catch(() => setPersonas([]));
+  }, []);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -44,54 +123,141 @@ export default function Home() {
     setThreadId(generateThreadId());
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
+  // Create or update an agent message in place (used while streaming)
+  const updateAgentMessage = (
+    agentMessageId: string,
+    update: (message: Message) => Message
+  ) => {
+    setMessages((prev) => {
+      const existing = prev.find((m) => m.id === agentMessageId);
+      if (!existing) {
+        const created: Message = {
+          id: agentMessageId,
+          role: "agent",
+          content: "",
+          timestamp: new Date(),
+        };
+        return [...prev, update(created)];
+      }
+      return prev.map((m) => (m.id === agentMessageId ? update(m) : m));
+    });
+  };
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
-      role: "user",
-      content: input.trim(),
-      timestamp: new Date(),
-    };
+  // POST to a streaming chat endpoint and render its events into one agent message
+  const streamIntoMessage = async (
+    url: string,
+    body: Record<string, unknown>,
+    agentMessageId: string
+  ) => {
+    const update = (fn: (message: Message) => Message) =>
+      updateAgentMessage(agentMessageId, fn);
 
-    setMessages((prev) => [...prev, userMessage]);
-    setInput("");
     setIsLoading(true);
 
     try {
-      const response = await fetch("/api/chat", {
+      const response = await fetch(url, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ 
-          message: userMessage.content,
-          threadId: threadId,
-        }),
+        body: JSON.stringify({ ...body, threadId, stream: true, includeSteps: true }),
       });
 
-      const data = await response.json();
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Something went wrong");
+      }
 
-      const agentMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "agent",
-        content: data.response || data.error || "Something went wrong",
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, agentMessage]);
+      await readEventStream(response, (event) => {
+        switch (event.type) {
+          case "token":
+            update((m) => ({ ...m, content: m.content + event.content }));
+            break;
+          case "tool_start":
+            // Text streamed before a tool call is only the model thinking aloud
+            update((m) => ({ ...m, content: "", activeTool: event.name }));
+            break;
+          case "tool_end":
+            update((m) => ({ ...m, activeTool: undefined }));
+            break;
+          case "research_progress":
+            // Show the latest line of the research log while it runs
+            if (event.logs.length > 0) {
+              update((m) => ({ ...m, researchStatus: event.logs.at(-1)?.trim() }));
+            }
+            break;
+          case "final":
+            update((m) => ({
+              ...m,
+              content: event.content || "No response",
+              serverMessageId: event.messageId,
+              activeTool: undefined,
+              researchStatus: undefined,
+            }));
+            break;
+          case "interrupt":
+            update((m) => ({
+              ...m,
+              activeTool: undefined,
+              pendingToolCall: event.pendingToolCall,
+            }));
+            break;
+          case "steps":
+            update((m) => ({ ...m, trace: mergeTraces(m.trace, event.trace) }));
+            break;
+          case "error":
+            update((m) => ({
+              ...m,
+              content: event.error,
+              activeTool: undefined,
+              researchStatus: undefined,
+            }));
+            break;
+        }
+      });
     } catch (error) {
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "agent",
+      update((m) => ({
+        ...m,
         content: "Failed to connect to the agent. Please try again.",
-        timestamp: new Date(),
-      };
-      setMessages((prev) => [...prev, errorMessage]);
+        activeTool: undefined,
+        researchStatus: undefined,
+      }));
     } finally {
       setIsLoading(false);
     }
   };
 
+  // The thread is paused until the pending tool call is answered
+  const hasPendingApproval = messages.some((m) => m.pendingToolCall);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim() || isLoading || hasPendingApproval) return;
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: "user",
+      content: input.trim(),
+      timestamp: new Date(),
+    };
+
+    setMessages((prev) => [...prev, userMessage]);
+    setInput("");
+
+    await streamIntoMessage(
+      "/api/chat",
+      { message: userMessage.content, persona },
+      (Date.now() + 1).toString()
+    );
+  };
+
+  // Answer a paused tool call and continue the run in the same message
+  const handleApprovalDecision = async (
+    agentMessageId: string,
+    decision: ApprovalDecision
+  ) => {
+    updateAgentMessage(agentMessageId, (m) => ({ ...m, pendingToolCall: undefined }));
+    await streamIntoMessage("/api/chat/resume", { ...decision }, agentMessageId);
+  };
+
   return (
     <main className={styles.main}>
       <div className={styles.container}>
@@ -119,7 +285,7 @@ export default function Home() {
             </div>
           </div>
           <p className={styles.subtitle}>
-            Weather • Math • Study Buddy (PDF-AI) • <a href="/research" className={styles.subtitleLink}>Research Agent</a> • <span className={styles.memoryBadge}>🧠 Memory</span>
+            Weather • Math • Study Buddy (PDF-AI) • <a href="/research" className={styles.subtitleLink}>Research Agent</a> • <a href="/traces" className={styles.subtitleLink}>Traces</a> • <span className={styles.memoryBadge}>🧠 Memory</span>
           </p>
         </header>
 
@@ -135,6 +301,23 @@ export default function Home() {
               <div className={styles.emptyState}>
                 <div className={styles.emptyIcon}>💬</div>
                 <h2>Start a conversation</h2>
+                {personas.length > 0 && (
+                  <>
+                    <label className={styles.personaPicker}>
+                      Persona
+                      <select value={persona} onChange={(e) => setPersona(e.target.value)}>
+                        {personas.map((p) => (
+                          <option key={p.id} value={p.id}>
+                            {p.name}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <p className={styles.personaDescription}>
+                      {personas.find((p) => p.id === persona)?.description}
+                    </p>
+                  </>
+                )}
                 <p>The agent remembers your conversation! Try asking:</p>
                 <div className={styles.suggestions}>
                   <button
@@ -196,12 +379,42 @@ export default function Home() {
                       })}
                     </span>
                   </div>
-                  <p className={styles.messageText}>{message.content}</p>
+                  {message.activeTool && (
+                    <span className={styles.toolActivity}>
+                      🔧 Using {message.activeTool}...
+                    </span>
+                  )}
+                  {message.researchStatus && (
+                    <span className={styles.toolActivity}>
+                      🔬 {message.researchStatus}
+                    </span>
+                  )}
+                  {message.content && (
+                    <p className={styles.messageText}>{message.content}</p>
+                  )}
+                  {message.pendingToolCall && (
+                    <ApprovalCard
+                      pendingToolCall={message.pendingToolCall}
+                      disabled={isLoading}
+                      onDecision={(decision) =>
+                        handleApprovalDecision(message.id, decision)
+                      }
+                    />
+                  )}
+                  {message.trace && message.trace.steps.length > 0 && (
+                    <StepsPanel trace={message.trace} />
+                  )}
+                  {message.serverMessageId && (
+                    <FeedbackControls
+                      threadId={threadId}
+                      messageId={message.serverMessageId}
+                    />
+                  )}
                 </div>
               </div>
             ))}
 
-            {isLoading && (
+            {isLoading && messages.at(-1)?.role !== "agent" && (
               <div className={`${styles.message} ${styles.agentMessage}`}>
                 <div className={styles.messageAvatar}>🤖</div>
                 <div className={styles.messageContent}>
@@ -227,12 +440,12 @@ export default function Home() {
                 : "Ask me anything... I'll remember our conversation!"
               }
               className={styles.input}
-              disabled={isLoading}
+              disabled={isLoading || hasPendingApproval}
             />
             <button
               type="submit"
               className={styles.sendButton}
-              disabled={isLoading || !input.trim()}
+              disabled={isLoading || hasPendingApproval || !input.trim()}
             >
               {isLoading ? (
                 <span className={styles.loadingSpinner}></span>
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import styles from "./page.module.css";
+
+type SpanKind = "route" | "node" | "tool" | "llm" | "retrieval";
+type SpanStatus = "unset" | "ok" | "error";
+
+interface Span {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTime: number;
+  endTime?: number;
+  durationMs?: number;
+  status: SpanStatus;
+  error?: string;
+  attributes: Record<string, string | number | boolean>;
+}
+
+interface TraceSummary {
+  traceId: string;
+  name: string;
+  startTime: number;
+  durationMs?: number;
+  spanCount: number;
+  status: SpanStatus;
+}
+
+interface Trace extends TraceSummary {
+  spans: Span[];
+}
+
+interface SpanRow {
+  span: Span;
+  depth: number;
+}
+
+const KIND_ICONS: Record<SpanKind, string> = {
+  route: "🌐",
+  node: "🔷",
+  tool: "🔧",
+  llm: "🤖",
+  retrieval: "📚",
+};
+
+/**
+ * Order spans depth-first under their parents, for the waterfall
+ */
+function toRows(spans: Span[]): SpanRow[] {
+  const ids = new Set(spans.map((span) => span.spanId));
+  const children = new Map<string | undefined, Span[]>();
+
+  for (const span of spans) {
+    // Spans whose parent was not recorded are shown at the top level
+    const parent = span.parentSpanId && ids.has(span.parentSpanId) ? span.parentSpanId : undefined;
+    children.set(parent, [...(children.get(parent) ?? []), span]);
+  }
+
+  const rows: SpanRow[] = [];
+  const visit = (parent: string | undefined, depth: number) => {
+    for (const span of children.get(parent) ?? []) {
+      rows.push({ span, depth });
+      visit(span.spanId, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+
+  return rows;
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return "running";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(2)} s`;
+}
+
+export default function TracesPage() {
+  const [traces, setTraces] = useState<TraceSummary[]>([]);
+  const [selected, setSelected] = useState<Trace | null>(null);
+  const [selectedSpan, setSelectedSpan] = useState<Span | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const loadTraces = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch("/api/traces?limit=100");
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load traces");
+      }
+
+      setTraces(data.traces);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const openTrace = async (traceId: string) => {
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/traces/${traceId}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to load trace");
+      }
+
+      setSelected(data.trace);
+      setSelectedSpan(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  useEffect(() => {
+    loadTraces();
+  }, [loadTraces]);
+
+  const traceStart = selected ? Math.min(...selected.spans.map((s) => s.startTime)) : 0;
+  const traceEnd = selected
+    ? Math.max(...selected.spans.map((s) => s.endTime ?? s.startTime))
+    : 0;
+  const traceLength = Math.max(traceEnd - traceStart, 1);
+
+  return (
+    <main className={styles.main}>
+      <div className={styles.container}>
+        <header className={styles.header}>
+          <div className={styles.headerContent}>
+            <a href="/" className={styles.backLink}>← Back to Chat</a>
+            <h1>🧭 Traces</h1>
+            <p className={styles.subtitle}>
+              Routes • Graph nodes • Tool calls • Model calls • Vector searches
+            </p>
+          </div>
+        </header>
+
+        {error && (
+          <div className={styles.error}>
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+
+        <div className={styles.layout}>
+          {/* Trace List */}
+          <section className={styles.traceList}>
+            <div className={styles.sectionHeader}>
+              <h3>Recent Requests</h3>
+              <button onClick={loadTraces} disabled={isLoading} className={styles.refreshButton}>
+                {isLoading ? "Loading..." : "↻ Refresh"}
+              </button>
+            </div>
+
+            {traces.length === 0 && !isLoading && (
+              <p className={styles.empty}>No traces yet. Send a chat message and refresh.</p>
+            )}
+
+            {traces.map((trace) => (
+              <button
+                key={trace.traceId}
+                onClick={() => openTrace(trace.traceId)}
+                className={`${styles.traceItem} ${
+                  selected?.traceId === trace.traceId ? styles.active : ""
+                }`}
+              >
+                <span className={styles.traceName}>
+                  {trace.status === "error" && <span className={styles.errorDot}>●</span>}
+                  {trace.name}
+                </span>
+                <span className={styles.traceMeta}>
+                  {new Date(trace.startTime).toLocaleTimeString()} • {formatDuration(trace.durationMs)} •{" "}
+                  {trace.spanCount} spans
+                </span>
+              </button>
+            ))}
+          </section>
+
+          {/* Waterfall */}
+          <section className={styles.waterfall}>
+            {!selected ? (
+              <p className={styles.empty}>Select a request to see its spans.</p>
+            ) : (
+              <>
+                <div className={styles.sectionHeader}>
+                  <h3>{selected.name}</h3>
+                  <code className={styles.traceId}>{selected.traceId}</code>
+                </div>
+
+                {toRows(selected.spans).map(({ span, depth }) => (
+                  <button
+                    key={span.spanId}
+                    onClick={() => setSelectedSpan(span)}
+                    className={`${styles.spanRow} ${
+                      selectedSpan?.spanId === span.spanId ? styles.active : ""
+                    }`}
+                  >
+                    <span className={styles.spanName} style={{ paddingLeft: `${depth}rem` }}>
+                      {KIND_ICONS[span.kind]} {span.name}
+                    </span>
+                    <span className={styles.spanTrack}>
+                      <span
+                        className={`${styles.spanBar} ${styles[span.kind]} ${
+                          span.status === "error" ? styles.failed : ""
+                        }`}
+                        style={{
+                          left: `${((span.startTime - traceStart) / traceLength) * 100}%`,
+                          width: `${Math.max(
+                            (((span.endTime ?? traceEnd) - span.startTime) / traceLength) * 100,
+                            0.5
+                          )}%`,
+                        }}
+                      />
+                    </span>
+                    <span className={styles.spanDuration}>{formatDuration(span.durationMs)}</span>
+                  </button>
+                ))}
+
+                {selectedSpan && (
+                  <div className={styles.details}>
+                    <h3>
+                      {KIND_ICONS[selectedSpan.kind]} {selectedSpan.name}
+                    </h3>
+                    {selectedSpan.error && (
+                      <div className={styles.error}>{selectedSpan.error}</div>
+                    )}
+                    <dl className={styles.attributes}>
+                      <dt>kind</dt>
+                      <dd>{selectedSpan.kind}</dd>
+                      <dt>status</dt>
+                      <dd>{selectedSpan.status}</dd>
+                      <dt>duration</dt>
+                      <dd>{formatDuration(selectedSpan.durationMs)}</dd>
+                      {Object.entries(selectedSpan.attributes).map(([key, value]) => (
+                        <div key={key} className={styles.attribute}>
+                          <dt>{key}</dt>
+                          <dd>{String(value)}</dd>
+                        </div>
+                      ))}
+                    </dl>
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </div>
+    </main>
+  );
+}
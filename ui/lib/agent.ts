@@ -1,27 +1,143 @@
-import { ChatGroq } from "@langchain/groq";
 import { createReactAgent } from "@langchain/langgraph/prebuilt";
-import { MemorySaver } from "@langchain/langgraph";
+import { Command, END, START, StateGraph } from "@langchain/langgraph";
 import { BaseMessage, HumanMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { interopSafeParse, isInteropZodSchema } from "@langchain/core/utils/types";
 import { 
   getWeather, 
   calculate, 
   solveMathPuzzle, 
   queryStudyMaterials, 
-  listStudyMaterials 
+  listStudyMaterials,
+  saveUserMemory,
+  recallUserMemories,
+  forgetUserMemory,
+  createApprovalToolNode,
+  APPROVED_TOOL_TAG,
+  PendingToolCall,
+  ApprovalDecision,
 } from "./tools";
+import { getCheckpointer } from "./checkpointer";
+import { getModel, resolveModelSpec, ModelOverrides, PROMPT_TOOL_CALLING_TAG } from "./models";
+import { summarizeConversation, SUMMARY_TAG } from "./summarization";
+import { StepCollector, AgentTrace } from "./steps";
+import { getTracingCallbacks } from "./tracing";
+import { checkResponseCache, selectAfterCache, cacheResponse } from "./responseCache";
+import {
+  guardOutput,
+  restorePii,
+  redactPiiInValue,
+  restorePiiInValue,
+  getThreadVault,
+  StreamingOutputGuard,
+  GuardrailViolation,
+} from "./guardrails";
+import { recallMemories, buildMemoryMessage, MEMORY_MESSAGE_ID } from "./memory";
+import {
+  connectMcpServers,
+  getLoadedMcpTools,
+  getMcpToolsRequiringApproval,
+  getMcpToolsVersion,
+} from "./mcp";
+import {
+  SupervisorAnnotation,
+  SupervisorState,
+  SUPERVISOR_TAG,
+  classifyTurn,
+  selectRoute,
+  respondDirectly,
+  researchTopic,
+  RESEARCH_TAG,
+  RESEARCH_NODES,
+  ResearchProgress,
+  SupervisorRoute,
+} from "./supervisor";
+import {
+  Persona,
+  resolvePersona,
+  getPersonaModelOverrides,
+  DEFAULT_PERSONA_ID,
+} from "./personas";
 
 /**
- * Create the model using Groq
+ * Get the shared checkpointer
+ * This enables the agent to remember conversation history.
+ * MemorySaver by default; set CHECKPOINTER=file to keep threads across restarts.
  */
-const model = new ChatGroq({
-  model: "llama-3.3-70b-versatile",
-});
+const checkpointer = getCheckpointer();
 
 /**
- * Create a memory checkpointer
- * This enables the agent to remember conversation history
+ * Options for a single agent run
  */
-const checkpointer = new MemorySaver();
+export interface AgentRunOptions {
+  /** Per-request model choices, e.g. { chat: "openai:gpt-4o-mini" } */
+  models?: ModelOverrides;
+  /** Records the run's intermediate steps, for the includeSteps option */
+  stepCollector?: StepCollector;
+  /** Run from this earlier checkpoint instead of the latest, forking the thread */
+  checkpointId?: string;
+  /** Persona id to store on the thread; only set when the thread is created */
+  persona?: string;
+  /** API route that started the run, for usage accounting */
+  route?: string;
+  /** Skip the supervisor and send the turn to this route */
+  supervisorRoute?: SupervisorRoute;
+  /** Names of the tools the tool agent may use, within the persona's tools */
+  tools?: string[];
+  /** Don't answer from the response cache, e.g. when regenerating */
+  skipResponseCache?: boolean;
+  /** User whose long-term memories the thread reads and writes; stored on the thread */
+  userId?: string;
+}
+
+// One compiled agent per chat model; they all share the checkpointer
+const agentCache = new Map<string, ReturnType<typeof buildAgent>>();
+
+// Every persona can use these, whatever its tool list
+const MEMORY_TOOLS: StructuredToolInterface[] = [saveUserMemory, recallUserMemories, forgetUserMemory];
+
+const ALL_TOOLS: StructuredToolInterface[] = [
+  getWeather, 
+  calculate, 
+  solveMathPuzzle, 
+  queryStudyMaterials, 
+  listStudyMaterials,
+  ...MEMORY_TOOLS,
+];
+
+/**
+ * Names of the tools the tool agent can use, including those of the
+ * MCP servers connected so far
+ */
+export function getToolNames(): string[] {
+  return [...ALL_TOOLS, ...getLoadedMcpTools()].map((t) => t.name);
+}
+
+/**
+ * Create the ReAct tool agent for a persona
+ * The persona picks the system prompt, the tool subset and the model parameters.
+ * `allowedTools` narrows the persona's tools further for a single run.
+ * `mcpTools` are the tools of the connected MCP servers (see lib/mcp).
+ */
+function buildReactAgent(
+  persona: Persona,
+  models?: ModelOverrides,
+  allowedTools?: string[],
+  mcpTools: StructuredToolInterface[] = []
+) {
+  const tools = [...ALL_TOOLS, ...mcpTools].filter(
+    (t) =>
+      (!persona.tools || persona.tools.includes(t.name) || MEMORY_TOOLS.includes(t)) &&
+      (!allowedTools || allowedTools.includes(t.name))
+  );
+
+  return createReactAgent({
+    llm: getModel("chat", getPersonaModelOverrides(persona, models), persona.settings),
+    tools: createApprovalToolNode(tools, getMcpToolsRequiringApproval()),
+    prompt: persona.systemPrompt,
+  });
+}
 
 /**
  * Create the agent with tools and memory
@@ -32,37 +148,402 @@ const checkpointer = new MemorySaver();
  * - solveMathPuzzle: Solve word problems without hallucinating calculations
  * - queryStudyMaterials: Search uploaded PDFs for relevant information (RAG)
  * - listStudyMaterials: List all uploaded study documents
+ * - saveMemory / recallMemories / forgetMemory: Long-term facts about the user
+ * - Tools of the MCP servers in the MCP config, named "<server>__<tool>"
+ *
+ * Tools in TOOLS_REQUIRING_APPROVAL, and MCP tools whose server config
+ * sets requireApproval, pause the thread for human approval.
+ * The thread's persona (see lib/personas) limits which of them it may use.
+ *
+ * Each turn runs through a supervisor graph:
+ *
+ *   summarize_conversation → check_response_cache ─┬─ (cache hit)
+ *                                                  └─ recall_memories → supervisor ─┬─ respond   (direct answer, no tools)
+ *                                                                                   ├─ agent     (ReAct tool agent) → cache_response
+ *                                                                                   └─ research  (cyclic research graph)
+ *
+ * Every branch then ends in guard_output.
+ *
+ * summarize_conversation folds older turns into a running summary once
+ * the thread passes CONTEXT_TOKEN_BUDGET. check_response_cache answers a
+ * repeated study-materials question from lib/responseCache, and
+ * cache_response stores the tool agent's answers to new ones.
+ * recall_memories looks up the user's long-term memories (lib/memory)
+ * for the answering nodes. guard_output checks every answer against the output policies in
+ * lib/guardrails. The ReAct agent and the research graph run as subgraphs
+ * and share the outer graph's checkpointer.
+ */
+function buildAgent(models?: ModelOverrides) {
+  const reactAgents = new Map<string, ReturnType<typeof buildReactAgent>>();
+  let mcpToolsVersion = getMcpToolsVersion();
+
+  // Graph node: run the ReAct agent of the thread's persona as a subgraph
+  const runReactAgent = async (state: SupervisorState, config?: RunnableConfig) => {
+    const persona = resolvePersona(state.persona);
+    const allowedTools = config?.configurable?.allowed_tools as string[] | undefined;
+    const key = allowedTools ? `${persona.id}:${[...allowedTools].sort().join(",")}` : persona.id;
+
+    // Servers that aren't connected yet join a later turn; rebuild the
+    // agents when an MCP server's tools changed
+    void connectMcpServers();
+    const mcpTools = getLoadedMcpTools();
+    if (getMcpToolsVersion() !== mcpToolsVersion) {
+      mcpToolsVersion = getMcpToolsVersion();
+      reactAgents.clear();
+    }
+
+    let reactAgent = reactAgents.get(key);
+    if (!reactAgent) {
+      reactAgent = buildReactAgent(persona, models, allowedTools, mcpTools);
+      reactAgents.set(key, reactAgent);
+    }
+
+    // Recalled memories are shown to the model but not stored in the thread;
+    // the memory tools save to the thread's user
+    const memoryMessage = buildMemoryMessage(state.memories);
+    const result = await reactAgent.invoke(
+      { messages: memoryMessage ? [memoryMessage, ...state.messages] : state.messages },
+      { ...config, configurable: { ...config?.configurable, user_id: state.userId } }
+    );
+    return { messages: result.messages.filter((m) => m.id !== MEMORY_MESSAGE_ID) };
+  };
+
+  return new StateGraph(SupervisorAnnotation)
+    .addNode("summarize_conversation", summarizeConversation)
+    .addNode("supervisor", classifyTurn)
+    .addNode("respond", respondDirectly)
+    .addNode("agent", runReactAgent)
+    .addNode("research", researchTopic)
+    .addNode("check_response_cache", checkResponseCache)
+    .addNode("cache_response", cacheResponse)
+    .addNode("guard_output", guardOutput)
+    .addNode("recall_memories", recallMemories)
+    .addEdge(START, "summarize_conversation")
+    .addEdge("summarize_conversation", "check_response_cache")
+    .addConditionalEdges("check_response_cache", selectAfterCache, {
+      hit: "guard_output",
+      miss: "recall_memories",
+    })
+    .addEdge("recall_memories", "supervisor")
+    .addConditionalEdges("supervisor", selectRoute, {
+      respond: "respond",
+      agent: "agent",
+      research: "research",
+    })
+    .addEdge("respond", "guard_output")
+    .addEdge("agent", "cache_response")
+    .addEdge("cache_response", "guard_output")
+    .addEdge("research", "guard_output")
+    .addEdge("guard_output", END)
+    .compile({ checkpointer: checkpointer });
+}
+
+/**
+ * Get the agent for the requested chat model (cached per model)
+ */
+export function getAgent(models?: ModelOverrides) {
+  const spec = resolveModelSpec("chat", models);
+  const key = `${spec.provider}:${spec.model}`;
+
+  let cached = agentCache.get(key);
+  if (!cached) {
+    cached = buildAgent(models);
+    agentCache.set(key, cached);
+  }
+
+  return cached;
+}
+
+/**
+ * The agent with the configured default chat model
+ */
+export const agent = getAgent();
+
+/**
+ * Build the run config for a thread
+ * Model overrides travel in `configurable` so tools can read them too.
+ * The route goes in `metadata`, which every nested model call inherits.
+ * Nodes, tools and model calls are traced under the request's span.
  */
-export const agent = createReactAgent({
-  llm: model,
-  tools: [
-    getWeather, 
-    calculate, 
-    solveMathPuzzle, 
-    queryStudyMaterials, 
-    listStudyMaterials
-  ],
-  checkpointer: checkpointer,
-});
+function getRunConfig(threadId: string, options?: AgentRunOptions) {
+  // The trace shows the thread's personal data, not its placeholders
+  options?.stepCollector?.setPiiVault(getThreadVault(threadId));
+
+  return {
+    configurable: {
+      thread_id: threadId,
+      checkpoint_id: options?.checkpointId,
+      models: options?.models,
+      supervisor_route: options?.supervisorRoute,
+      allowed_tools: options?.tools,
+      skip_response_cache: options?.skipResponseCache,
+    },
+    metadata: { route: options?.route },
+    callbacks: [
+      ...(options?.stepCollector ? [options.stepCollector] : []),
+      ...getTracingCallbacks(),
+    ],
+  };
+}
+
+/**
+ * New messages to add to the thread, or a Command resuming a paused thread
+ */
+export type AgentInput = BaseMessage[] | Command;
+
+function toGraphInput(input: AgentInput, options?: AgentRunOptions) {
+  if (input instanceof Command) {
+    return input;
+  }
+  return {
+    messages: input,
+    ...(options?.persona ? { persona: options.persona } : {}),
+    ...(options?.userId ? { userId: options.userId } : {}),
+  };
+}
 
 /**
  * Invoke the agent with memory support
  * 
- * @param messages - Array of LangChain messages
+ * @param input - Array of LangChain messages, or a resume Command
  * @param threadId - Unique identifier for the conversation thread
+ * @param options - Optional per-request settings such as model overrides
  */
 export async function invokeAgent(
-  messages: BaseMessage[],
-  threadId: string
+  input: AgentInput,
+  threadId: string,
+  options?: AgentRunOptions
 ) {
-  const response = await agent.invoke(
-    { messages },
-    { configurable: { thread_id: threadId } }
+  const response = await getAgent(options?.models).invoke(
+    toGraphInput(input, options),
+    getRunConfig(threadId, options)
   );
   
   return response;
 }
 
+/**
+ * Get the tool call a thread is paused on, if any
+ */
+export async function getPendingToolCall(threadId: string): Promise<PendingToolCall | null> {
+  const state = await agent.getState({ configurable: { thread_id: threadId } });
+  const pending = state.tasks.flatMap((task) => task.interrupts);
+
+  return pending.length > 0 ? restorePiiInValue(pending[0].value as PendingToolCall, getThreadVault(threadId)) : null;
+}
+
+/**
+ * Check replacement arguments for a pending tool call against the tool's schema
+ *
+ * @returns An error message, or null if the arguments are valid
+ */
+export function validateToolArgs(name: string, args: Record<string, unknown>): string | null {
+  const tool = [...ALL_TOOLS, ...getLoadedMcpTools()].find((t) => t.name === name);
+  if (!tool) {
+    return `Unknown tool "${name}"`;
+  }
+
+  if (isInteropZodSchema(tool.schema)) {
+    const result = interopSafeParse(tool.schema, args);
+    if (!result.success) {
+      return `Invalid arguments for "${name}": ${result.error.message}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the persona id a thread was created with
+ *
+ * @returns The persona id, or null if the thread doesn't exist yet
+ */
+export async function getThreadPersona(threadId: string): Promise<string | null> {
+  const state = await agent.getState({ configurable: { thread_id: threadId } });
+  if (!state.createdAt) {
+    return null;
+  }
+
+  return (state.values.persona as string | undefined) ?? DEFAULT_PERSONA_ID;
+}
+
+/**
+ * Build the Command that resumes a paused thread with the user's decision
+ *
+ * Edited arguments are masked again, since the pending call was shown
+ * with the thread's personal data restored.
+ */
+export function createResumeCommand(decision: ApprovalDecision, threadId: string): Command {
+  if (decision.action === "edit") {
+    return new Command({
+      resume: { ...decision, args: redactPiiInValue(decision.args, getThreadVault(threadId)) },
+    });
+  }
+  return new Command({ resume: decision });
+}
+
+/**
+ * Events emitted while streaming an agent run
+ *
+ * - token: a chunk of text generated by the LLM, with the graph node it
+ *   came from ("agent" for the tool agent's steps, which may end in tool calls).
+ *   The last few words are held back until the output policies can't match
+ *   them anymore (see StreamingOutputGuard), and nothing more is sent once
+ *   a "block" policy matches; the final event then has the replacement.
+ * - tool_start / tool_end: a tool call began or finished
+ * - final: the complete final answer once the run is done, with its
+ *   message id and the output policy violations it was checked for
+ * - interrupt: the run paused on a tool call that needs approval
+ * - research_progress: a research graph step finished, with its new log lines
+ * - steps: the run's intermediate steps, when a step collector was passed
+ *
+ * Every event shows personal data as the user wrote it, with the thread's
+ * PII placeholders restored.
+ */
+export type AgentStreamEvent =
+  | { type: "token"; content: string; node?: string }
+  | { type: "tool_start"; runId: string; name: string; input: unknown }
+  | { type: "tool_end"; runId: string; name: string; output: string }
+  | { type: "final"; content: string; messageId?: string; violations: GuardrailViolation[] }
+  | { type: "interrupt"; pendingToolCall: PendingToolCall }
+  | ({ type: "research_progress" } & ResearchProgress)
+  | { type: "steps"; trace: AgentTrace };
+
+/**
+ * Tool start events carry the raw JSON arguments as { input: "..." }
+ */
+function parseToolInput(input: unknown): unknown {
+  const raw = (input as { input?: unknown } | undefined)?.input;
+  if (typeof raw !== "string") {
+    return input;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Stream the agent run token by token
+ *
+ * Uses LangGraph's streamEvents API so the UI can render the answer
+ * while the ReAct loop is still running.
+ *
+ * @param input - Array of LangChain messages, or a resume Command
+ * @param threadId - Unique identifier for the conversation thread
+ * @param options - Optional per-request settings such as model overrides
+ */
+export async function* streamAgent(
+  input: AgentInput,
+  threadId: string,
+  options?: AgentRunOptions
+): AsyncGenerator<AgentStreamEvent> {
+  const agent = getAgent(options?.models);
+  const config = getRunConfig(threadId, options);
+
+  const events = agent.streamEvents(toGraphInput(input, options), { ...config, version: "v2" });
+
+  // Approval wrappers call the real tool inside them; only report the outer call
+  const isNestedTool = (tags?: string[]) => tags?.includes(APPROVED_TOOL_TAG) ?? false;
+
+  // Only the research synthesis is part of the answer, not its queries or grades;
+  // prompt-based tool calling answers through its wrapper, not the raw text
+  const isHiddenModelRun = (tags: string[] = [], node?: unknown) =>
+    tags.includes(SUMMARY_TAG) ||
+    tags.includes(SUPERVISOR_TAG) ||
+    tags.includes(PROMPT_TOOL_CALLING_TAG) ||
+    (tags.includes(RESEARCH_TAG) && node !== "synthesize");
+
+  // Research nodes return their full log; only send the new lines
+  let researchLogCount = 0;
+
+  const vault = getThreadVault(threadId);
+  // One per streaming model call, keyed by run id
+  const guards = new Map<string, StreamingOutputGuard>();
+
+  for await (const event of events) {
+    if (event.event === "on_chat_model_stream") {
+      if (isHiddenModelRun(event.tags, event.metadata?.langgraph_node)) continue;
+      const content = event.data.chunk?.content;
+      if (typeof content === "string" && content.length > 0) {
+        let guard = guards.get(event.run_id);
+        if (!guard) {
+          guard = new StreamingOutputGuard(vault);
+          guards.set(event.run_id, guard);
+        }
+        const text = guard.push(content);
+        if (text) {
+          yield { type: "token", content: text, node: event.metadata?.langgraph_node as string | undefined };
+        }
+      }
+    } else if (event.event === "on_chat_model_end") {
+      const guard = guards.get(event.run_id);
+      if (!guard) continue;
+      guards.delete(event.run_id);
+      const text = guard.end();
+      if (text) {
+        yield { type: "token", content: text, node: event.metadata?.langgraph_node as string | undefined };
+      }
+    } else if (event.event === "on_tool_start") {
+      if (isNestedTool(event.tags)) continue;
+      yield {
+        type: "tool_start",
+        runId: event.run_id,
+        name: event.name,
+        input: restorePiiInValue(parseToolInput(event.data.input), vault),
+      };
+    } else if (event.event === "on_tool_end") {
+      if (isNestedTool(event.tags)) continue;
+      const output = event.data.output;
+      yield {
+        type: "tool_end",
+        runId: event.run_id,
+        name: event.name,
+        output: restorePii(typeof output?.content === "string" ? output.content : String(output), vault),
+      };
+    } else if (
+      event.event === "on_chain_end" &&
+      event.tags?.includes(RESEARCH_TAG) &&
+      RESEARCH_NODES.includes(event.name) &&
+      event.metadata?.langgraph_node === event.name
+    ) {
+      const output = event.data.output as { status?: string; logs?: string[] } | undefined;
+      const logs = output?.logs ?? [];
+      yield {
+        type: "research_progress",
+        node: event.name,
+        status: output?.status,
+        logs: logs.slice(researchLogCount),
+      };
+      researchLogCount = Math.max(researchLogCount, logs.length);
+    }
+  }
+
+  if (options?.stepCollector) {
+    yield { type: "steps", trace: options.stepCollector.getTrace() };
+  }
+
+  // Read the final answer back from the latest checkpoint of the thread
+  const state = await agent.getState({ configurable: { thread_id: threadId } });
+
+  const pending = state.tasks.flatMap((task) => task.interrupts);
+  if (pending.length > 0) {
+    yield { type: "interrupt", pendingToolCall: restorePiiInValue(pending[0].value as PendingToolCall, vault) };
+    return;
+  }
+
+  const lastMessage = (state.values.messages as BaseMessage[] | undefined)?.at(-1);
+  const content = lastMessage?.content;
+
+  yield {
+    type: "final",
+    content: typeof content === "string" ? content : JSON.stringify(content ?? ""),
+    messageId: lastMessage?.id,
+    violations: (state.values.violations as GuardrailViolation[] | undefined) ?? [],
+  };
+}
+
 /**
  * Helper to create a human message
  */
@@ -0,0 +1,224 @@
+import fs from "fs";
+import path from "path";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  MemorySaver,
+  type Checkpoint,
+  type CheckpointMetadata,
+} from "@langchain/langgraph";
+
+/**
+ * File-backed Checkpointer
+ *
+ * Extends LangGraph's MemorySaver and mirrors its storage to a directory
+ * with one append-only log per thread. Every write appends one line to its
+ * thread's log, so a graph step costs the same however many checkpoints
+ * are stored. On startup the logs are replayed, so thread histories
+ * survive process restarts and serverless cold starts.
+ *
+ * The serialized checkpoints are Uint8Arrays, so they are stored as
+ * base64 strings inside the JSON lines.
+ *
+ * A log that can't be read (e.g. cut off by a crash mid-write) is moved
+ * aside with a ".corrupt" suffix and rewritten from the lines before the
+ * damage, instead of failing every route that loads the checkpointer.
+ */
+
+type PendingWrite = Parameters<MemorySaver["putWrites"]>[1][number];
+type StoredCheckpoint = [string, string, string | undefined];
+type StoredWrite = [string, string, string];
+
+/**
+ * One line of a thread's log
+ */
+type LogEntry =
+  | { type: "checkpoint"; namespace: string; checkpointId: string; value: StoredCheckpoint }
+  | { type: "writes"; key: string; writes: Record<string, StoredWrite> };
+
+const LOG_EXTENSION = ".jsonl";
+
+function encode(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString("base64");
+}
+
+function decode(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, "base64"));
+}
+
+/**
+ * MemorySaver keys its writes by JSON.stringify([threadId, namespace, checkpointId])
+ */
+function getWriteThreadId(key: string): string {
+  return (JSON.parse(key) as [string, string, string])[0];
+}
+
+/**
+ * Remove every checkpoint and pending write of a thread from a MemorySaver
+ */
+export function removeThreadFromMemory(saver: MemorySaver, threadId: string): void {
+  delete saver.storage[threadId];
+
+  for (const key of Object.keys(saver.writes)) {
+    if (getWriteThreadId(key) === threadId) {
+      delete saver.writes[key];
+    }
+  }
+}
+
+export class FileSaver extends MemorySaver {
+  private directory: string;
+  // Appends of each thread, chained so its lines never interleave
+  private pendingAppends = new Map<string, Promise<void>>();
+
+  constructor(directory: string) {
+    super();
+    this.directory = directory;
+    this.load();
+  }
+
+  private getLogPath(threadId: string): string {
+    return path.join(this.directory, `${encodeURIComponent(threadId)}${LOG_EXTENSION}`);
+  }
+
+  /**
+   * Replay the logs of previously persisted threads (if any)
+   */
+  private load(): void {
+    if (!fs.existsSync(this.directory)) {
+      return;
+    }
+
+    for (const file of fs.readdirSync(this.directory)) {
+      if (file.endsWith(LOG_EXTENSION)) {
+        this.loadThread(decodeURIComponent(file.slice(0, -LOG_EXTENSION.length)));
+      }
+    }
+  }
+
+  private loadThread(threadId: string): void {
+    const logPath = this.getLogPath(threadId);
+    const lines = fs.readFileSync(logPath, "utf-8").split("\n");
+
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) continue;
+      try {
+        this.apply(threadId, JSON.parse(line) as LogEntry);
+      } catch (error) {
+        console.error(`Checkpoint log ${logPath} is damaged at line ${index + 1}; keeping the lines before it:`, error);
+        fs.renameSync(logPath, `${logPath}.corrupt`);
+        fs.writeFileSync(logPath, this.serializeThread(threadId), "utf-8");
+        return;
+      }
+    }
+  }
+
+  /**
+   * Add one log entry to the in-memory storage
+   */
+  private apply(threadId: string, entry: LogEntry): void {
+    if (entry.type === "checkpoint") {
+      const [checkpoint, metadata, parentId] = entry.value;
+      this.storage[threadId] ??= {};
+      this.storage[threadId][entry.namespace] ??= {};
+      this.storage[threadId][entry.namespace][entry.checkpointId] = [decode(checkpoint), decode(metadata), parentId];
+    } else if (entry.type === "writes") {
+      if (getWriteThreadId(entry.key) !== threadId) {
+        throw new Error(`Writes for another thread: ${entry.key}`);
+      }
+      this.writes[entry.key] = {};
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(entry.writes)) {
+        this.writes[entry.key][innerKey] = [taskId, channel, decode(value)];
+      }
+    } else {
+      throw new Error(`Unknown log entry type ${String((entry as { type?: unknown }).type)}`);
+    }
+  }
+
+  private checkpointEntry(threadId: string, namespace: string, checkpointId: string): LogEntry {
+    const [checkpoint, metadata, parentId] = this.storage[threadId][namespace][checkpointId];
+    return { type: "checkpoint", namespace, checkpointId, value: [encode(checkpoint), encode(metadata), parentId] };
+  }
+
+  private writesEntry(key: string): LogEntry {
+    const writes: Record<string, StoredWrite> = {};
+    for (const [innerKey, [taskId, channel, value]] of Object.entries(this.writes[key])) {
+      writes[innerKey] = [taskId, channel, encode(value)];
+    }
+    return { type: "writes", key, writes };
+  }
+
+  /**
+   * The whole log of one thread, as rebuilt from memory
+   */
+  private serializeThread(threadId: string): string {
+    const entries: LogEntry[] = [];
+
+    for (const [namespace, checkpoints] of Object.entries(this.storage[threadId] ?? {})) {
+      for (const checkpointId of Object.keys(checkpoints)) {
+        entries.push(this.checkpointEntry(threadId, namespace, checkpointId));
+      }
+    }
+    for (const key of Object.keys(this.writes)) {
+      if (getWriteThreadId(key) === threadId) {
+        entries.push(this.writesEntry(key));
+      }
+    }
+
+    return entries.map((entry) => `${JSON.stringify(entry)}\n`).join("");
+  }
+
+  /**
+   * Run a change to a thread's log after the ones before it
+   *
+   * A failed change rejects for its caller but doesn't stop later ones.
+   */
+  private enqueue(threadId: string, change: () => Promise<void>): Promise<void> {
+    const next = (this.pendingAppends.get(threadId) ?? Promise.resolve()).then(change);
+    const settled = next.catch(() => undefined);
+    this.pendingAppends.set(threadId, settled);
+    void settled.then(() => {
+      if (this.pendingAppends.get(threadId) === settled) {
+        this.pendingAppends.delete(threadId);
+      }
+    });
+    return next;
+  }
+
+  private append(threadId: string, entry: LogEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    return this.enqueue(threadId, async () => {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      await fs.promises.appendFile(this.getLogPath(threadId), line, "utf-8");
+    });
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const result = await super.put(config, checkpoint, metadata);
+    const { thread_id: threadId, checkpoint_ns: namespace, checkpoint_id: checkpointId } = result.configurable!;
+    await this.append(threadId, this.checkpointEntry(threadId, namespace, checkpointId));
+    return result;
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string
+  ): Promise<void> {
+    await super.putWrites(config, writes, taskId);
+    const { thread_id: threadId, checkpoint_ns: namespace, checkpoint_id: checkpointId } = config.configurable!;
+    // The same key MemorySaver used; the entry replaces the checkpoint's earlier writes on load
+    await this.append(threadId, this.writesEntry(JSON.stringify([threadId, namespace, checkpointId])));
+  }
+
+  /**
+   * Delete a thread and its log
+   */
+  async deleteThread(threadId: string): Promise<void> {
+    removeThreadFromMemory(this, threadId);
+    await this.enqueue(threadId, () => fs.promises.rm(this.getLogPath(threadId), { force: true }));
+  }
+}
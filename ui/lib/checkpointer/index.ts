@@ -0,0 +1,70 @@
+import path from "path";
+import { BaseCheckpointSaver, MemorySaver } from "@langchain/langgraph";
+import { FileSaver, removeThreadFromMemory } from "./fileSaver";
+
+export { FileSaver } from "./fileSaver";
+
+/**
+ * Checkpointer Selection
+ *
+ * Picks the LangGraph checkpointer from configuration:
+ *
+ * - CHECKPOINTER=memory (default): in-process MemorySaver, good for dev
+ * - CHECKPOINTER=file: FileSaver persisted to one log per thread in the
+ *   CHECKPOINT_PATH directory (default: .data/checkpoints)
+ *
+ * On Vercel only /tmp is writable, so point CHECKPOINT_PATH there or at a
+ * mounted volume when deploying.
+ */
+export type CheckpointerType = "memory" | "file";
+
+const DEFAULT_CHECKPOINT_PATH = path.join(process.cwd(), ".data", "checkpoints");
+
+/**
+ * Global singleton for the checkpointer
+ * Using globalThis ensures every API route sees the same thread histories
+ */
+const globalForCheckpointer = globalThis as unknown as {
+  checkpointer: BaseCheckpointSaver | undefined;
+};
+
+/**
+ * Create a checkpointer of the given type
+ */
+export function createCheckpointer(
+  type: CheckpointerType = (process.env.CHECKPOINTER as CheckpointerType) || "memory"
+): BaseCheckpointSaver {
+  switch (type) {
+    case "memory":
+      return new MemorySaver();
+    case "file":
+      return new FileSaver(process.env.CHECKPOINT_PATH || DEFAULT_CHECKPOINT_PATH);
+    default:
+      throw new Error(`Unknown checkpointer type: ${type}. Use "memory" or "file".`);
+  }
+}
+
+/**
+ * Get or create the shared checkpointer instance
+ */
+export function getCheckpointer(): BaseCheckpointSaver {
+  if (!globalForCheckpointer.checkpointer) {
+    globalForCheckpointer.checkpointer = createCheckpointer();
+  }
+  return globalForCheckpointer.checkpointer;
+}
+
+/**
+ * Delete all checkpoints of a thread from the shared checkpointer
+ */
+export async function deleteThreadCheckpoints(threadId: string): Promise<void> {
+  const checkpointer = getCheckpointer();
+
+  if (checkpointer instanceof FileSaver) {
+    await checkpointer.deleteThread(threadId);
+  } else if (checkpointer instanceof MemorySaver) {
+    removeThreadFromMemory(checkpointer, threadId);
+  } else {
+    throw new Error("The configured checkpointer does not support deleting threads");
+  }
+}
@@ -0,0 +1,118 @@
+import fs from "fs";
+import path from "path";
+import { EvalCaseResult, EvalDiff, EvalMetrics, EvalReport, MetricDiff } from "./types";
+
+/**
+ * Baseline Runs
+ *
+ * A saved report (EVAL_BASELINE_PATH, default: evals/baseline.json) that
+ * later runs are compared with. Commit it next to the golden set so a
+ * change to chunking or embeddings shows its effect in review.
+ */
+
+const DEFAULT_BASELINE_PATH = path.join(process.cwd(), "evals", "baseline.json");
+
+// Answers are judged by a model, so smaller per-case changes are noise
+const ANSWER_SCORE_TOLERANCE = 0.2;
+
+export function getBaselinePath(): string {
+  return process.env.EVAL_BASELINE_PATH || DEFAULT_BASELINE_PATH;
+}
+
+/**
+ * Load the saved baseline report, if there is one
+ */
+export function loadBaseline(): EvalReport | null {
+  const file = getBaselinePath();
+  return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf-8")) : null;
+}
+
+/**
+ * Save a report as the new baseline
+ */
+export async function saveBaseline(report: EvalReport): Promise<void> {
+  const file = getBaselinePath();
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, JSON.stringify(report, null, 2) + "\n");
+}
+
+/**
+ * Flatten metrics to dotted paths, e.g. "similaritySearch.recallAtK.3"
+ */
+function flattenMetrics(metrics: EvalMetrics): Record<string, number> {
+  const flat: Record<string, number> = {};
+
+  const visit = (value: unknown, prefix: string) => {
+    if (typeof value === "number") {
+      flat[prefix] = value;
+    } else if (value && typeof value === "object") {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, prefix ? `${prefix}.${key}` : key);
+      }
+    }
+  };
+
+  visit(metrics, "");
+  return flat;
+}
+
+/**
+ * How a case's answer scores moved: -1 if one dropped, 1 if one rose and
+ * none dropped, 0 otherwise or when either run has no answer
+ */
+function compareAnswers(before: EvalCaseResult, after: EvalCaseResult): number {
+  if (!before.faithfulness || !after.faithfulness) {
+    return 0;
+  }
+
+  const deltas = [
+    after.faithfulness.score - before.faithfulness.score,
+    (after.faithfulness.answerCoverage ?? 0) - (before.faithfulness.answerCoverage ?? 0),
+  ];
+  if (deltas.some((delta) => delta <= -ANSWER_SCORE_TOLERANCE)) {
+    return -1;
+  }
+  return deltas.some((delta) => delta >= ANSWER_SCORE_TOLERANCE) ? 1 : 0;
+}
+
+/**
+ * Compare a run with the baseline, metric by metric and case by case
+ */
+export function diffReports(baseline: EvalReport, current: EvalReport): EvalDiff {
+  const before = flattenMetrics(baseline.metrics);
+  const after = flattenMetrics(current.metrics);
+  const names = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  const metrics: MetricDiff[] = names.map((metric) => {
+    const b = before[metric] ?? null;
+    const a = after[metric] ?? null;
+    return {
+      metric,
+      baseline: b,
+      current: a,
+      delta: a !== null && b !== null ? Math.round((a - b) * 1000) / 1000 : null,
+    };
+  });
+
+  const found = (report: EvalReport) =>
+    new Set(report.cases.filter((c) => c.similaritySearch.firstRelevantRank !== null).map((c) => c.id));
+  const foundBefore = found(baseline);
+  const foundNow = found(current);
+  const shared = current.cases.map((c) => c.id).filter((id) => baseline.cases.some((c) => c.id === id));
+
+  const answerChanges = new Map(
+    shared.map((id) => [
+      id,
+      compareAnswers(baseline.cases.find((c) => c.id === id)!, current.cases.find((c) => c.id === id)!),
+    ])
+  );
+
+  return {
+    baselineStartedAt: baseline.startedAt,
+    metrics,
+    regressedCases: shared.filter((id) => foundBefore.has(id) && !foundNow.has(id)),
+    improvedCases: shared.filter((id) => !foundBefore.has(id) && foundNow.has(id)),
+    regressedAnswers: shared.filter((id) => answerChanges.get(id) === -1),
+    improvedAnswers: shared.filter((id) => answerChanges.get(id) === 1),
+  };
+}
@@ -0,0 +1,96 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { HumanMessage } from "@langchain/core/messages";
+import { getModelForConfig } from "../models";
+import { wordCoverage } from "./metrics";
+import { EvalCase, FaithfulnessResult } from "./types";
+
+/**
+ * Answer Faithfulness
+ *
+ * Answers each question with the "chat" model from the context that
+ * query_study_materials returned, then has the "grader" model check
+ * every claim of the answer against that context. The score is the
+ * share of claims the context supports, so an answer padded with
+ * outside knowledge scores low even when it is correct.
+ */
+
+function contentToString(content: unknown): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+async function generateAnswer(question: string, context: string, config?: RunnableConfig): Promise<string> {
+  const model = getModelForConfig("chat", config);
+  const response = await model.invoke(
+    [
+      new HumanMessage(`Answer the student's question using only the context from their study materials.
+
+CONTEXT:
+${context}
+
+QUESTION: ${question}
+
+Answer in one to three sentences.`),
+    ],
+    config
+  );
+
+  return contentToString(response.content).trim();
+}
+
+async function judgeAnswer(
+  answer: string,
+  context: string,
+  config?: RunnableConfig
+): Promise<{ score: number; unsupportedClaims: string[] }> {
+  const model = getModelForConfig("grader", config);
+  const response = await model.invoke(
+    [
+      new HumanMessage(`You check answers for faithfulness to their source context.
+
+CONTEXT:
+${context}
+
+ANSWER:
+${answer}
+
+Split the answer into its factual claims and check each one against the context only.
+Return ONLY a JSON object: {"supported": <number of supported claims>, "total": <number of claims>, "unsupported": ["claim", ...]}`),
+    ],
+    config
+  );
+
+  const jsonMatch = contentToString(response.content).match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error("The faithfulness judge did not return JSON");
+  }
+
+  const parsed = JSON.parse(jsonMatch[0]);
+  const total = Number(parsed.total) || 0;
+  const supported = Number(parsed.supported) || 0;
+
+  return {
+    // An answer without claims (e.g. "I don't know") makes nothing up
+    score: total === 0 ? 1 : Math.min(1, Math.max(0, supported / total)),
+    unsupportedClaims: Array.isArray(parsed.unsupported) ? parsed.unsupported.map(String) : [],
+  };
+}
+
+/**
+ * Answer a case from its retrieved context and score the answer
+ */
+export async function evaluateFaithfulness(
+  evalCase: EvalCase,
+  context: string,
+  config?: RunnableConfig
+): Promise<FaithfulnessResult> {
+  const answer = await generateAnswer(evalCase.question, context, config);
+  const judgement = await judgeAnswer(answer, context, config);
+
+  return {
+    answer,
+    ...judgement,
+    answerCoverage: evalCase.expectedAnswer
+      ? Math.round(wordCoverage(evalCase.expectedAnswer, answer) * 1000) / 1000
+      : undefined,
+  };
+}
@@ -0,0 +1,75 @@
+import fs from "fs";
+import path from "path";
+import { EvalCase, GoldenSet } from "./types";
+
+/**
+ * Golden Set Loading
+ *
+ * A golden set is a directory holding the PDFs and a cases.json file:
+ *
+ * ```json
+ * {
+ *   "cases": [
+ *     {
+ *       "id": "bio-glycolysis",
+ *       "pdf": "biology-notes.pdf",
+ *       "question": "How many ATP does glycolysis produce?",
+ *       "expectedPassage": "producing a net gain of two ATP",
+ *       "expectedAnswer": "A net gain of two ATP."
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+
+const DEFAULT_GOLDEN_DIR = path.join(process.cwd(), "evals", "golden");
+
+const CASES_FILE = "cases.json";
+
+export function getGoldenDir(): string {
+  return process.env.EVAL_GOLDEN_DIR || DEFAULT_GOLDEN_DIR;
+}
+
+function validateCase(evalCase: Partial<EvalCase>, index: number, dir: string): string | null {
+  const label = evalCase.id ? `Case "${evalCase.id}"` : `Case #${index + 1}`;
+
+  if (!evalCase.id || !evalCase.pdf || !evalCase.question) {
+    return `${label} needs an id, a pdf and a question`;
+  }
+  if (!evalCase.expectedPassage && !evalCase.expectedAnswer) {
+    return `${label} needs an expectedPassage or an expectedAnswer`;
+  }
+  if (!fs.existsSync(path.join(dir, evalCase.pdf))) {
+    return `${label} refers to a missing PDF: ${evalCase.pdf}`;
+  }
+  return null;
+}
+
+/**
+ * Load and check the golden set in a directory
+ */
+export function loadGoldenSet(dir: string = getGoldenDir()): GoldenSet {
+  const file = path.join(dir, CASES_FILE);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No golden set found at ${file}`);
+  }
+
+  const goldenSet = JSON.parse(fs.readFileSync(file, "utf-8")) as GoldenSet;
+  if (!Array.isArray(goldenSet.cases) || goldenSet.cases.length === 0) {
+    throw new Error(`${file} has no cases`);
+  }
+
+  const ids = new Set<string>();
+  goldenSet.cases.forEach((evalCase, index) => {
+    const error = validateCase(evalCase, index, dir);
+    if (error) {
+      throw new Error(`${file}: ${error}`);
+    }
+    if (ids.has(evalCase.id)) {
+      throw new Error(`${file}: duplicate case id "${evalCase.id}"`);
+    }
+    ids.add(evalCase.id);
+  });
+
+  return goldenSet;
+}
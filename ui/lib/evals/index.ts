@@ -0,0 +1,14 @@
+/**
+ * RAG Evaluation Module
+ *
+ * Scores retrieval (recall@k, MRR) and answer faithfulness of the
+ * study-materials pipeline against a golden set, and compares runs
+ * with a saved baseline.
+ */
+
+export * from "./types";
+export { runEval } from "./runner";
+export { loadGoldenSet, getGoldenDir } from "./golden";
+export { computeMetrics, scoreRetrieval, isRelevantChunk, wordCoverage } from "./metrics";
+export { evaluateFaithfulness } from "./faithfulness";
+export { loadBaseline, saveBaseline, diffReports, getBaselinePath } from "./baseline";
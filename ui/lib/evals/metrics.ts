@@ -0,0 +1,113 @@
+import { EvalCase, EvalCaseResult, EvalMetrics, RetrievalMetrics, RetrievalResult } from "./types";
+
+/**
+ * Retrieval Metrics
+ *
+ * A retrieved chunk counts as relevant when it comes from the case's PDF
+ * and contains the expected passage. Passages can straddle a chunk
+ * boundary, so a chunk holding most of the passage's words
+ * (RELEVANCE_THRESHOLD) counts too. Cases without a passage match
+ * against the expected answer's words instead.
+ */
+
+const RELEVANCE_THRESHOLD = 0.6;
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function words(text: string): string[] {
+  return normalize(text)
+    .replace(/[^\w\s]/g, " ")
+    .split(" ")
+    .filter((word) => word.length > 2);
+}
+
+/**
+ * Share of the words of `expected` that appear in `text`, 0-1
+ */
+export function wordCoverage(expected: string, text: string): number {
+  const expectedWords = new Set(words(expected));
+  if (expectedWords.size === 0) {
+    return 0;
+  }
+  const textWords = new Set(words(text));
+  let found = 0;
+  for (const word of expectedWords) {
+    if (textWords.has(word)) found++;
+  }
+  return found / expectedWords.size;
+}
+
+/**
+ * Whether a retrieved chunk answers a case
+ */
+export function isRelevantChunk(evalCase: EvalCase, content: string, source: string): boolean {
+  if (source !== evalCase.pdf) {
+    return false;
+  }
+
+  const expected = evalCase.expectedPassage ?? evalCase.expectedAnswer!;
+  return (
+    normalize(content).includes(normalize(expected)) ||
+    wordCoverage(expected, content) >= RELEVANCE_THRESHOLD
+  );
+}
+
+/**
+ * Rank the retrieved chunks of one case
+ */
+export function scoreRetrieval(
+  evalCase: EvalCase,
+  chunks: Array<{ content: string; source: string }>
+): RetrievalResult {
+  const index = chunks.findIndex((chunk) => isRelevantChunk(evalCase, chunk.content, chunk.source));
+  return {
+    firstRelevantRank: index === -1 ? null : index + 1,
+    retrieved: chunks.map((chunk) => chunk.source),
+  };
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function retrievalMetrics(results: RetrievalResult[], k: number[]): RetrievalMetrics {
+  const recallAtK: Record<string, number> = {};
+  for (const cutoff of k) {
+    recallAtK[cutoff] = round(
+      mean(results.map((r) => (r.firstRelevantRank !== null && r.firstRelevantRank <= cutoff ? 1 : 0)))
+    );
+  }
+
+  return {
+    recallAtK,
+    mrr: round(mean(results.map((r) => (r.firstRelevantRank ? 1 / r.firstRelevantRank : 0)))),
+  };
+}
+
+/**
+ * Aggregate the case results into recall@k, MRR and answer scores
+ */
+export function computeMetrics(results: EvalCaseResult[], k: number[]): EvalMetrics {
+  const metrics: EvalMetrics = {
+    similaritySearch: retrievalMetrics(results.map((r) => r.similaritySearch), k),
+    queryStudyMaterials: retrievalMetrics(results.map((r) => r.queryStudyMaterials), k),
+  };
+
+  const judged = results.filter((r) => r.faithfulness);
+  if (judged.length > 0) {
+    metrics.faithfulness = round(mean(judged.map((r) => r.faithfulness!.score)));
+
+    const covered = judged.filter((r) => r.faithfulness!.answerCoverage !== undefined);
+    if (covered.length > 0) {
+      metrics.answerCoverage = round(mean(covered.map((r) => r.faithfulness!.answerCoverage!)));
+    }
+  }
+
+  return metrics;
+}
@@ -0,0 +1,148 @@
+import fs from "fs";
+import path from "path";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import type { MemoryVectorStore } from "langchain/vectorstores/memory";
+import { loadPDF, processDocumentForVectorStore } from "../pdf";
+import { addDocuments, createVectorStore, similaritySearchWithScores } from "../vectorStore";
+import { queryStudyMaterials } from "../tools";
+import { getModelOverrides, resolveModelSpec } from "../models";
+import { getGoldenDir, loadGoldenSet } from "./golden";
+import { computeMetrics, scoreRetrieval } from "./metrics";
+import { evaluateFaithfulness } from "./faithfulness";
+import { EvalCase, EvalCaseResult, EvalOptions, EvalReport, RetrievalResult } from "./types";
+
+/**
+ * Evaluation Runner
+ *
+ * Ingests the golden set's PDFs through the same pipeline as /api/upload
+ * (loadPDF → splitter → vector store), then asks every question through
+ * similaritySearchWithScores and the query_study_materials tool.
+ *
+ * Each run indexes into a vector store of its own, so the uploaded
+ * documents neither show up in its results nor change while it runs.
+ */
+
+const DEFAULT_K = [1, 3, 5];
+
+const NO_RESULTS: RetrievalResult = { firstRelevantRank: null, retrieved: [] };
+
+const SOURCE_HEADER = /^\[Source \d+: (.*)\]\n/;
+
+/**
+ * Split the tool's formatted context back into its chunks
+ */
+function parseToolChunks(context: string): Array<{ content: string; source: string }> {
+  return context.split("\n\n---\n\n").map((block) => {
+    const match = block.match(SOURCE_HEADER);
+    return match
+      ? { source: match[1], content: block.slice(match[0].length) }
+      : { source: "", content: block };
+  });
+}
+
+async function ingestPdfs(cases: EvalCase[], dir: string, store: MemoryVectorStore): Promise<void> {
+  const files = Array.from(new Set(cases.map((c) => c.pdf)));
+
+  for (const file of files) {
+    const pdfDoc = await loadPDF(fs.readFileSync(path.join(dir, file)), file);
+    const documents = await processDocumentForVectorStore(pdfDoc.content, pdfDoc.id, pdfDoc.filename);
+    await addDocuments(documents, store);
+  }
+}
+
+async function evaluateCase(
+  evalCase: EvalCase,
+  maxK: number,
+  answers: boolean,
+  store: MemoryVectorStore,
+  config?: RunnableConfig
+): Promise<EvalCaseResult> {
+  const hits = await similaritySearchWithScores(evalCase.question, maxK, store);
+  const similaritySearch = scoreRetrieval(
+    evalCase,
+    hits.map(([doc]) => ({ content: doc.pageContent, source: doc.metadata.filename }))
+  );
+
+  const output = JSON.parse(
+    await queryStudyMaterials.invoke(
+      { question: evalCase.question, numResults: maxK },
+      { configurable: { vector_store: store } }
+    )
+  );
+  const toolChunks = output.success ? parseToolChunks(output.context) : [];
+
+  const result: EvalCaseResult = {
+    id: evalCase.id,
+    question: evalCase.question,
+    similaritySearch,
+    queryStudyMaterials: scoreRetrieval(evalCase, toolChunks),
+  };
+
+  // Keep the retrieval scores when answering or judging fails
+  if (answers && output.success) {
+    try {
+      result.faithfulness = await evaluateFaithfulness(evalCase, output.context, config);
+    } catch (error) {
+      result.error = `Answer evaluation failed: ${(error as Error).message}`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Run the golden set and score retrieval and answers
+ *
+ * @param options - Cut-offs, whether to judge answers, golden set directory
+ * @param config - Optional run config, e.g. configurable.models for the answer and judge models
+ */
+export async function runEval(options: EvalOptions = {}, config?: RunnableConfig): Promise<EvalReport> {
+  const k = Array.from(new Set(options.k ?? DEFAULT_K)).sort((a, b) => a - b);
+  const maxK = k[k.length - 1];
+  const answers = options.answers ?? true;
+  const dir = options.goldenDir ?? getGoldenDir();
+  const goldenSet = loadGoldenSet(dir);
+
+  const startedAt = new Date();
+  const store = createVectorStore();
+
+  const results: EvalCaseResult[] = [];
+
+  await ingestPdfs(goldenSet.cases, dir, store);
+  const chunkCount = store.memoryVectors.length;
+
+  for (const evalCase of goldenSet.cases) {
+    try {
+      results.push(await evaluateCase(evalCase, maxK, answers, store, config));
+    } catch (error) {
+      // A failing case counts as a miss instead of aborting the run
+      results.push({
+        id: evalCase.id,
+        question: evalCase.question,
+        similaritySearch: NO_RESULTS,
+        queryStudyMaterials: NO_RESULTS,
+        error: (error as Error).message,
+      });
+    }
+  }
+
+  const overrides = getModelOverrides(config);
+  const describe = (role: "chat" | "grader") => {
+    const spec = resolveModelSpec(role, overrides);
+    return `${spec.provider}:${spec.model}`;
+  };
+
+  return {
+    startedAt: startedAt.toISOString(),
+    durationMs: Date.now() - startedAt.getTime(),
+    config: {
+      k,
+      answers,
+      caseCount: goldenSet.cases.length,
+      chunkCount,
+      models: answers ? { chat: describe("chat"), grader: describe("grader") } : undefined,
+    },
+    metrics: computeMetrics(results, k),
+    cases: results,
+  };
+}
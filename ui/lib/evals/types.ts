@@ -0,0 +1,118 @@
+/**
+ * Types for the RAG Evaluation Suite
+ *
+ * A golden set of questions about known PDFs is run through the real
+ * ingestion and retrieval pipeline, and the results are scored so
+ * changes to chunking or embeddings can be compared run to run.
+ */
+
+/**
+ * One golden case: a question about a PDF and what should answer it
+ */
+export interface EvalCase {
+  id: string;
+  /** PDF file name, relative to the golden set directory */
+  pdf: string;
+  question: string;
+  /** Text a relevant chunk must contain (whitespace and case are ignored) */
+  expectedPassage?: string;
+  /** Reference answer; used for relevance when there is no passage */
+  expectedAnswer?: string;
+}
+
+export interface GoldenSet {
+  description?: string;
+  cases: EvalCase[];
+}
+
+export interface EvalOptions {
+  /** Cut-offs to report recall at (default: [1, 3, 5]) */
+  k?: number[];
+  /** Generate answers from the tool's context and judge their faithfulness (default: true) */
+  answers?: boolean;
+  /** Golden set directory (default: EVAL_GOLDEN_DIR or evals/golden) */
+  goldenDir?: string;
+}
+
+/**
+ * Where the first relevant chunk ranked, for one retriever
+ */
+export interface RetrievalResult {
+  /** 1-based rank of the first relevant chunk, or null if none was retrieved */
+  firstRelevantRank: number | null;
+  /** Source file of each retrieved chunk, in rank order */
+  retrieved: string[];
+}
+
+export interface FaithfulnessResult {
+  answer: string;
+  /** Share of the answer's claims supported by the retrieved context, 0-1 */
+  score: number;
+  unsupportedClaims: string[];
+  /** Share of the expected answer's words found in the answer, 0-1 */
+  answerCoverage?: number;
+}
+
+export interface EvalCaseResult {
+  id: string;
+  question: string;
+  similaritySearch: RetrievalResult;
+  queryStudyMaterials: RetrievalResult;
+  faithfulness?: FaithfulnessResult;
+  error?: string;
+}
+
+export interface RetrievalMetrics {
+  /** Share of cases with a relevant chunk in the top k, keyed by k */
+  recallAtK: Record<string, number>;
+  /** Mean reciprocal rank of the first relevant chunk */
+  mrr: number;
+}
+
+export interface EvalMetrics {
+  similaritySearch: RetrievalMetrics;
+  queryStudyMaterials: RetrievalMetrics;
+  /** Mean faithfulness of the generated answers */
+  faithfulness?: number;
+  /** Mean coverage of the expected answers */
+  answerCoverage?: number;
+}
+
+export interface EvalReport {
+  startedAt: string;
+  durationMs: number;
+  config: {
+    k: number[];
+    answers: boolean;
+    caseCount: number;
+    chunkCount: number;
+    /** "provider:model" of the models that answered and judged */
+    models?: { chat: string; grader: string };
+  };
+  metrics: EvalMetrics;
+  cases: EvalCaseResult[];
+}
+
+/**
+ * Change of one metric against the baseline
+ */
+export interface MetricDiff {
+  /** Dotted path, e.g. "similaritySearch.recallAtK.3" */
+  metric: string;
+  baseline: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+export interface EvalDiff {
+  baselineStartedAt: string;
+  metrics: MetricDiff[];
+  /** Cases whose relevant chunk was found in the baseline but not any more */
+  regressedCases: string[];
+  /** Cases whose relevant chunk is found now but was not in the baseline */
+  improvedCases: string[];
+  /** Cases whose answer's faithfulness or coverage dropped since the baseline */
+  regressedAnswers: string[];
+  /** Cases whose answer's faithfulness or coverage rose, and neither dropped */
+  improvedAnswers: string[];
+}
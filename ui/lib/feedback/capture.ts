@@ -0,0 +1,69 @@
+import { randomUUID } from "crypto";
+import { exportThread } from "../threads";
+import { recordFeedback } from "./store";
+import { FEEDBACK_RATINGS, FeedbackInput, FeedbackRating, FeedbackRecord } from "./types";
+
+const CORRECTION_MAX_LENGTH = 4000;
+
+/**
+ * Check the body of a feedback request
+ */
+export function validateFeedback(body: unknown): string | null {
+  const { threadId, messageId, rating, correction } = (body ?? {}) as Partial<FeedbackInput>;
+
+  if (typeof threadId !== "string" || !threadId) {
+    return "threadId is required";
+  }
+  if (typeof messageId !== "string" || !messageId) {
+    return "messageId is required";
+  }
+  if (!FEEDBACK_RATINGS.includes(rating as FeedbackRating)) {
+    return `rating must be one of: ${FEEDBACK_RATINGS.join(", ")}`;
+  }
+  if (correction !== undefined && typeof correction !== "string") {
+    return "correction must be a string";
+  }
+  if (correction && correction.length > CORRECTION_MAX_LENGTH) {
+    return `correction must be at most ${CORRECTION_MAX_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * Record a rating of an answer, with the question, tool calls and
+ * sources of the turn it belongs to
+ *
+ * @returns The stored record, or null if the thread has no such answer
+ */
+export async function captureFeedback(input: FeedbackInput): Promise<FeedbackRecord | null> {
+  const thread = await exportThread(input.threadId);
+  const index = thread?.messages.findIndex((m) => m.id === input.messageId) ?? -1;
+  const answer = thread?.messages[index];
+
+  if (!thread || !answer || answer.role !== "ai") {
+    return null;
+  }
+
+  // The turn runs from the human message before the answer up to the answer
+  let start = index;
+  while (start > 0 && thread.messages[start].role !== "human") {
+    start -= 1;
+  }
+  const turn = thread.messages.slice(start, index + 1);
+
+  const record: FeedbackRecord = {
+    id: randomUUID(),
+    timestamp: new Date().toISOString(),
+    threadId: input.threadId,
+    messageId: input.messageId,
+    rating: input.rating,
+    ...(input.correction?.trim() ? { correction: input.correction.trim() } : {}),
+    question: turn[0].role === "human" ? turn[0].content : "",
+    answer: answer.content,
+    toolCalls: turn.flatMap((m) => m.toolCalls ?? []).map(({ name, args }) => ({ name, args })),
+    sources: answer.citations ?? [],
+  };
+
+  recordFeedback(record);
+  return record;
+}
@@ -0,0 +1,11 @@
+/**
+ * Answer Feedback Module
+ *
+ * Stores thumbs-up/down ratings and corrections of assistant answers
+ * with the tools and sources behind them, and aggregates them per tool,
+ * per document and per day.
+ */
+
+export * from "./types";
+export { recordFeedback, getFeedbackRecords, getFeedbackSummary } from "./store";
+export { captureFeedback, validateFeedback } from "./capture";
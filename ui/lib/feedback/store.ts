@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import {
+  FeedbackFilter,
+  FeedbackRecord,
+  FeedbackSummary,
+  FeedbackTotals,
+} from "./types";
+
+/**
+ * Feedback Store
+ *
+ * Keeps feedback in memory. Set FEEDBACK_LOG_PATH to also append it to a
+ * JSON Lines file, which is read back on startup. Ratings are only ever
+ * appended; the latest one for a message is the one that counts.
+ */
+
+const RECENT_NEGATIVE_LIMIT = 20;
+
+interface FeedbackStore {
+  records: FeedbackRecord[];
+  pendingWrite: Promise<void>;
+}
+
+/**
+ * Global singleton for the feedback records
+ * Using globalThis ensures every API route sees the same ratings
+ */
+const globalForFeedback = globalThis as unknown as {
+  feedbackStore: FeedbackStore | undefined;
+};
+
+function loadRecords(filePath: string): FeedbackRecord[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  return fs
+    .readFileSync(filePath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line) as FeedbackRecord);
+}
+
+function getStore(): FeedbackStore {
+  if (!globalForFeedback.feedbackStore) {
+    const logPath = process.env.FEEDBACK_LOG_PATH;
+    globalForFeedback.feedbackStore = {
+      records: logPath ? loadRecords(logPath) : [],
+      pendingWrite: Promise.resolve(),
+    };
+  }
+  return globalForFeedback.feedbackStore;
+}
+
+/**
+ * Add a rating to the feedback records
+ */
+export function recordFeedback(record: FeedbackRecord): void {
+  const store = getStore();
+  store.records.push(record);
+
+  const logPath = process.env.FEEDBACK_LOG_PATH;
+  if (logPath) {
+    // Appends are chained so lines never interleave
+    store.pendingWrite = store.pendingWrite
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(logPath), { recursive: true });
+        await fs.promises.appendFile(logPath, `${JSON.stringify(record)}\n`, "utf-8");
+      })
+      .catch((error) => console.error("Failed to write feedback log:", error));
+  }
+}
+
+/**
+ * The latest rating of each message matching a filter, newest first
+ */
+export function getFeedbackRecords(filter: FeedbackFilter = {}): FeedbackRecord[] {
+  const latest = new Map<string, FeedbackRecord>();
+  for (const record of getStore().records) {
+    latest.set(`${record.threadId}:${record.messageId}`, record);
+  }
+
+  return Array.from(latest.values())
+    .filter((record) => {
+      const date = record.timestamp.slice(0, 10);
+      return (
+        (!filter.threadId || record.threadId === filter.threadId) &&
+        (!filter.tool || record.toolCalls.some((call) => call.name === filter.tool)) &&
+        (!filter.from || date >= filter.from) &&
+        (!filter.to || date <= filter.to)
+      );
+    })
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+}
+
+function emptyTotals(): FeedbackTotals {
+  return { count: 0, up: 0, down: 0, corrections: 0, approvalRate: null };
+}
+
+function addToTotals(totals: FeedbackTotals, record: FeedbackRecord): void {
+  totals.count += 1;
+  totals[record.rating] += 1;
+  if (record.correction) {
+    totals.corrections += 1;
+  }
+  totals.approvalRate = totals.up / totals.count;
+}
+
+/**
+ * Sum records into one group per key; a record can count towards several keys
+ */
+function groupBy<K extends string>(
+  records: FeedbackRecord[],
+  keyName: K,
+  getKeys: (record: FeedbackRecord) => string[]
+): Array<FeedbackTotals & Record<K, string>> {
+  const groups = new Map<string, FeedbackTotals>();
+  for (const record of records) {
+    for (const key of new Set(getKeys(record))) {
+      const totals = groups.get(key) ?? emptyTotals();
+      addToTotals(totals, record);
+      groups.set(key, totals);
+    }
+  }
+
+  return Array.from(groups.entries()).map(
+    ([key, totals]) => ({ [keyName]: key, ...totals }) as FeedbackTotals & Record<K, string>
+  );
+}
+
+// Most thumbs down first, so failing tools and weak documents come up top
+const byDownDescending = (a: FeedbackTotals, b: FeedbackTotals) =>
+  b.down - a.down || (a.approvalRate ?? 1) - (b.approvalRate ?? 1);
+
+/**
+ * Aggregate feedback: overall totals, per tool, per source document and per day
+ */
+export function getFeedbackSummary(filter: FeedbackFilter = {}): FeedbackSummary {
+  const records = getFeedbackRecords(filter);
+
+  const totals = emptyTotals();
+  records.forEach((record) => addToTotals(totals, record));
+
+  return {
+    totals,
+    byTool: groupBy(records, "tool", (r) =>
+      r.toolCalls.length > 0 ? r.toolCalls.map((call) => call.name) : ["none"]
+    ).sort(byDownDescending),
+    byDocument: groupBy(records, "filename", (r) => r.sources.map((s) => s.filename)).sort(
+      byDownDescending
+    ),
+    byDay: groupBy(records, "date", (r) => [r.timestamp.slice(0, 10)]).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    ),
+    recentNegative: records.filter((r) => r.rating === "down").slice(0, RECENT_NEGATIVE_LIMIT),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Types for Answer Feedback
+ *
+ * Users rate assistant answers with a thumbs up or down and can add a
+ * correction. Each rating keeps the turn's question, tool calls and
+ * retrieved sources, so bad answers can be traced to a tool or a PDF.
+ */
+
+import type { Citation } from "../threads";
+
+export const FEEDBACK_RATINGS = ["up", "down"] as const;
+
+export type FeedbackRating = (typeof FEEDBACK_RATINGS)[number];
+
+export interface FeedbackToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * A rating as sent by the chat page
+ */
+export interface FeedbackInput {
+  threadId: string;
+  messageId: string;
+  rating: FeedbackRating;
+  correction?: string;
+}
+
+/**
+ * One rating of an answer; a later rating of the same message replaces it
+ */
+export interface FeedbackRecord {
+  id: string;
+  timestamp: string;
+  threadId: string;
+  /** Id of the rated AI message in the thread */
+  messageId: string;
+  rating: FeedbackRating;
+  /** What the answer should have said, in the user's words */
+  correction?: string;
+  /** The human message the answer replied to */
+  question: string;
+  answer: string;
+  toolCalls: FeedbackToolCall[];
+  /** Study materials query_study_materials found for the answer */
+  sources: Citation[];
+}
+
+export interface FeedbackFilter {
+  threadId?: string;
+  /** Only ratings of answers that used this tool */
+  tool?: string;
+  /** Inclusive start date, YYYY-MM-DD */
+  from?: string;
+  /** Inclusive end date, YYYY-MM-DD */
+  to?: string;
+}
+
+export interface FeedbackTotals {
+  count: number;
+  up: number;
+  down: number;
+  corrections: number;
+  /** Share of thumbs up, 0-1; null without ratings */
+  approvalRate: number | null;
+}
+
+export interface FeedbackSummary {
+  totals: FeedbackTotals;
+  /** Answers without tool calls are grouped under "none" */
+  byTool: Array<FeedbackTotals & { tool: string }>;
+  byDocument: Array<FeedbackTotals & { filename: string }>;
+  byDay: Array<FeedbackTotals & { date: string }>;
+  /** The most recent thumbs-down ratings, newest first */
+  recentNegative: FeedbackRecord[];
+}
@@ -0,0 +1,35 @@
+/**
+ * Guardrails Module
+ *
+ * Masks personal data before it reaches a model or the vector store,
+ * flags prompt injections in retrieved content, and checks agent answers
+ * against block/allow policies. Model calls are masked in lib/models
+ * (RedactingChatModel); the output check runs as a node of the chat graph
+ * assembled in lib/agent.ts.
+ */
+
+export * from "./types";
+export {
+  findPii,
+  redactPii,
+  restorePii,
+  redactPiiInValue,
+  restorePiiInValue,
+  getPiiTypes,
+  createPiiVault,
+  getThreadVault,
+  copyThreadVault,
+  getDocumentVault,
+  numberPlaceholders,
+  replacePlaceholders,
+} from "./pii";
+export {
+  checkOutput,
+  getOutputPolicies,
+  hasBlockingPolicy,
+  validatePolicy,
+  BLOCKED_MESSAGE,
+} from "./policies";
+export { StreamingOutputGuard } from "./streaming";
+export { scanForInjection, guardUntrustedContent, getInjectionAction } from "./injection";
+export { guardOutput } from "./nodes";
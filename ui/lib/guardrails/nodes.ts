@@ -0,0 +1,43 @@
+import { AIMessage, isAIMessage } from "@langchain/core/messages";
+import type { SupervisorAnnotation, SupervisorState } from "../supervisor";
+import { BLOCKED_MESSAGE, checkOutput } from "./policies";
+
+/**
+ * Graph node: check the turn's answer against the output policies
+ *
+ * Runs last on every route, including cached answers. A blocked answer
+ * is replaced in the thread (same message id), so the history never
+ * shows it either. The turn's violations are kept in the state for the
+ * API response.
+ */
+export async function guardOutput(
+  state: SupervisorState
+): Promise<Partial<typeof SupervisorAnnotation.Update>> {
+  const answer = state.messages.at(-1);
+  if (!answer || !isAIMessage(answer) || typeof answer.content !== "string") {
+    return { violations: [] };
+  }
+
+  const { blocked, violations } = checkOutput(answer.content);
+  if (violations.length > 0) {
+    console.warn(
+      `[Guardrails] ${violations.length} policy violation(s) in answer: ${violations
+        .map((v) => `${v.policy}/${v.type} (${v.action})`)
+        .join(", ")}`
+    );
+  }
+  if (!blocked) {
+    return { violations };
+  }
+
+  return {
+    violations,
+    messages: [
+      new AIMessage({
+        id: answer.id,
+        content: BLOCKED_MESSAGE,
+        response_metadata: { ...answer.response_metadata, blocked: true },
+      }),
+    ],
+  };
+}
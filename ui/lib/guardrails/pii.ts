@@ -0,0 +1,267 @@
+import { randomBytes } from "crypto";
+import { PiiMatch, PiiType, PiiVault } from "./types";
+
+/**
+ * PII Redaction
+ *
+ * Finds emails, phone numbers and names in text and swaps them for
+ * random placeholders like [EMAIL_3f9a1c07b2d4] before the text reaches
+ * a model or the vector store. The placeholders are kept in an in-memory
+ * vault so restorePii can put the original values back for display.
+ *
+ * Vaults are scoped: one per thread, one per model call outside a thread
+ * and one for the uploaded documents. Within a vault each distinct value
+ * always gets the same placeholder. restorePii only fills in placeholders
+ * of the vault it is given and of the documents (which every thread can
+ * search anyway), so a placeholder typed or echoed in another thread
+ * stays masked. Only the most recently used MAX_THREAD_VAULTS thread
+ * vaults, and the newest MAX_VAULT_VALUES values of each vault, are kept.
+ *
+ * Names can't be found reliably without a NER model, so only labelled
+ * ones are caught: "my name is ...", "Name: ...", "Student: ...", and
+ * names after a title like "Dr." or "Ms.".
+ *
+ * Environment:
+ * - PII_REDACTION=off disables masking
+ * - PII_TYPES: comma-separated types to mask (default: email,phone,name)
+ */
+
+const PII_TYPES: PiiType[] = ["email", "phone", "name"];
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+// Needs separators or a country code, so plain numbers in math aren't caught
+const PHONE_PATTERN =
+  /(?<![\w.])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)[\s.-]?|\d{2,4}[\s.-])\d{3,4}[\s.-]\d{3,4}(?!\w|[.-]\d)/g;
+
+// The name is the first capture group; the label around it is kept
+const NAME_PATTERNS = [
+  /(?:[Mm]y name is|[Nn]ame\s*:|[Ss]tudent(?: [Nn]ame)?\s*:|[Ii]nstructor\s*:|[Tt]eacher\s*:)\s*([A-Z][a-z'-]+(?: [A-Z][a-z'-]+){0,2})/g,
+  /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof)\.? ([A-Z][a-z'-]+(?: [A-Z][a-z'-]+)?)/g,
+];
+
+// Random placeholders, and the numbered ones of recorded fixtures
+const PLACEHOLDER_PATTERN = /\[(EMAIL|PHONE|NAME)_([0-9a-f]+)\]/g;
+
+const MAX_THREAD_VAULTS = 1000;
+const MAX_VAULT_VALUES = 5000;
+
+/**
+ * Global singleton for the placeholder vaults
+ * Using globalThis ensures every API route restores the same placeholders
+ */
+const globalForPii = globalThis as unknown as {
+  piiThreadVaults: Map<string, PiiVault> | undefined;
+  piiDocumentVault: PiiVault | undefined;
+};
+
+/**
+ * An empty vault, e.g. for a single model call
+ */
+export function createPiiVault(): PiiVault {
+  return { placeholders: new Map(), values: new Map() };
+}
+
+/**
+ * The vault of a thread, created if needed
+ */
+export function getThreadVault(threadId: string): PiiVault {
+  if (!globalForPii.piiThreadVaults) {
+    globalForPii.piiThreadVaults = new Map();
+  }
+  const vaults = globalForPii.piiThreadVaults;
+
+  // Re-inserted on every use, so the least recently used vault comes first
+  const vault = vaults.get(threadId) ?? createPiiVault();
+  vaults.delete(threadId);
+  vaults.set(threadId, vault);
+
+  if (vaults.size > MAX_THREAD_VAULTS) {
+    vaults.delete(vaults.keys().next().value!);
+  }
+  return vault;
+}
+
+/**
+ * Give a new thread the placeholders of the thread it was forked from,
+ * so the copied messages can still be restored there
+ */
+export function copyThreadVault(fromThreadId: string, toThreadId: string): void {
+  const source = getThreadVault(fromThreadId);
+  const target = getThreadVault(toThreadId);
+  for (const [key, placeholder] of source.placeholders) {
+    target.placeholders.set(key, placeholder);
+  }
+  for (const [placeholder, value] of source.values) {
+    target.values.set(placeholder, value);
+  }
+}
+
+/**
+ * The vault of the uploaded documents' chunks
+ */
+export function getDocumentVault(): PiiVault {
+  if (!globalForPii.piiDocumentVault) {
+    globalForPii.piiDocumentVault = createPiiVault();
+  }
+  return globalForPii.piiDocumentVault;
+}
+
+/**
+ * The PII types to mask, or none when PII_REDACTION=off
+ */
+export function getPiiTypes(): PiiType[] {
+  if (process.env.PII_REDACTION === "off") {
+    return [];
+  }
+  const configured = process.env.PII_TYPES;
+  if (configured === undefined) {
+    return PII_TYPES;
+  }
+  return configured
+    .split(",")
+    .map((type) => type.trim())
+    .filter((type): type is PiiType => PII_TYPES.includes(type as PiiType));
+}
+
+/**
+ * Find personal data in a text, without overlaps, in order
+ */
+export function findPii(text: string, types: PiiType[] = getPiiTypes()): PiiMatch[] {
+  const matches: PiiMatch[] = [];
+
+  if (types.includes("email")) {
+    for (const match of text.matchAll(EMAIL_PATTERN)) {
+      matches.push({ type: "email", value: match[0], start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  if (types.includes("phone")) {
+    for (const match of text.matchAll(PHONE_PATTERN)) {
+      matches.push({ type: "phone", value: match[0], start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  if (types.includes("name")) {
+    for (const pattern of NAME_PATTERNS) {
+      for (const match of text.matchAll(pattern)) {
+        const start = match.index! + match[0].length - match[1].length;
+        matches.push({ type: "name", value: match[1], start, end: start + match[1].length });
+      }
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start || b.end - a.end);
+  return matches.filter((match, i) => i === 0 || match.start >= matches[i - 1].end);
+}
+
+function normalize(match: PiiMatch): string {
+  if (match.type === "email") return match.value.toLowerCase();
+  if (match.type === "phone") return match.value.replace(/\D/g, "");
+  return match.value;
+}
+
+function getPlaceholder(match: PiiMatch, vault: PiiVault): string {
+  const key = `${match.type}:${normalize(match)}`;
+
+  let placeholder = vault.placeholders.get(key);
+  if (!placeholder) {
+    placeholder = `[${match.type.toUpperCase()}_${randomBytes(6).toString("hex")}]`;
+    vault.placeholders.set(key, placeholder);
+    vault.values.set(placeholder, match.value);
+  }
+
+  // Both maps are filled together, so their first entries are the oldest value
+  if (vault.values.size > MAX_VAULT_VALUES) {
+    vault.placeholders.delete(vault.placeholders.keys().next().value!);
+    vault.values.delete(vault.values.keys().next().value!);
+  }
+  return placeholder;
+}
+
+/**
+ * Replace personal data with placeholders from a vault
+ */
+export function redactPii(text: string, vault: PiiVault): string {
+  const matches = findPii(text);
+  if (matches.length === 0) {
+    return text;
+  }
+
+  let result = "";
+  let offset = 0;
+  for (const match of matches) {
+    result += text.slice(offset, match.start) + getPlaceholder(match, vault);
+    offset = match.end;
+  }
+  return result + text.slice(offset);
+}
+
+/**
+ * Put the original values back in place of the placeholders of a vault
+ * and of the uploaded documents
+ */
+export function restorePii(text: string, vault?: PiiVault): string {
+  const documents = getDocumentVault();
+  return text.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder) => vault?.values.get(placeholder) ?? documents.values.get(placeholder) ?? placeholder
+  );
+}
+
+/**
+ * Apply a change to every string inside a JSON-like value
+ */
+function mapStrings<T>(value: T, change: (text: string) => string): T {
+  if (typeof value === "string") {
+    return change(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => mapStrings(item, change)) as T;
+  }
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, mapStrings(item, change)])) as T;
+  }
+  return value;
+}
+
+/**
+ * redactPii for every string inside a JSON-like value, e.g. tool arguments
+ * the user edited
+ */
+export function redactPiiInValue<T>(value: T, vault: PiiVault): T {
+  return mapStrings(value, (text) => redactPii(text, vault));
+}
+
+/**
+ * restorePii for every string inside a JSON-like value, e.g. tool
+ * arguments or a step trace
+ */
+export function restorePiiInValue<T>(value: T, vault?: PiiVault): T {
+  return mapStrings(value, (text) => restorePii(text, vault));
+}
+
+/**
+ * Number the placeholders in a text by where they first appear
+ *
+ * The same text gets the same numbers however many values the vault held
+ * when it was redacted, e.g. for keying recorded model calls.
+ *
+ * @returns Each placeholder mapped to its numbered form
+ */
+export function numberPlaceholders(text: string): Map<string, string> {
+  const numbers = new Map<string, string>();
+  const counts: Record<string, number> = {};
+  for (const [placeholder, type] of text.matchAll(PLACEHOLDER_PATTERN)) {
+    if (!numbers.has(placeholder)) {
+      counts[type] = (counts[type] ?? 0) + 1;
+      numbers.set(placeholder, `[${type}_${counts[type]}]`);
+    }
+  }
+  return numbers;
+}
+
+/**
+ * Swap placeholders for others, e.g. with a map from numberPlaceholders
+ */
+export function replacePlaceholders(text: string, replacements: Map<string, string>): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder) => replacements.get(placeholder) ?? placeholder);
+}
@@ -0,0 +1,149 @@
+import { findPii } from "./pii";
+import {
+  GuardrailPolicy,
+  GuardrailViolation,
+  OutputCheckResult,
+  PiiType,
+} from "./types";
+
+/**
+ * Output Policies
+ *
+ * Every agent answer is checked against a list of policies. A match of a
+ * "block" policy replaces the answer with BLOCKED_MESSAGE; a match of an
+ * "allow" policy lets it through. Both are reported as violations.
+ *
+ * Add or override policies (by id) with GUARDRAIL_POLICIES, a JSON array
+ * in the GuardrailPolicy shape, e.g.
+ * GUARDRAIL_POLICIES='[{"id": "pii", "type": "pii", "action": "block"}]'.
+ */
+
+const DEFAULT_POLICIES: GuardrailPolicy[] = [
+  {
+    id: "pii",
+    description: "Personal data in answers",
+    type: "pii",
+    action: "allow",
+  },
+  {
+    id: "api-keys",
+    description: "Provider API keys",
+    type: "pattern",
+    pattern: "\\b(?:sk|gsk|tvly|hf)[-_][A-Za-z0-9_-]{16,}",
+    action: "block",
+  },
+];
+
+export const BLOCKED_MESSAGE =
+  "I can't share that answer because it goes against this assistant's content policy.";
+
+let policies: GuardrailPolicy[] | undefined;
+
+/**
+ * Check a configured policy
+ *
+ * @returns An error message, or null if the policy is valid
+ */
+export function validatePolicy(policy: unknown): string | null {
+  if (!policy || typeof policy !== "object") {
+    return "a policy must be an object";
+  }
+  const { id, type, action, pattern, flags } = policy as Partial<GuardrailPolicy>;
+  if (!id || typeof id !== "string") {
+    return "a policy needs an id";
+  }
+  if (type !== "pii" && type !== "pattern") {
+    return `policy "${id}" needs a type of "pii" or "pattern"`;
+  }
+  if (action !== "block" && action !== "allow") {
+    return `policy "${id}" needs an action of "block" or "allow"`;
+  }
+  if (type === "pattern") {
+    if (!pattern || typeof pattern !== "string") {
+      return `policy "${id}" needs a pattern`;
+    }
+    try {
+      new RegExp(pattern, flags);
+    } catch (error) {
+      return `policy "${id}" has an invalid pattern: ${(error as Error).message}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * The default policies merged with GUARDRAIL_POLICIES
+ */
+export function getOutputPolicies(): GuardrailPolicy[] {
+  if (!policies) {
+    const merged = new Map(DEFAULT_POLICIES.map((policy) => [policy.id, policy]));
+
+    if (process.env.GUARDRAIL_POLICIES) {
+      try {
+        const configured: unknown[] = JSON.parse(process.env.GUARDRAIL_POLICIES);
+        for (const policy of configured) {
+          const error = validatePolicy(policy);
+          if (error) {
+            console.error(`Ignoring invalid guardrail policy: ${error}`);
+            continue;
+          }
+          merged.set((policy as GuardrailPolicy).id, policy as GuardrailPolicy);
+        }
+      } catch (error) {
+        console.error("Ignoring invalid GUARDRAIL_POLICIES:", error);
+      }
+    }
+
+    policies = Array.from(merged.values());
+  }
+
+  return policies;
+}
+
+/**
+ * Whether a policy can replace answers, so they mustn't reach the client
+ * before they are checked
+ */
+export function hasBlockingPolicy(): boolean {
+  return getOutputPolicies().some((policy) => policy.action === "block");
+}
+
+/**
+ * Hide most of a match, so reports don't repeat what was caught
+ */
+function maskMatch(value: string): string {
+  return value.length <= 4 ? "****" : `${value.slice(0, 2)}${"*".repeat(Math.min(value.length - 2, 8))}`;
+}
+
+function findViolations(text: string, policy: GuardrailPolicy): GuardrailViolation[] {
+  if (policy.type === "pii") {
+    const types: PiiType[] = policy.piiTypes ?? ["email", "phone", "name"];
+    return findPii(text, types).map((match) => ({
+      policy: policy.id,
+      action: policy.action,
+      type: match.type,
+      match: maskMatch(match.value),
+    }));
+  }
+
+  const flags = policy.flags ?? "gi";
+  const pattern = new RegExp(policy.pattern!, flags.includes("g") ? flags : `${flags}g`);
+  return Array.from(text.matchAll(pattern), (match) => ({
+    policy: policy.id,
+    action: policy.action,
+    type: "pattern" as const,
+    match: maskMatch(match[0]),
+  }));
+}
+
+/**
+ * Check an answer against the output policies
+ */
+export function checkOutput(text: string): OutputCheckResult {
+  const violations = getOutputPolicies().flatMap((policy) => findViolations(text, policy));
+
+  return {
+    blocked: violations.some((violation) => violation.action === "block"),
+    violations,
+  };
+}
@@ -0,0 +1,78 @@
+import { restorePii } from "./pii";
+import { checkOutput, hasBlockingPolicy } from "./policies";
+import type { PiiVault } from "./types";
+
+/**
+ * Streaming Output Guard
+ *
+ * Lets an answer stream while guard_output hasn't checked it yet. The
+ * tokens of a model call are collected and checked against the output
+ * policies as they grow, and text is released up to the start of the
+ * last few words: a "block" match could still be completed there, like
+ * an API key cut off mid-token or a phone number missing its last digits.
+ * Once the collected text matches a "block" policy nothing more is
+ * released, and guard_output replaces the answer. When the call ends,
+ * the held-back rest is released if the whole text is clean.
+ *
+ * Without block policies only the last word is held back, so a PII
+ * placeholder split across tokens is never released half-way. Released
+ * text has its placeholders restored, like the final answer.
+ *
+ * A pattern policy that matches more than HOLD_BACK_WORDS words is only
+ * caught once the match is complete, so its start may already have
+ * streamed; the answer is still replaced.
+ */
+
+const HOLD_BACK_WORDS = 4;
+
+export class StreamingOutputGuard {
+  private text = "";
+  private released = 0;
+  private blocked = false;
+  private readonly holdBackWords = hasBlockingPolicy() ? HOLD_BACK_WORDS : 1;
+
+  constructor(private vault?: PiiVault) {}
+
+  /**
+   * Release the end of the text from `released` up to `end`
+   */
+  private release(end: number): string {
+    const text = this.text.slice(this.released, end);
+    this.released = end;
+    return restorePii(text, this.vault);
+  }
+
+  private check(): boolean {
+    this.blocked ||= checkOutput(restorePii(this.text, this.vault)).blocked;
+    return !this.blocked;
+  }
+
+  /**
+   * Add a token
+   *
+   * @returns The text that is safe to show now, possibly empty
+   */
+  push(token: string): string {
+    this.text += token;
+    if (!this.check()) {
+      return "";
+    }
+
+    // Words start after whitespace, so placeholders and matches without
+    // spaces are never split by a release
+    const wordStarts = Array.from(this.text.slice(this.released).matchAll(/\S+/g), (match) => match.index!);
+    if (wordStarts.length <= this.holdBackWords) {
+      return "";
+    }
+    return this.release(this.released + wordStarts[wordStarts.length - this.holdBackWords]);
+  }
+
+  /**
+   * The model call finished
+   *
+   * @returns The held-back rest, or nothing if the text was blocked
+   */
+  end(): string {
+    return this.check() ? this.release(this.text.length) : "";
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Types for Guardrails
+ */
+
+/**
+ * Kinds of personal data that are detected and masked
+ */
+export type PiiType = "email" | "phone" | "name";
+
+export interface PiiMatch {
+  type: PiiType;
+  value: string;
+  /** Offset of the value in the text */
+  start: number;
+  end: number;
+}
+
+/**
+ * Placeholders of one scope (a thread, a single model call or the
+ * uploaded documents) and the values they stand for
+ */
+export interface PiiVault {
+  /** "type:value" → placeholder */
+  placeholders: Map<string, string>;
+  /** placeholder → original value, oldest first */
+  values: Map<string, string>;
+}
+
+/**
+ * What happens to an answer that breaks a policy
+ *
+ * - block: the answer is replaced with a refusal
+ * - allow: the answer is kept; the violation is only reported
+ */
+export type GuardrailAction = "block" | "allow";
+
+/**
+ * A rule checked against every agent answer
+ *
+ * "pii" rules match the detected personal data (optionally only some
+ * types of it); "pattern" rules match a regular expression.
+ */
+export interface GuardrailPolicy {
+  id: string;
+  description?: string;
+  type: "pii" | "pattern";
+  action: GuardrailAction;
+  /** For pii rules; every type when unset */
+  piiTypes?: PiiType[];
+  /** For pattern rules */
+  pattern?: string;
+  /** Regex flags for the pattern (default: "gi") */
+  flags?: string;
+}
+
+/**
+ * One policy match in an answer, as reported in API responses
+ */
+export interface GuardrailViolation {
+  policy: string;
+  action: GuardrailAction;
+  /** PII type, or "pattern" */
+  type: PiiType | "pattern";
+  /** The matched text, masked so reports don't repeat what was caught */
+  match: string;
+}
+
+export interface OutputCheckResult {
+  blocked: boolean;
+  violations: GuardrailViolation[];
+}
+
+/**
+ * What happens to retrieved content that looks like a prompt injection
+ *
+ * - wrap: it is kept, inside a delimited untrusted-content block
+ * - quarantine: it is left out of the prompt
+ */
+export type InjectionAction = "wrap" | "quarantine";
+
+/**
+ * One injection-like passage found in retrieved content
+ */
+export interface InjectionFinding {
+  /** Id of the pattern that matched, e.g. "ignore-instructions" */
+  pattern: string;
+  /** The matched text, shortened */
+  match: string;
+}
+
+export interface GuardedContent {
+  /** The text to put in the prompt */
+  content: string;
+  findings: InjectionFinding[];
+}
@@ -0,0 +1,160 @@
+import { McpError } from "./errors";
+import { MCP_PROTOCOL_VERSION } from "./transports";
+import {
+  JsonRpcMessage,
+  McpToolDefinition,
+  McpToolResult,
+  McpTransport,
+} from "./types";
+
+/**
+ * MCP Client
+ *
+ * Speaks the client side of the protocol with one server: the
+ * initialize handshake, listing and calling tools, and answering the
+ * server's pings. The server announces changes to its tool list with a
+ * notifications/tools/list_changed notification, handed to onToolsChanged.
+ */
+
+const CLIENT_INFO = { name: "langchain-agent-ui", version: "1.0.0" };
+const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+function getRequestTimeout(): number {
+  const value = Number(process.env.MCP_REQUEST_TIMEOUT_MS);
+  return process.env.MCP_REQUEST_TIMEOUT_MS && value > 0 ? value : DEFAULT_REQUEST_TIMEOUT_MS;
+}
+
+export class McpClient {
+  connected = false;
+  /** Called when the server says its tool list changed */
+  onToolsChanged?: () => void;
+  /** Called when the connection is lost */
+  onClose?: (error?: Error) => void;
+
+  private nextId = 1;
+  private pending = new Map<number, PendingRequest>();
+
+  constructor(
+    readonly server: string,
+    private transport: McpTransport
+  ) {}
+
+  async connect(): Promise<void> {
+    await this.transport.start(
+      (message) => this.handleMessage(message),
+      (error) => this.handleClose(error)
+    );
+
+    await this.request("initialize", {
+      protocolVersion: MCP_PROTOCOL_VERSION,
+      capabilities: {},
+      clientInfo: CLIENT_INFO,
+    });
+    await this.transport.send({ jsonrpc: "2.0", method: "notifications/initialized" });
+    this.connected = true;
+  }
+
+  /**
+   * All of the server's tools, following pagination
+   */
+  async listTools(): Promise<McpToolDefinition[]> {
+    const tools: McpToolDefinition[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const result = (await this.request("tools/list", cursor ? { cursor } : {})) as {
+        tools: McpToolDefinition[];
+        nextCursor?: string;
+      };
+      tools.push(...result.tools);
+      cursor = result.nextCursor;
+    } while (cursor);
+
+    return tools;
+  }
+
+  async callTool(name: string, args: Record<string, unknown>): Promise<McpToolResult> {
+    return (await this.request("tools/call", { name, arguments: args })) as McpToolResult;
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+    await this.transport.close();
+    this.rejectPending(new McpError(`MCP server "${this.server}" connection closed`, { server: this.server }));
+  }
+
+  private request(method: string, params: Record<string, unknown>): Promise<unknown> {
+    const id = this.nextId++;
+    const timeoutMs = getRequestTimeout();
+
+    const result = new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new McpError(`MCP server "${this.server}" did not answer ${method} within ${timeoutMs}ms`, { server: this.server }));
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+    });
+
+    this.transport.send({ jsonrpc: "2.0", id, method, params }).catch((error) => {
+      const request = this.pending.get(id);
+      if (request) {
+        clearTimeout(request.timer);
+        this.pending.delete(id);
+        request.reject(error);
+      }
+    });
+
+    return result;
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    // A response to one of our requests
+    if (message.id !== undefined && !message.method) {
+      const request = this.pending.get(message.id as number);
+      if (!request) return;
+
+      clearTimeout(request.timer);
+      this.pending.delete(message.id as number);
+      if (message.error) {
+        request.reject(McpError.fromJsonRpc(this.server, message.error));
+      } else {
+        request.resolve(message.result);
+      }
+      return;
+    }
+
+    if (message.method === "notifications/tools/list_changed") {
+      this.onToolsChanged?.();
+      return;
+    }
+
+    // Requests from the server: only pings are supported
+    if (message.id !== undefined && message.method) {
+      const reply: JsonRpcMessage =
+        message.method === "ping"
+          ? { jsonrpc: "2.0", id: message.id, result: {} }
+          : { jsonrpc: "2.0", id: message.id, error: { code: -32601, message: `Method not found: ${message.method}` } };
+      this.transport.send(reply).catch(() => undefined);
+    }
+  }
+
+  private handleClose(error?: Error): void {
+    this.connected = false;
+    this.rejectPending(error ?? new McpError(`MCP server "${this.server}" connection closed`, { server: this.server }));
+    this.onClose?.(error);
+  }
+
+  private rejectPending(error: Error): void {
+    for (const request of this.pending.values()) {
+      clearTimeout(request.timer);
+      request.reject(error);
+    }
+    this.pending.clear();
+  }
+}
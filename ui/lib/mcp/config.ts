@@ -0,0 +1,99 @@
+import fs from "fs";
+import path from "path";
+import { McpConfig, McpHttpServerConfig, McpServerConfig } from "./types";
+
+/**
+ * MCP Config
+ *
+ * Servers are listed in a JSON file at MCP_CONFIG_PATH (default:
+ * mcp.json in the working directory), in the usual mcpServers shape:
+ *
+ *   {
+ *     "mcpServers": {
+ *       "files": { "command": "npx", "args": ["-y", "@modelcontextprotocol/server-filesystem", "./notes"] },
+ *       "docs": { "url": "https://example.com/mcp", "headers": { "Authorization": "Bearer ..." } }
+ *     }
+ *   }
+ *
+ * A server can also set "requireApproval": true, or a list of its tool
+ * names, to pause before those tools run.
+ *
+ * Without the file no servers are used. Invalid entries are skipped
+ * with an error in the log.
+ */
+
+const DEFAULT_CONFIG_FILE = "mcp.json";
+
+export function isHttpServer(config: McpServerConfig): config is McpHttpServerConfig {
+  return "url" in config;
+}
+
+/**
+ * Check one server entry of the config
+ */
+export function validateServerConfig(name: string, config: unknown): string | null {
+  if (!/^[a-zA-Z0-9_-]+$/.test(name)) {
+    return `MCP server name "${name}" may only contain letters, digits, "_" and "-"`;
+  }
+  if (!config || typeof config !== "object") {
+    return `MCP server "${name}" must be an object`;
+  }
+
+  const { command, url, args, requireApproval } = config as Record<string, unknown>;
+  if (
+    requireApproval !== undefined &&
+    typeof requireApproval !== "boolean" &&
+    (!Array.isArray(requireApproval) || requireApproval.some((name) => typeof name !== "string"))
+  ) {
+    return `MCP server "${name}" requireApproval must be a boolean or an array of tool names`;
+  }
+  if (typeof url === "string") {
+    try {
+      new URL(url);
+    } catch {
+      return `MCP server "${name}" has an invalid url "${url}"`;
+    }
+    return null;
+  }
+  if (typeof command !== "string" || !command) {
+    return `MCP server "${name}" needs a "command" (stdio) or a "url" (HTTP)`;
+  }
+  if (args !== undefined && (!Array.isArray(args) || args.some((arg) => typeof arg !== "string"))) {
+    return `MCP server "${name}" args must be an array of strings`;
+  }
+  return null;
+}
+
+export function getMcpConfigPath(): string {
+  return path.resolve(process.env.MCP_CONFIG_PATH || DEFAULT_CONFIG_FILE);
+}
+
+/**
+ * The valid servers of the MCP config file, keyed by name
+ */
+export function loadMcpConfig(): McpConfig {
+  const configPath = getMcpConfigPath();
+  if (!fs.existsSync(configPath)) {
+    return { mcpServers: {} };
+  }
+
+  let parsed: Partial<McpConfig>;
+  try {
+    parsed = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (error) {
+    console.error(`Ignoring invalid MCP config ${configPath}:`, error);
+    return { mcpServers: {} };
+  }
+
+  const servers: Record<string, McpServerConfig> = {};
+  for (const [name, config] of Object.entries(parsed.mcpServers ?? {})) {
+    const error = validateServerConfig(name, config);
+    if (error) {
+      console.error(`Skipping MCP server: ${error}`);
+      continue;
+    }
+    servers[name] = config;
+  }
+
+  return { mcpServers: servers };
+}
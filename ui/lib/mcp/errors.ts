@@ -0,0 +1,22 @@
+import { JsonRpcError } from "./types";
+
+/**
+ * Error from an MCP server or the connection to it
+ */
+export class McpError extends Error {
+  /** Server name from the MCP config */
+  server: string;
+  /** JSON-RPC error code, when the server answered with an error */
+  code?: number;
+
+  constructor(message: string, fields: { server: string; code?: number; cause?: unknown }) {
+    super(message, { cause: fields.cause });
+    this.name = "McpError";
+    this.server = fields.server;
+    this.code = fields.code;
+  }
+
+  static fromJsonRpc(server: string, error: JsonRpcError): McpError {
+    return new McpError(`MCP server "${server}": ${error.message}`, { server, code: error.code });
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Model Context Protocol Module
+ *
+ * Loads the tools of the MCP servers listed in the MCP config file, over
+ * stdio or Streamable HTTP, so the tool agent can use them next to its
+ * built-in tools. In the other direction, serves this app's tools,
+ * research graph and uploaded documents to other MCP clients.
+ */
+
+export * from "./types";
+export { McpError } from "./errors";
+export { McpClient } from "./client";
+export { loadMcpConfig, getMcpConfigPath, validateServerConfig } from "./config";
+export { jsonSchemaToZod, toolInputSchema } from "./schema";
+export {
+  connectMcpServers,
+  getLoadedMcpTools,
+  getMcpToolsRequiringApproval,
+  getMcpToolsVersion,
+  getMcpServerStatus,
+  getMcpToolName,
+  closeMcpServers,
+} from "./tools";
+export { handleMcpMessage, wantsProgress, type McpNotify } from "./server";
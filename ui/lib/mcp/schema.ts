@@ -0,0 +1,104 @@
+import { z } from "zod";
+import { JsonSchema } from "./types";
+
+/**
+ * JSON Schema to Zod
+ *
+ * LangChain tools take a zod schema, and MCP tools describe their input
+ * in JSON Schema. This covers what tool schemas use in practice: objects,
+ * arrays, primitives, enums, consts and unions. Anything else accepts
+ * any value, so the server's own validation still applies.
+ */
+
+function withDescription(schema: z.ZodTypeAny, json: JsonSchema): z.ZodTypeAny {
+  return json.description ? schema.describe(json.description) : schema;
+}
+
+function literal(value: unknown): z.ZodTypeAny {
+  return value === null ? z.null() : z.literal(value as string | number | boolean);
+}
+
+function union(schemas: z.ZodTypeAny[]): z.ZodTypeAny {
+  if (schemas.length === 0) return z.any();
+  if (schemas.length === 1) return schemas[0];
+  return z.union(schemas as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+}
+
+function convertObject(json: JsonSchema): z.ZodObject<z.ZodRawShape> {
+  const required = new Set(json.required ?? []);
+  const shape: z.ZodRawShape = {};
+
+  for (const [key, property] of Object.entries(json.properties ?? {})) {
+    const converted = jsonSchemaToZod(property);
+    shape[key] = required.has(key) ? converted : converted.optional();
+  }
+
+  const object = z.object(shape);
+  return json.additionalProperties === false ? object.strict() : object.passthrough();
+}
+
+function convertType(type: string, json: JsonSchema): z.ZodTypeAny {
+  switch (type) {
+    case "object":
+      return convertObject(json);
+    case "array":
+      return z.array(json.items ? jsonSchemaToZod(json.items) : z.any());
+    case "string":
+      return z.string();
+    case "number":
+      return z.number();
+    case "integer":
+      return z.number().int();
+    case "boolean":
+      return z.boolean();
+    case "null":
+      return z.null();
+    default:
+      return z.any();
+  }
+}
+
+/**
+ * Convert a JSON Schema into the equivalent zod schema
+ */
+export function jsonSchemaToZod(json: JsonSchema): z.ZodTypeAny {
+  if (json.const !== undefined) {
+    return withDescription(literal(json.const), json);
+  }
+
+  if (json.enum) {
+    const strings = json.enum.every((value) => typeof value === "string");
+    const schema = strings && json.enum.length > 0
+      ? z.enum(json.enum as [string, ...string[]])
+      : union(json.enum.map(literal));
+    return withDescription(schema, json);
+  }
+
+  const alternatives = json.anyOf ?? json.oneOf;
+  if (alternatives) {
+    return withDescription(union(alternatives.map(jsonSchemaToZod)), json);
+  }
+
+  if (json.allOf) {
+    const [first, ...rest] = json.allOf.map(jsonSchemaToZod);
+    const schema = first
+      ? rest.reduce<z.ZodTypeAny>((merged, next) => z.intersection(merged, next), first)
+      : z.any();
+    return withDescription(schema, json);
+  }
+
+  if (Array.isArray(json.type)) {
+    return withDescription(union(json.type.map((type) => convertType(type, json))), json);
+  }
+
+  // Schemas with properties but no type are objects in practice
+  const type = json.type ?? (json.properties ? "object" : undefined);
+  return withDescription(type ? convertType(type, json) : z.any(), json);
+}
+
+/**
+ * The zod schema for a tool's input, which is always an object
+ */
+export function toolInputSchema(json: JsonSchema): z.ZodObject<z.ZodRawShape> {
+  return convertObject({ ...json, type: "object" });
+}
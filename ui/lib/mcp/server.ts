@@ -0,0 +1,275 @@
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { toJsonSchema } from "@langchain/core/utils/json_schema";
+import { solveMathPuzzle, queryStudyMaterials, listStudyMaterials } from "../tools";
+import { streamResearch, ResearchState } from "../research";
+import { listIndexedDocuments, getDocumentChunks } from "../vectorStore";
+import { MCP_PROTOCOL_VERSION } from "./transports";
+import { JsonRpcMessage, JsonSchema, McpToolDefinition, McpToolResult } from "./types";
+
+/**
+ * MCP Server
+ *
+ * The server side of the protocol, so other assistants can use this
+ * app's tools and study corpus:
+ *
+ * - tools: solve_math_puzzle, query_study_materials, list_study_materials
+ *   and run_research, which runs the research graph and reports each
+ *   step as a notifications/progress when the call has a progressToken
+ * - resources: every uploaded document as study://documents/<id>, read
+ *   as plain text
+ *
+ * It answers one JSON-RPC message at a time and doesn't keep sessions;
+ * POST /api/mcp serves it over Streamable HTTP and scripts/mcp-stdio.mjs
+ * bridges stdio clients to that endpoint.
+ */
+
+const SERVER_INFO = { name: "langchain-agent-ui", version: "1.0.0" };
+const DOCUMENT_URI_PREFIX = "study://documents/";
+
+// Chunks overlap by up to this many characters (see lib/pdf/splitter.ts)
+const MAX_CHUNK_OVERLAP = 300;
+
+const PUBLISHED_TOOLS: StructuredToolInterface[] = [solveMathPuzzle, queryStudyMaterials, listStudyMaterials];
+
+const RESEARCH_TOOL: McpToolDefinition = {
+  name: "run_research",
+  description:
+    "Research a topic on the web: generates search queries, grades the results and refines the queries until enough relevant sources are found, then writes a report. Takes a while; send a progressToken to follow its steps.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      topic: { type: "string", description: "What to research, 3 to 500 characters" },
+      maxIterations: { type: "integer", description: "Most search rounds to run (default: 3)" },
+    },
+    required: ["topic"],
+  },
+};
+
+const ERROR_CODES = {
+  invalidParams: -32602,
+  methodNotFound: -32601,
+  internal: -32603,
+  resourceNotFound: -32002,
+};
+
+class RpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Sends a notification to the client while a request runs
+ */
+export type McpNotify = (notification: JsonRpcMessage) => void;
+
+function listTools(): McpToolDefinition[] {
+  return [
+    ...PUBLISHED_TOOLS.map((t) => ({
+      name: t.name,
+      description: t.description,
+      inputSchema: toJsonSchema(t.schema) as JsonSchema,
+    })),
+    RESEARCH_TOOL,
+  ];
+}
+
+function textResult(text: string, isError = false): McpToolResult {
+  return { content: [{ type: "text", text }], ...(isError ? { isError } : {}) };
+}
+
+/**
+ * Our tools report failures as JSON with success: false
+ */
+function isFailure(output: string): boolean {
+  try {
+    return JSON.parse(output)?.success === false;
+  } catch {
+    return false;
+  }
+}
+
+async function runResearchTool(
+  args: Record<string, unknown>,
+  progressToken: string | number | undefined,
+  notify: McpNotify,
+  signal?: AbortSignal
+): Promise<McpToolResult> {
+  const topic = args.topic;
+  if (typeof topic !== "string" || topic.length < 3 || topic.length > 500) {
+    return textResult("topic must be a string of 3 to 500 characters", true);
+  }
+  const maxIterations = typeof args.maxIterations === "number" ? args.maxIterations : undefined;
+
+  let step = 0;
+  let synthesis = "";
+  let sources: ResearchState["relevantDocuments"] = [];
+
+  // Each update is keyed by the node that produced it
+  for await (const update of streamResearch(topic, { maxIterations, route: "/api/mcp", signal })) {
+    for (const [node, values] of Object.entries(update as Record<string, Partial<ResearchState>>)) {
+      step += 1;
+      synthesis = values.synthesis ?? synthesis;
+      sources = values.relevantDocuments ?? sources;
+
+      if (progressToken !== undefined) {
+        const lastLog = values.logs?.at(-1)?.trim();
+        notify({
+          jsonrpc: "2.0",
+          method: "notifications/progress",
+          params: { progressToken, progress: step, message: lastLog ? `${node}: ${lastLog}` : node },
+        });
+      }
+    }
+  }
+
+  const sourceList = sources.map((graded) => `- ${graded.document.title}: ${graded.document.url}`).join("\n");
+  return textResult(
+    `${synthesis || "The research did not produce a summary."}${sourceList ? `\n\nSources:\n${sourceList}` : ""}`
+  );
+}
+
+async function callTool(
+  params: Record<string, unknown>,
+  notify: McpNotify,
+  signal?: AbortSignal
+): Promise<McpToolResult> {
+  const name = params.name;
+  const args = (params.arguments ?? {}) as Record<string, unknown>;
+  const progressToken = (params._meta as { progressToken?: string | number } | undefined)?.progressToken;
+
+  if (name === RESEARCH_TOOL.name) {
+    return runResearchTool(args, progressToken, notify, signal);
+  }
+
+  const published = PUBLISHED_TOOLS.find((t) => t.name === name);
+  if (!published) {
+    throw new RpcError(ERROR_CODES.invalidParams, `Unknown tool: ${String(name)}`);
+  }
+
+  try {
+    const output = await published.invoke(args, { signal });
+    const text = typeof output === "string" ? output : JSON.stringify(output);
+    return textResult(text, isFailure(text));
+  } catch (error) {
+    // Invalid arguments and tool failures are results the model can see
+    return textResult((error as Error).message, true);
+  }
+}
+
+/**
+ * Join chunks back into the document, dropping the overlap between them
+ */
+function joinChunks(chunks: string[]): string {
+  return chunks.reduce((text, chunk) => {
+    if (!text) return chunk;
+
+    for (let length = Math.min(MAX_CHUNK_OVERLAP, chunk.length, text.length); length > 0; length--) {
+      if (text.endsWith(chunk.slice(0, length))) {
+        return text + chunk.slice(length);
+      }
+    }
+    return `${text}\n${chunk}`;
+  }, "");
+}
+
+async function listResources() {
+  const documents = await listIndexedDocuments();
+  return documents.map((document) => ({
+    uri: `${DOCUMENT_URI_PREFIX}${encodeURIComponent(document.documentId)}`,
+    name: document.filename,
+    description: `Uploaded study material (${document.chunks} chunks)`,
+    mimeType: "text/plain",
+  }));
+}
+
+async function readResource(uri: unknown) {
+  if (typeof uri !== "string" || !uri.startsWith(DOCUMENT_URI_PREFIX)) {
+    throw new RpcError(ERROR_CODES.resourceNotFound, `Resource not found: ${String(uri)}`);
+  }
+
+  const chunks = await getDocumentChunks(decodeURIComponent(uri.slice(DOCUMENT_URI_PREFIX.length)));
+  if (chunks.length === 0) {
+    throw new RpcError(ERROR_CODES.resourceNotFound, `Resource not found: ${uri}`);
+  }
+
+  return {
+    contents: [{ uri, mimeType: "text/plain", text: joinChunks(chunks.map((c) => c.pageContent)) }],
+  };
+}
+
+async function dispatch(
+  method: string,
+  params: Record<string, unknown>,
+  notify: McpNotify,
+  signal?: AbortSignal
+): Promise<unknown> {
+  switch (method) {
+    case "initialize":
+      return {
+        protocolVersion: MCP_PROTOCOL_VERSION,
+        capabilities: { tools: {}, resources: {} },
+        serverInfo: SERVER_INFO,
+      };
+    case "ping":
+      return {};
+    case "tools/list":
+      return { tools: listTools() };
+    case "tools/call":
+      return callTool(params, notify, signal);
+    case "resources/list":
+      return { resources: await listResources() };
+    case "resources/templates/list":
+      return { resourceTemplates: [] };
+    case "resources/read":
+      return readResource(params.uri);
+    default:
+      throw new RpcError(ERROR_CODES.methodNotFound, `Method not found: ${method}`);
+  }
+}
+
+/**
+ * Answer one JSON-RPC message from a client
+ *
+ * @param notify - Sends progress notifications while the request runs
+ * @param signal - Stops the request, e.g. when the client disconnects
+ * @returns The response, or null for notifications and responses, which
+ *   need no answer
+ */
+export async function handleMcpMessage(
+  message: JsonRpcMessage,
+  notify: McpNotify = () => undefined,
+  signal?: AbortSignal
+): Promise<JsonRpcMessage | null> {
+  if (message.id === undefined || !message.method) {
+    return null;
+  }
+
+  try {
+    const result = await dispatch(message.method, message.params ?? {}, notify, signal);
+    return { jsonrpc: "2.0", id: message.id, result };
+  } catch (error) {
+    if (!(error instanceof RpcError) && !signal?.aborted) {
+      console.error(`MCP ${message.method} error:`, error);
+    }
+    return {
+      jsonrpc: "2.0",
+      id: message.id,
+      error: {
+        code: error instanceof RpcError ? error.code : ERROR_CODES.internal,
+        message: (error as Error).message,
+      },
+    };
+  }
+}
+
+/**
+ * Whether answering the message may send progress notifications first
+ */
+export function wantsProgress(message: JsonRpcMessage): boolean {
+  const meta = message.params?._meta as { progressToken?: unknown } | undefined;
+  return message.method === "tools/call" && meta?.progressToken !== undefined;
+}
@@ -0,0 +1,334 @@
+import { tool } from "@langchain/core/tools";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import { guardUntrustedContent } from "../guardrails";
+import { McpClient } from "./client";
+import { isHttpServer, loadMcpConfig } from "./config";
+import { toolInputSchema } from "./schema";
+import { HttpTransport, StdioTransport } from "./transports";
+import {
+  McpContent,
+  McpServerConfig,
+  McpServerStatus,
+  McpToolDefinition,
+  McpToolResult,
+} from "./types";
+
+/**
+ * MCP Tools
+ *
+ * Connects to the servers in the MCP config in the background, so a slow
+ * server doesn't hold up any turn, and turns their tools into LangChain
+ * tools named "<server>__<tool>", so tools of different servers can't
+ * clash with each other or with the built-in ones. Names that still
+ * clash once shortened to what model APIs accept get a numbered suffix.
+ *
+ * A server's tools are listed again when it sends
+ * notifications/tools/list_changed, and HTTP servers, which can't push
+ * notifications between requests, are also polled every
+ * MCP_REFRESH_INTERVAL_MS (default 60s). Each change to a tool's name,
+ * description or schema bumps the tools version, so the agent rebuilds
+ * with the new list. A server that fails or disconnects is retried after
+ * MCP_RETRY_INTERVAL_MS (default 30s).
+ */
+
+const DEFAULT_REFRESH_INTERVAL_MS = 60_000;
+const DEFAULT_RETRY_INTERVAL_MS = 30_000;
+const TOOL_NAME_MAX_LENGTH = 64;
+
+interface McpServerEntry {
+  name: string;
+  config: McpServerConfig;
+  client?: McpClient;
+  tools: StructuredToolInterface[];
+  /** The listed definitions the tools were built from, to detect changes */
+  definitions?: string;
+  /** Names of the tools the config says need approval */
+  approvalRequired: string[];
+  error?: string;
+  /** When a failed server may be connected again */
+  retryAt: number;
+  connecting?: Promise<void>;
+  refreshTimer?: ReturnType<typeof setInterval>;
+}
+
+interface McpState {
+  servers: Map<string, McpServerEntry> | undefined;
+  version: number;
+}
+
+/**
+ * Global singleton for the server connections
+ * Using globalThis keeps one child process per server across API routes
+ */
+const globalForMcp = globalThis as unknown as {
+  mcpState: McpState | undefined;
+};
+
+function getState(): McpState {
+  if (!globalForMcp.mcpState) {
+    globalForMcp.mcpState = { servers: undefined, version: 0 };
+  }
+  return globalForMcp.mcpState;
+}
+
+function readInterval(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && value > 0 ? value : fallback;
+}
+
+/**
+ * Namespaced tool name, limited to the characters model APIs accept
+ */
+export function getMcpToolName(server: string, toolName: string): string {
+  return `${server}__${toolName}`.replace(/[^a-zA-Z0-9_-]/g, "_").slice(0, TOOL_NAME_MAX_LENGTH);
+}
+
+/**
+ * The name with a numbered suffix if it is already taken
+ */
+function getUniqueToolName(name: string, taken: Set<string>): string {
+  let unique = name;
+  for (let n = 2; taken.has(unique); n++) {
+    const suffix = `_${n}`;
+    unique = `${name.slice(0, TOOL_NAME_MAX_LENGTH - suffix.length)}${suffix}`;
+  }
+  return unique;
+}
+
+/**
+ * Whether the server's config asks for approval before calling a tool
+ */
+function needsApproval(config: McpServerConfig, toolName: string): boolean {
+  const { requireApproval } = config;
+  return Array.isArray(requireApproval) ? requireApproval.includes(toolName) : Boolean(requireApproval);
+}
+
+function contentToText(content: McpContent): string {
+  switch (content.type) {
+    case "text":
+      return content.text;
+    case "resource":
+      return content.resource.text ?? `[resource: ${content.resource.uri}]`;
+    case "resource_link":
+      return `[resource: ${content.uri}]`;
+    default:
+      return `[${content.type}: ${content.mimeType}]`;
+  }
+}
+
+/**
+ * Flatten a tools/call result into the string a ToolMessage carries
+ */
+function formatResult(server: string, result: McpToolResult): string {
+  const text = (result.content ?? []).map(contentToText).join("\n");
+
+  if (result.isError) {
+    return JSON.stringify({ success: false, message: text || "The tool failed" });
+  }
+
+  // Output of an external server is untrusted, like retrieved documents
+  const guarded = guardUntrustedContent(text, `mcp:${server}`);
+  if (guarded.findings.length > 0) {
+    console.warn(`⚠️ Possible prompt injection in output of MCP server "${server}"`);
+  }
+  return guarded.content;
+}
+
+function toLangChainTool(
+  entry: McpServerEntry,
+  definition: McpToolDefinition,
+  name: string
+): StructuredToolInterface {
+  return tool(
+    async (args) => {
+      const client = entry.client;
+      if (!client?.connected) {
+        return JSON.stringify({ success: false, message: `MCP server "${entry.name}" is not connected` });
+      }
+      try {
+        return formatResult(entry.name, await client.callTool(definition.name, args));
+      } catch (error) {
+        return JSON.stringify({ success: false, message: (error as Error).message });
+      }
+    },
+    {
+      name,
+      description: `${definition.description ?? definition.name} (from the "${entry.name}" MCP server)`,
+      schema: toolInputSchema(definition.inputSchema ?? {}),
+    }
+  );
+}
+
+async function refreshServerTools(entry: McpServerEntry): Promise<void> {
+  if (!entry.client?.connected) {
+    return;
+  }
+
+  try {
+    const definitions = await entry.client.listTools();
+    entry.error = undefined;
+
+    const signature = JSON.stringify(
+      definitions
+        .map(({ name, description, inputSchema }) => ({ name, description, inputSchema }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+    if (signature === entry.definitions) {
+      return;
+    }
+
+    const taken = new Set(
+      Array.from(getServers().values())
+        .filter((other) => other !== entry)
+        .flatMap((other) => other.tools.map((t) => t.name))
+    );
+    const tools: StructuredToolInterface[] = [];
+    const approvalRequired: string[] = [];
+    for (const definition of definitions) {
+      const name = getUniqueToolName(getMcpToolName(entry.name, definition.name), taken);
+      taken.add(name);
+      tools.push(toLangChainTool(entry, definition, name));
+      if (needsApproval(entry.config, definition.name)) {
+        approvalRequired.push(name);
+      }
+    }
+
+    console.log(`🔌 MCP server "${entry.name}" has ${tools.length} tool(s): ${tools.map((t) => t.name).join(", ")}`);
+    entry.tools = tools;
+    entry.definitions = signature;
+    entry.approvalRequired = approvalRequired;
+    getState().version += 1;
+  } catch (error) {
+    entry.error = (error as Error).message;
+    console.error(`Failed to list tools of MCP server "${entry.name}":`, error);
+  }
+}
+
+function dropServer(entry: McpServerEntry, error?: Error): void {
+  clearInterval(entry.refreshTimer);
+  entry.refreshTimer = undefined;
+  entry.client = undefined;
+  entry.retryAt = Date.now() + readInterval("MCP_RETRY_INTERVAL_MS", DEFAULT_RETRY_INTERVAL_MS);
+  if (error) {
+    entry.error = error.message;
+  }
+  entry.definitions = undefined;
+  entry.approvalRequired = [];
+  if (entry.tools.length > 0) {
+    entry.tools = [];
+    getState().version += 1;
+  }
+}
+
+async function connectServer(entry: McpServerEntry): Promise<void> {
+  const transport = isHttpServer(entry.config)
+    ? new HttpTransport(entry.name, entry.config)
+    : new StdioTransport(entry.name, entry.config);
+  const client = new McpClient(entry.name, transport);
+
+  client.onToolsChanged = () => void refreshServerTools(entry);
+  client.onClose = (error) => {
+    if (entry.client === client) {
+      console.error(`MCP server "${entry.name}" disconnected${error ? `: ${error.message}` : ""}`);
+      dropServer(entry, error);
+    }
+  };
+
+  try {
+    entry.client = client;
+    await client.connect();
+    await refreshServerTools(entry);
+
+    if (isHttpServer(entry.config)) {
+      entry.refreshTimer = setInterval(
+        () => void refreshServerTools(entry),
+        readInterval("MCP_REFRESH_INTERVAL_MS", DEFAULT_REFRESH_INTERVAL_MS)
+      );
+      entry.refreshTimer.unref?.();
+    }
+  } catch (error) {
+    console.error(`Failed to connect to MCP server "${entry.name}":`, error);
+    await client.close().catch(() => undefined);
+    dropServer(entry, error as Error);
+  }
+}
+
+function getServers(): Map<string, McpServerEntry> {
+  const state = getState();
+  if (!state.servers) {
+    state.servers = new Map(
+      Object.entries(loadMcpConfig().mcpServers).map(([name, config]) => [
+        name,
+        { name, config, tools: [], approvalRequired: [], retryAt: 0 },
+      ])
+    );
+  }
+  return state.servers;
+}
+
+/**
+ * Start connecting to the configured servers that aren't connected yet
+ *
+ * Their tools show up in getLoadedMcpTools, and bump the tools version,
+ * once they are listed. The returned promise settles when the attempts
+ * have finished; callers that don't need to wait can ignore it.
+ */
+export function connectMcpServers(): Promise<void> {
+  const servers = Array.from(getServers().values());
+
+  return Promise.all(
+    servers.map((entry) => {
+      if (!entry.client && !entry.connecting && Date.now() >= entry.retryAt) {
+        entry.connecting = connectServer(entry).finally(() => {
+          entry.connecting = undefined;
+        });
+      }
+      return entry.connecting;
+    })
+  ).then(() => undefined);
+}
+
+/**
+ * The tools of the connected servers, without connecting to any
+ */
+export function getLoadedMcpTools(): StructuredToolInterface[] {
+  return Array.from(getServers().values()).flatMap((entry) => entry.tools);
+}
+
+/**
+ * Names of the loaded tools whose server config asks for approval
+ */
+export function getMcpToolsRequiringApproval(): string[] {
+  return Array.from(getServers().values()).flatMap((entry) => entry.approvalRequired);
+}
+
+/**
+ * Changes whenever a server's tools are added, changed or removed
+ */
+export function getMcpToolsVersion(): number {
+  return getState().version;
+}
+
+export function getMcpServerStatus(): McpServerStatus[] {
+  return Array.from(getServers().values()).map((entry) => ({
+    name: entry.name,
+    transport: isHttpServer(entry.config) ? "http" : "stdio",
+    connected: Boolean(entry.client?.connected),
+    tools: entry.tools.map((t) => t.name),
+    ...(entry.error ? { error: entry.error } : {}),
+  }));
+}
+
+/**
+ * Disconnect from every server, e.g. before the process exits
+ */
+export async function closeMcpServers(): Promise<void> {
+  const servers = Array.from(getServers().values());
+  await Promise.all(
+    servers.map(async (entry) => {
+      const client = entry.client;
+      dropServer(entry);
+      await client?.close().catch(() => undefined);
+    })
+  );
+}
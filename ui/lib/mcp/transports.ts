@@ -0,0 +1,200 @@
+import { spawn, ChildProcessWithoutNullStreams } from "child_process";
+import { McpError } from "./errors";
+import {
+  JsonRpcMessage,
+  McpHttpServerConfig,
+  McpStdioServerConfig,
+  McpTransport,
+} from "./types";
+
+/**
+ * MCP Transports
+ *
+ * stdio: the server runs as a child process; messages are JSON, one per
+ * line, on its stdin and stdout. Its stderr goes to the app's log.
+ *
+ * Streamable HTTP: every message is POSTed to the server URL. The server
+ * answers with JSON or with a Server-Sent Events stream that carries the
+ * response and any notifications, and may keep a session through the
+ * Mcp-Session-Id header.
+ */
+
+export const MCP_PROTOCOL_VERSION = "2025-03-26";
+
+export class StdioTransport implements McpTransport {
+  private process?: ChildProcessWithoutNullStreams;
+
+  constructor(
+    private server: string,
+    private config: McpStdioServerConfig
+  ) {}
+
+  async start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void) {
+    const child = spawn(this.config.command, this.config.args ?? [], {
+      cwd: this.config.cwd,
+      env: { ...process.env, ...this.config.env },
+      stdio: ["pipe", "pipe", "pipe"],
+    });
+    this.process = child;
+
+    let buffer = "";
+    child.stdout.setEncoding("utf-8");
+    child.stdout.on("data", (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          onMessage(JSON.parse(line));
+        } catch {
+          console.error(`[mcp:${this.server}] Ignoring non-JSON output: ${line.slice(0, 200)}`);
+        }
+      }
+    });
+
+    // Writing to a server that exited fails here, not in send()
+    child.stdin.on("error", (error) => {
+      this.process = undefined;
+      child.kill("SIGTERM");
+      onClose(new McpError(`MCP server "${this.server}" stopped reading: ${error.message}`, { server: this.server, cause: error }));
+    });
+
+    child.stderr.setEncoding("utf-8");
+    child.stderr.on("data", (chunk: string) => {
+      console.error(`[mcp:${this.server}] ${chunk.trimEnd()}`);
+    });
+
+    child.on("exit", (code, signal) => {
+      this.process = undefined;
+      onClose(
+        code === 0 || signal === "SIGTERM"
+          ? undefined
+          : new McpError(`MCP server "${this.server}" exited with ${signal ?? `code ${code}`}`, {
+              server: this.server,
+            })
+      );
+    });
+
+    // A command that can't be started fails the connection right away
+    await new Promise<void>((resolve, reject) => {
+      child.once("spawn", () => resolve());
+      child.once("error", (error) =>
+        reject(new McpError(`Failed to start MCP server "${this.server}": ${error.message}`, { server: this.server, cause: error }))
+      );
+    });
+  }
+
+  async send(message: JsonRpcMessage) {
+    if (!this.process) {
+      throw new McpError(`MCP server "${this.server}" is not running`, { server: this.server });
+    }
+    this.process.stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  async close() {
+    this.process?.kill("SIGTERM");
+    this.process = undefined;
+  }
+}
+
+export class HttpTransport implements McpTransport {
+  private sessionId?: string;
+  private onMessage?: (message: JsonRpcMessage) => void;
+  private onClose?: (error?: Error) => void;
+
+  constructor(
+    private server: string,
+    private config: McpHttpServerConfig
+  ) {}
+
+  async start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void) {
+    this.onMessage = onMessage;
+    this.onClose = onClose;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return {
+      ...this.config.headers,
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      "MCP-Protocol-Version": MCP_PROTOCOL_VERSION,
+      ...(this.sessionId ? { "Mcp-Session-Id": this.sessionId } : {}),
+    };
+  }
+
+  async send(message: JsonRpcMessage) {
+    const response = await fetch(this.config.url, {
+      method: "POST",
+      headers: this.getHeaders(),
+      body: JSON.stringify(message),
+    });
+
+    const sessionId = response.headers.get("mcp-session-id");
+    if (sessionId) {
+      this.sessionId = sessionId;
+    }
+
+    if (response.status === 404 && this.sessionId) {
+      // The server dropped the session; the client has to initialize again
+      this.sessionId = undefined;
+      this.onClose?.(new McpError(`MCP server "${this.server}" ended the session`, { server: this.server }));
+      return;
+    }
+    if (!response.ok) {
+      throw new McpError(`MCP server "${this.server}" returned HTTP ${response.status}`, { server: this.server });
+    }
+    if (response.status === 202 || !response.body) {
+      return;
+    }
+
+    const contentType = response.headers.get("content-type") ?? "";
+    if (contentType.includes("text/event-stream")) {
+      await this.readEventStream(response);
+      return;
+    }
+
+    const body = await response.text();
+    if (!body.trim()) {
+      return;
+    }
+    const parsed = JSON.parse(body) as JsonRpcMessage | JsonRpcMessage[];
+    (Array.isArray(parsed) ? parsed : [parsed]).forEach((m) => this.onMessage?.(m));
+  }
+
+  private async readEventStream(response: Response) {
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? "";
+
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+        if (data) {
+          this.onMessage?.(JSON.parse(data));
+        }
+      }
+    }
+  }
+
+  async close() {
+    if (!this.sessionId) {
+      return;
+    }
+    // Ending the session is a courtesy; the server may not support it
+    await fetch(this.config.url, { method: "DELETE", headers: this.getHeaders() }).catch(() => undefined);
+    this.sessionId = undefined;
+  }
+}
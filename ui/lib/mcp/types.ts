@@ -0,0 +1,120 @@
+/**
+ * Types for the Model Context Protocol Client
+ *
+ * MCP servers expose tools over JSON-RPC 2.0, either as a child process
+ * speaking over stdio or as a Streamable HTTP endpoint. Servers are
+ * listed in the MCP config file (see config.ts).
+ */
+
+/**
+ * Settings shared by both kinds of server
+ */
+interface McpServerOptions {
+  /**
+   * Pause for human approval before calling the server's tools: true for
+   * all of them, or the names of some as the server lists them. Adds to
+   * TOOLS_REQUIRING_APPROVAL (see lib/tools/approval.ts).
+   */
+  requireApproval?: boolean | string[];
+}
+
+/**
+ * A server started as a child process, talking JSON-RPC over stdin/stdout
+ */
+export interface McpStdioServerConfig extends McpServerOptions {
+  command: string;
+  args?: string[];
+  /** Added to the app's environment */
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+/**
+ * A server reached over Streamable HTTP
+ */
+export interface McpHttpServerConfig extends McpServerOptions {
+  url: string;
+  /** e.g. { "Authorization": "Bearer ..." } */
+  headers?: Record<string, string>;
+}
+
+export type McpServerConfig = McpStdioServerConfig | McpHttpServerConfig;
+
+export interface McpConfig {
+  /** Keyed by server name, which prefixes the server's tool names */
+  mcpServers: Record<string, McpServerConfig>;
+}
+
+/**
+ * The subset of JSON Schema that tool input schemas use
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  default?: unknown;
+}
+
+/**
+ * A tool as listed by a server's tools/list
+ */
+export interface McpToolDefinition {
+  name: string;
+  description?: string;
+  inputSchema: JsonSchema;
+}
+
+/**
+ * One item of a tools/call result
+ */
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image" | "audio"; data: string; mimeType: string }
+  | { type: "resource"; resource: { uri: string; text?: string; mimeType?: string } }
+  | { type: "resource_link"; uri: string; name?: string };
+
+export interface McpToolResult {
+  content: McpContent[];
+  isError?: boolean;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface JsonRpcMessage {
+  jsonrpc: "2.0";
+  id?: string | number;
+  method?: string;
+  params?: Record<string, unknown>;
+  result?: unknown;
+  error?: JsonRpcError;
+}
+
+/**
+ * Connection to a server that carries JSON-RPC messages both ways
+ */
+export interface McpTransport {
+  start(onMessage: (message: JsonRpcMessage) => void, onClose: (error?: Error) => void): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface McpServerStatus {
+  name: string;
+  transport: "stdio" | "http";
+  connected: boolean;
+  /** Names of the server's tools as the agent sees them */
+  tools: string[];
+  error?: string;
+}
@@ -0,0 +1,17 @@
+/**
+ * Long-term Memory Module
+ *
+ * Stores facts about a user across threads. The agent manages them with
+ * its memory tools (lib/tools/memory.ts), relevant ones are recalled at
+ * the start of each turn, and users can review them at /api/memory.
+ */
+
+export * from "./types";
+export {
+  listMemories,
+  saveMemory,
+  searchMemories,
+  deleteMemory,
+  clearMemories,
+} from "./store";
+export { recallMemories, buildMemoryMessage, DEFAULT_USER_ID, MEMORY_MESSAGE_ID } from "./nodes";
@@ -0,0 +1,66 @@
+import { BaseMessage, SystemMessage } from "@langchain/core/messages";
+import type { SupervisorAnnotation, SupervisorState } from "../supervisor";
+import { listMemories, searchMemories } from "./store";
+import { MemoryFact } from "./types";
+
+/**
+ * Memory Recall
+ *
+ * recall_memories runs at the start of every turn and puts the user's
+ * facts that matter for the latest message in the graph state. The
+ * answering nodes then show them to the model in a system message, which
+ * is not stored in the thread. Users with only a few facts get all of
+ * them; otherwise the MEMORY_RECALL_LIMIT (default 5) most relevant ones.
+ */
+
+export const DEFAULT_USER_ID = "default";
+
+/**
+ * Fixed id of the memory message, so nodes can leave it out of the thread
+ */
+export const MEMORY_MESSAGE_ID = "user-memories";
+
+const DEFAULT_RECALL_LIMIT = 5;
+
+function getRecallLimit(): number {
+  const value = Number(process.env.MEMORY_RECALL_LIMIT);
+  return process.env.MEMORY_RECALL_LIMIT && Number.isInteger(value) && value >= 0 ? value : DEFAULT_RECALL_LIMIT;
+}
+
+function contentToString(content: BaseMessage["content"]): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+/**
+ * Graph node: look up the user's facts relevant to the latest message
+ */
+export async function recallMemories(
+  state: SupervisorState
+): Promise<Partial<typeof SupervisorAnnotation.Update>> {
+  const userId = state.userId ?? DEFAULT_USER_ID;
+  const limit = getRecallLimit();
+  const facts = listMemories(userId);
+
+  if (facts.length <= limit) {
+    return { memories: facts };
+  }
+
+  const question = [...state.messages].reverse().find((m) => m._getType() === "human");
+  const matches = await searchMemories(userId, question ? contentToString(question.content) : "", limit);
+  return { memories: matches.map((match) => match.fact) };
+}
+
+/**
+ * The system message that shows recalled facts to the model, if there are any
+ */
+export function buildMemoryMessage(memories?: MemoryFact[]): SystemMessage | null {
+  if (!memories?.length) {
+    return null;
+  }
+
+  const lines = memories.map((fact) => `- ${fact.content} (${fact.category}, id: ${fact.id})`);
+  return new SystemMessage({
+    id: MEMORY_MESSAGE_ID,
+    content: `What you remember about the user from earlier conversations. Use it when it helps, without reciting it. If the user corrects one of these, forget it and save the new fact.\n${lines.join("\n")}`,
+  });
+}
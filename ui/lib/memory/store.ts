@@ -0,0 +1,181 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { embedText, embedTexts } from "../vectorStore";
+import { MemoryCategory, MemoryFact, MemoryMatch } from "./types";
+
+/**
+ * Long-term Memory Store
+ *
+ * Keeps user facts in memory, shared by every thread. Set
+ * MEMORY_STORE_PATH to also save them to a JSON file, which is read back
+ * on startup so they survive restarts.
+ *
+ * Facts are matched to a query by embedding similarity, with the same
+ * embeddings as the study materials. Saving a fact the user already has
+ * (or a near-identical one) updates it instead of adding a duplicate.
+ */
+
+// Similarity above which a new fact replaces an existing one
+const DUPLICATE_THRESHOLD = 0.95;
+
+interface MemoryStore {
+  facts: MemoryFact[];
+  pendingWrite: Promise<void>;
+}
+
+/**
+ * Global singleton for the memory store
+ * Using globalThis ensures every API route and thread sees the same facts
+ */
+const globalForMemory = globalThis as unknown as {
+  memoryStore: MemoryStore | undefined;
+};
+
+function loadFacts(filePath: string): MemoryFact[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  return JSON.parse(fs.readFileSync(filePath, "utf-8")) as MemoryFact[];
+}
+
+function getStore(): MemoryStore {
+  if (!globalForMemory.memoryStore) {
+    const filePath = process.env.MEMORY_STORE_PATH;
+    globalForMemory.memoryStore = {
+      facts: filePath ? loadFacts(filePath) : [],
+      pendingWrite: Promise.resolve(),
+    };
+  }
+  return globalForMemory.memoryStore;
+}
+
+/**
+ * Write the facts to MEMORY_STORE_PATH, if set
+ */
+function persist(store: MemoryStore): void {
+  const filePath = process.env.MEMORY_STORE_PATH;
+  if (!filePath) {
+    return;
+  }
+
+  // Writes are chained so an older snapshot never overwrites a newer one
+  const snapshot = JSON.stringify(store.facts, null, 2);
+  store.pendingWrite = store.pendingWrite
+    .then(async () => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.writeFile(filePath, snapshot, "utf-8");
+    })
+    .catch((error) => console.error("Failed to write memory store:", error));
+}
+
+function normalize(content: string): string {
+  return content.trim().toLowerCase().replace(/[.!\s]+$/, "");
+}
+
+function similarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+/**
+ * A user's facts, oldest first
+ */
+export function listMemories(userId: string): MemoryFact[] {
+  return getStore().facts.filter((fact) => fact.userId === userId);
+}
+
+/**
+ * Save a fact about a user, updating a near-identical one if present
+ */
+export async function saveMemory(
+  userId: string,
+  content: string,
+  category: MemoryCategory = "other",
+  threadId?: string
+): Promise<MemoryFact> {
+  const store = getStore();
+  const now = new Date().toISOString();
+  const existing = listMemories(userId);
+
+  let duplicate = existing.find((fact) => normalize(fact.content) === normalize(content));
+  if (!duplicate && existing.length > 0) {
+    const [query, ...embeddings] = await embedTexts([content, ...existing.map((fact) => fact.content)]);
+    const best = embeddings
+      .map((embedding, i) => ({ fact: existing[i], score: similarity(query, embedding) }))
+      .sort((a, b) => b.score - a.score)[0];
+    if (best.score >= DUPLICATE_THRESHOLD) {
+      duplicate = best.fact;
+    }
+  }
+
+  if (duplicate) {
+    Object.assign(duplicate, { content, category, threadId, updatedAt: now });
+    persist(store);
+    return duplicate;
+  }
+
+  const fact: MemoryFact = {
+    id: randomUUID(),
+    userId,
+    content,
+    category,
+    threadId,
+    createdAt: now,
+    updatedAt: now,
+  };
+  store.facts.push(fact);
+  persist(store);
+  return fact;
+}
+
+/**
+ * A user's facts most similar to a query
+ */
+export async function searchMemories(userId: string, query: string, limit: number = 5): Promise<MemoryMatch[]> {
+  const facts = listMemories(userId);
+  if (facts.length === 0) {
+    return [];
+  }
+
+  const queryEmbedding = await embedText(query);
+  const embeddings = await embedTexts(facts.map((fact) => fact.content));
+
+  return facts
+    .map((fact, i) => ({ fact, score: similarity(queryEmbedding, embeddings[i]) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Delete one of a user's facts
+ *
+ * @returns false if the user has no fact with that id
+ */
+export function deleteMemory(userId: string, id: string): boolean {
+  const store = getStore();
+  const index = store.facts.findIndex((fact) => fact.userId === userId && fact.id === id);
+  if (index < 0) {
+    return false;
+  }
+
+  store.facts.splice(index, 1);
+  persist(store);
+  return true;
+}
+
+/**
+ * Delete all of a user's facts
+ *
+ * @returns How many facts were deleted
+ */
+export function clearMemories(userId: string): number {
+  const store = getStore();
+  const count = listMemories(userId).length;
+  store.facts = store.facts.filter((fact) => fact.userId !== userId);
+  persist(store);
+  return count;
+}
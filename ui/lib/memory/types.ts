@@ -0,0 +1,30 @@
+/**
+ * Types for Long-term Memory
+ *
+ * Facts about a user (their course, level, preferences) that the agent
+ * saves with its memory tools and that are recalled in every thread of
+ * that user, unlike the checkpointer, which only remembers within one
+ * thread.
+ */
+
+export const MEMORY_CATEGORIES = ["course", "level", "preference", "goal", "other"] as const;
+
+export type MemoryCategory = (typeof MEMORY_CATEGORIES)[number];
+
+export interface MemoryFact {
+  id: string;
+  userId: string;
+  /** The fact, in one sentence, e.g. "Is taking CS101 this semester" */
+  content: string;
+  category: MemoryCategory;
+  /** Thread the fact was saved from */
+  threadId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface MemoryMatch {
+  fact: MemoryFact;
+  /** Cosine similarity to the query, 0-1 */
+  score: number;
+}
@@ -0,0 +1,197 @@
+import { LlmErrorKind, ModelSpec } from "./types";
+
+/**
+ * Model Call Errors
+ *
+ * Provider SDKs fail in different shapes: HTTP errors with a status and
+ * headers, LangChain errors with an lc_error_code, or plain network
+ * errors. toLlmError turns them all into an LlmError with a kind, so the
+ * resilience layer can decide whether to retry and API routes can answer
+ * with a matching status code.
+ */
+
+const HTTP_STATUSES: Record<LlmErrorKind, number> = {
+  rate_limit: 429,
+  timeout: 504,
+  unavailable: 503,
+  auth: 502,
+  invalid_request: 502,
+  circuit_open: 503,
+  unknown: 500,
+};
+
+const RETRYABLE_KINDS: LlmErrorKind[] = ["rate_limit", "timeout", "unavailable"];
+
+const NETWORK_ERROR_CODES = ["ECONNRESET", "ECONNREFUSED", "ENOTFOUND", "ETIMEDOUT", "EAI_AGAIN", "EPIPE"];
+
+export class LlmError extends Error {
+  kind: LlmErrorKind;
+  /** "provider:model" of the model that failed */
+  model?: string;
+  /** HTTP status returned by the provider */
+  providerStatus?: number;
+  /** How long the provider asked us to wait before retrying */
+  retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    fields: { kind: LlmErrorKind; model?: string; providerStatus?: number; retryAfterMs?: number; cause?: unknown }
+  ) {
+    super(message, { cause: fields.cause });
+    this.name = "LlmError";
+    this.kind = fields.kind;
+    this.model = fields.model;
+    this.providerStatus = fields.providerStatus;
+    this.retryAfterMs = fields.retryAfterMs;
+  }
+
+  /** Worth trying the same model again */
+  get retryable(): boolean {
+    return RETRYABLE_KINDS.includes(this.kind);
+  }
+
+  /** Status code for API responses */
+  get status(): number {
+    return HTTP_STATUSES[this.kind];
+  }
+}
+
+/**
+ * Error kind for a provider's HTTP status
+ */
+export function getErrorKindForStatus(status: number): LlmErrorKind {
+  if (status === 429) return "rate_limit";
+  if (status === 401 || status === 403) return "auth";
+  if (status === 408) return "timeout";
+  if (status >= 500) return "unavailable";
+  if (status >= 400) return "invalid_request";
+  return "unknown";
+}
+
+function getHeader(headers: unknown, name: string): string | undefined {
+  if (!headers || typeof headers !== "object") {
+    return undefined;
+  }
+  if (typeof (headers as Headers).get === "function") {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+  const value = (headers as Record<string, unknown>)[name];
+  return typeof value === "string" ? value : undefined;
+}
+
+/**
+ * Parse rate-limit reset durations like "6ms", "7.66s" or "1m30.5s"
+ */
+function parseDuration(value: string): number | undefined {
+  let total = 0;
+  let matched = false;
+  for (const [, amount, unit] of value.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)) {
+    const factor = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 }[unit]!;
+    total += Number(amount) * factor;
+    matched = true;
+  }
+  return matched ? Math.ceil(total) : undefined;
+}
+
+/**
+ * How long rate-limit response headers ask us to wait
+ *
+ * Reads retry-after-ms, retry-after (seconds or an HTTP date) and,
+ * failing those, the later of the x-ratelimit-reset-* headers that
+ * Groq and OpenAI send.
+ */
+export function getRetryAfterMs(headers: unknown): number | undefined {
+  const retryAfterMs = Number(getHeader(headers, "retry-after-ms"));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = getHeader(headers, "retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const resets = ["x-ratelimit-reset-requests", "x-ratelimit-reset-tokens"]
+    .map((name) => getHeader(headers, name))
+    .map((value) => (value ? parseDuration(value) : undefined))
+    .filter((ms): ms is number => ms !== undefined);
+
+  return resets.length > 0 ? Math.max(...resets) : undefined;
+}
+
+function getErrorKind(error: Record<string, unknown>, status?: number): LlmErrorKind {
+  if (error.lc_error_code === "MODEL_RATE_LIMIT") return "rate_limit";
+  if (error.lc_error_code === "MODEL_AUTHENTICATION") return "auth";
+  if (status) return getErrorKindForStatus(status);
+
+  // SDK errors keep the default name, so check their class too
+  const names = [String(error.name ?? ""), error.constructor?.name ?? ""];
+  const message = String(error.message ?? "");
+  if (
+    names.includes("TimeoutError") ||
+    names.includes("APIConnectionTimeoutError") ||
+    /timed? ?out/i.test(message)
+  ) {
+    return "timeout";
+  }
+  if (
+    names.includes("APIConnectionError") ||
+    NETWORK_ERROR_CODES.includes(String(error.code ?? "")) ||
+    /fetch failed|socket hang up|network|connection error/i.test(message)
+  ) {
+    return "unavailable";
+  }
+  return "unknown";
+}
+
+/**
+ * Classify anything a model call threw
+ */
+export function toLlmError(error: unknown, spec?: ModelSpec): LlmError {
+  const model = spec ? `${spec.provider}:${spec.model}` : undefined;
+
+  if (error instanceof LlmError) {
+    error.model ??= model;
+    return error;
+  }
+
+  const fields = (error && typeof error === "object" ? error : {}) as Record<string, unknown>;
+  const response = fields.response as Record<string, unknown> | undefined;
+  const status = [fields.status, fields.statusCode, response?.status].find(
+    (value): value is number => typeof value === "number"
+  );
+  const kind = getErrorKind(fields, status);
+  const message = error instanceof Error ? error.message : String(error);
+
+  return new LlmError(`${model ?? "Model"} failed (${kind}): ${message}`, {
+    kind,
+    model,
+    providerStatus: status,
+    retryAfterMs: getRetryAfterMs(fields.headers ?? response?.headers),
+    cause: error,
+  });
+}
+
+/**
+ * Find a model error in an error or its causes
+ *
+ * Graph nodes and tools can wrap the error a model call threw, so the
+ * routes look through the cause chain before answering.
+ */
+export function findLlmError(error: unknown): LlmError | undefined {
+  let current = error;
+  for (let depth = 0; current && depth < 5; depth++) {
+    if (current instanceof LlmError) {
+      return current;
+    }
+    current = (current as { cause?: unknown }).cause;
+  }
+  return undefined;
+}
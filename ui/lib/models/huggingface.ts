@@ -0,0 +1,78 @@
+import { SimpleChatModel } from "@langchain/core/language_models/chat_models";
+import { BaseMessage } from "@langchain/core/messages";
+import { LlmError, getErrorKindForStatus, getRetryAfterMs } from "./errors";
+
+/**
+ * HuggingFace Generate Endpoint Chat Model
+ *
+ * Wraps our custom HuggingFace API (see TODO.md), which takes a single
+ * `{ prompt }` and returns `{ response | text | generated_text }`.
+ * The conversation is flattened into a "Human: / Assistant:" transcript.
+ *
+ * This endpoint has no native tool calling.
+ */
+
+const DEFAULT_API_URL = "https://hugging-niskumar-api.vercel.app/api/generate";
+
+interface HuggingFaceGenerateResponse {
+  response?: string;
+  text?: string;
+  generated_text?: string;
+}
+
+function formatPrompt(messages: BaseMessage[]): string {
+  const turns = messages.map((m) => {
+    const content = typeof m.content === "string" ? m.content : JSON.stringify(m.content);
+    switch (m._getType()) {
+      case "system":
+        return content;
+      case "human":
+        return `Human: ${content}`;
+      case "tool":
+        return `Tool result: ${content}`;
+      default:
+        return `Assistant: ${content}`;
+    }
+  });
+
+  return turns.join("\n\n") + "\n\nAssistant:";
+}
+
+export class HuggingFaceGenerateChat extends SimpleChatModel {
+  apiUrl: string;
+
+  constructor(fields: { apiUrl?: string } = {}) {
+    super({});
+    this.apiUrl = fields.apiUrl || process.env.HUGGINGFACE_API_URL || DEFAULT_API_URL;
+  }
+
+  _llmType(): string {
+    return "huggingface-generate";
+  }
+
+  async _call(messages: BaseMessage[], options: this["ParsedCallOptions"]): Promise<string> {
+    const response = await fetch(this.apiUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ prompt: formatPrompt(messages) }),
+      signal: options.signal,
+    });
+
+    if (!response.ok) {
+      throw new LlmError(`HuggingFace API error: ${response.status} ${response.statusText}`, {
+        kind: getErrorKindForStatus(response.status),
+        providerStatus: response.status,
+        retryAfterMs: getRetryAfterMs(response.headers),
+      });
+    }
+
+    const data: HuggingFaceGenerateResponse = await response.json();
+    const text = data.response ?? data.text ?? data.generated_text;
+
+    if (typeof text !== "string") {
+      throw new Error("HuggingFace API returned no text");
+    }
+
+    return text.trim();
+  }
+}
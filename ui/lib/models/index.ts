@@ -0,0 +1,30 @@
+/**
+ * Model Provider Registry Module
+ *
+ * Usage:
+ * ```typescript
+ * import { getModel } from "@/lib/models";
+ *
+ * const grader = getModel("grader");
+ * const chat = getModel("chat", { chat: "openai:gpt-4o-mini" });
+ * ```
+ */
+
+export * from "./types";
+export {
+  getModel,
+  getModelForConfig,
+  getModelOverrides,
+  resolveModelSpec,
+  resolveFallbackSpecs,
+  parseModelSpec,
+  validateModelOverrides,
+  createModel,
+} from "./registry";
+export { HuggingFaceGenerateChat } from "./huggingface";
+export { PromptToolCallingChatModel, PROMPT_TOOL_CALLING_TAG } from "./promptToolCalling";
+export { ScriptedChatModel, loadScript, type ScriptEntry } from "./scripted";
+export { RecordingChatModel, getFixtureMode, getFixturesDir, hashRequest } from "./recording";
+export { RedactingChatModel } from "./redaction";
+export { ResilientChatModel, getResilienceSettings, type ResilientCandidate } from "./resilience";
+export { LlmError, toLlmError, findLlmError, getErrorKindForStatus, getRetryAfterMs } from "./errors";
@@ -0,0 +1,269 @@
+import { randomUUID } from "crypto";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  BaseChatModel,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  isAIMessage,
+  isToolMessage,
+  type UsageMetadata,
+} from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { ToolCall } from "@langchain/core/messages/tool";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+import { interopSafeParse, isInteropZodSchema } from "@langchain/core/utils/types";
+import { getChildCallbacks } from "./resilience";
+
+/**
+ * Prompt-based Tool Calling Adapter
+ *
+ * Presents a text-only chat model (like our HuggingFace generate endpoint)
+ * as a tool-calling model, so it can drive createReactAgent:
+ *
+ * 1. The tool schemas are taught in a system prompt
+ * 2. The model answers with <tool>{"name": ..., "args": {...}}</tool> blocks
+ * 3. Each block is parsed and validated against the tool's zod schema
+ * 4. Malformed JSON or invalid args trigger a re-prompt with the error
+ *
+ * Tool results are fed back as plain text, since the wrapped model
+ * doesn't understand tool messages.
+ */
+
+const TOOL_BLOCK_PATTERN = /<tool>([\s\S]*?)<\/tool>/g;
+
+/**
+ * Tag on the wrapped model's runs while tools are bound, so streams can
+ * skip their raw <tool> blocks
+ */
+export const PROMPT_TOOL_CALLING_TAG = "prompt_tool_calling";
+
+const DEFAULT_MAX_RETRIES = 2;
+
+interface PromptTool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  schema?: unknown; // zod schema used for validation, when available
+}
+
+interface ParsedToolCalls {
+  text: string;
+  toolCalls: ToolCall[];
+  errors: string[];
+}
+
+function toPromptTool(tool: BindToolsInput): PromptTool {
+  const { function: fn } = convertToOpenAITool(tool);
+  const schema = (tool as { schema?: unknown }).schema;
+
+  return {
+    name: fn.name,
+    description: fn.description ?? "",
+    parameters: fn.parameters as Record<string, unknown>,
+    schema: isInteropZodSchema(schema) ? schema : undefined,
+  };
+}
+
+/**
+ * Token usage of all the attempts behind one answer
+ */
+function addUsage(total?: UsageMetadata, usage?: UsageMetadata): UsageMetadata | undefined {
+  if (!usage || !total) {
+    return usage ?? total;
+  }
+  return {
+    input_tokens: total.input_tokens + usage.input_tokens,
+    output_tokens: total.output_tokens + usage.output_tokens,
+    total_tokens: total.total_tokens + usage.total_tokens,
+  };
+}
+
+function contentToString(content: BaseMessage["content"]): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+/**
+ * Build the system prompt that teaches the tool-call format
+ */
+function buildToolPrompt(tools: PromptTool[]): string {
+  const toolDescriptions = tools
+    .map(
+      (t) => `- ${t.name}: ${t.description}\n  Arguments (JSON schema): ${JSON.stringify(t.parameters)}`
+    )
+    .join("\n");
+
+  return `You have access to the following tools:
+
+${toolDescriptions}
+
+When you need to use a tool, respond with one block per call:
+<tool>{"name": "tool_name", "args": {...}}</tool>
+
+Rules:
+- The content of each <tool> block must be valid JSON with "name" and "args"
+- "args" must match the tool's JSON schema
+- After a tool call, stop and wait: the result will be sent back to you
+- When you can answer without a tool, reply normally with no <tool> blocks`;
+}
+
+/**
+ * Rewrite tool calls and tool results as plain text for a text-only model
+ */
+function toTextOnlyMessages(messages: BaseMessage[], toolPrompt: string): BaseMessage[] {
+  const systemText = messages
+    .filter((m) => m._getType() === "system")
+    .map((m) => contentToString(m.content));
+
+  const converted: BaseMessage[] = [
+    new SystemMessage([...systemText, toolPrompt].join("\n\n")),
+  ];
+
+  for (const message of messages) {
+    if (message._getType() === "system") {
+      continue;
+    }
+
+    if (isAIMessage(message) && message.tool_calls?.length) {
+      const calls = message.tool_calls
+        .map((call) => `<tool>${JSON.stringify({ name: call.name, args: call.args })}</tool>`)
+        .join("\n");
+      converted.push(new AIMessage([contentToString(message.content), calls].filter(Boolean).join("\n")));
+    } else if (isToolMessage(message)) {
+      converted.push(
+        new HumanMessage(
+          `<tool_result name="${message.name ?? "tool"}">\n${contentToString(message.content)}\n</tool_result>`
+        )
+      );
+    } else {
+      converted.push(message);
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Extract and validate <tool> blocks from a model response
+ */
+function parseToolCalls(text: string, tools: PromptTool[]): ParsedToolCalls {
+  const toolCalls: ToolCall[] = [];
+  const errors: string[] = [];
+
+  for (const match of text.matchAll(TOOL_BLOCK_PATTERN)) {
+    let parsed: { name?: unknown; args?: unknown };
+    try {
+      parsed = JSON.parse(match[1].trim());
+    } catch (error) {
+      errors.push(`Invalid JSON in <tool> block: ${(error as Error).message}`);
+      continue;
+    }
+
+    const tool = tools.find((t) => t.name === parsed.name);
+    if (!tool) {
+      errors.push(
+        `Unknown tool "${String(parsed.name)}". Available tools: ${tools.map((t) => t.name).join(", ")}`
+      );
+      continue;
+    }
+
+    let args = (parsed.args ?? {}) as Record<string, unknown>;
+    if (tool.schema) {
+      const result = interopSafeParse(tool.schema as Parameters<typeof interopSafeParse>[0], args);
+      if (!result.success) {
+        errors.push(`Invalid arguments for "${tool.name}": ${result.error.message}`);
+        continue;
+      }
+      args = result.data as Record<string, unknown>;
+    }
+
+    toolCalls.push({
+      id: `call_${randomUUID()}`,
+      name: tool.name,
+      args,
+      type: "tool_call",
+    });
+  }
+
+  return {
+    text: text.replace(TOOL_BLOCK_PATTERN, "").trim(),
+    toolCalls,
+    errors,
+  };
+}
+
+export class PromptToolCallingChatModel extends BaseChatModel {
+  model: BaseChatModel;
+  tools: PromptTool[];
+  maxRetries: number;
+
+  constructor(fields: { model: BaseChatModel; tools?: PromptTool[]; maxRetries?: number }) {
+    super({});
+    this.model = fields.model;
+    this.tools = fields.tools ?? [];
+    this.maxRetries = fields.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  _llmType(): string {
+    return "prompt-tool-calling";
+  }
+
+  bindTools(tools: BindToolsInput[]): PromptToolCallingChatModel {
+    return new PromptToolCallingChatModel({
+      model: this.model,
+      tools: tools.map(toPromptTool),
+      maxRetries: this.maxRetries,
+    });
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    // The inner calls run under this one, so they can be cancelled and
+    // show up in usage, traces and steps
+    const callOptions = { signal: options.signal, callbacks: getChildCallbacks(runManager) };
+
+    // Without tools there is nothing to adapt
+    if (this.tools.length === 0) {
+      const response = await this.model.invoke(messages, callOptions);
+      return { generations: [{ message: response, text: contentToString(response.content) }] };
+    }
+
+    const taggedCallOptions = { ...callOptions, tags: [PROMPT_TOOL_CALLING_TAG] };
+
+    const prompt = toTextOnlyMessages(messages, buildToolPrompt(this.tools));
+    let text = "";
+    let usage: UsageMetadata | undefined;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      const response = await this.model.invoke(prompt, taggedCallOptions);
+      text = contentToString(response.content);
+      usage = addUsage(usage, response.usage_metadata);
+
+      const parsed = parseToolCalls(text, this.tools);
+
+      if (parsed.errors.length === 0) {
+        const message = new AIMessage({ content: parsed.text, tool_calls: parsed.toolCalls, usage_metadata: usage });
+        return { generations: [{ message, text: parsed.text }] };
+      }
+
+      // Re-prompt with the validation errors so the model can fix its call
+      prompt.push(
+        new AIMessage(text),
+        new HumanMessage(
+          `Your tool call could not be used:\n${parsed.errors.map((e) => `- ${e}`).join("\n")}\n\nPlease respond again using valid <tool> blocks, or answer directly.`
+        )
+      );
+    }
+
+    // Out of retries: fall back to the plain text answer
+    const fallback = text.replace(TOOL_BLOCK_PATTERN, "").trim();
+    return { generations: [{ message: new AIMessage({ content: fallback, usage_metadata: usage }), text: fallback }] };
+  }
+}
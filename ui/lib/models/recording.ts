@@ -0,0 +1,253 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { Runnable } from "@langchain/core/runnables";
+import {
+  AIMessage,
+  BaseMessage,
+  isAIMessage,
+  isToolMessage,
+} from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+import { numberPlaceholders, replacePlaceholders } from "../guardrails/pii";
+import { getChildCallbacks } from "./resilience";
+import { FixtureMode, LlmFixture, ModelSpec } from "./types";
+
+/**
+ * Record and Replay of Model Calls
+ *
+ * With LLM_FIXTURES=record every model call goes to the provider as usual
+ * and the request and response are saved to LLM_FIXTURES_DIR (default:
+ * .data/llm-fixtures) as <hash>.json, where the hash covers the model,
+ * its sampling parameters, the prompt messages and the bound tools.
+ *
+ * With LLM_FIXTURES=replay the same requests are answered from those
+ * files without touching the network, so a recorded chat session or
+ * research run can be re-executed offline. Calls are matched by hash,
+ * not by order, so parallel calls (like research grading) replay fine.
+ * A request without a fixture fails with its hash and the file it
+ * looked for.
+ *
+ * Message ids are left out of the hash, since LangGraph assigns new ones
+ * on every run. PII placeholders are numbered within each request (see
+ * numberPlaceholders) in both the request and the response, so a fixture
+ * matches however many values the PII vault held when it was recorded.
+ */
+
+const FIXTURE_MODES: FixtureMode[] = ["off", "record", "replay"];
+
+const DEFAULT_FIXTURES_DIR = path.join(process.cwd(), ".data", "llm-fixtures");
+
+/**
+ * Read the fixture mode from LLM_FIXTURES
+ */
+export function getFixtureMode(): FixtureMode {
+  const mode = (process.env.LLM_FIXTURES || "off") as FixtureMode;
+  if (!FIXTURE_MODES.includes(mode)) {
+    throw new Error(`Unknown LLM_FIXTURES mode "${mode}". Use one of: ${FIXTURE_MODES.join(", ")}`);
+  }
+  return mode;
+}
+
+/**
+ * Directory the fixture files are read from and written to
+ */
+export function getFixturesDir(): string {
+  return process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+}
+
+function serializeMessage(message: BaseMessage): Record<string, unknown> {
+  const entry: Record<string, unknown> = {
+    role: message._getType(),
+    content: message.content,
+  };
+  if (message.name) {
+    entry.name = message.name;
+  }
+  if (isAIMessage(message) && message.tool_calls?.length) {
+    entry.toolCalls = message.tool_calls.map(({ id, name, args }) => ({ id, name, args }));
+  }
+  if (isToolMessage(message)) {
+    entry.toolCallId = message.tool_call_id;
+  }
+  return entry;
+}
+
+/**
+ * A copy of a fixture part with its placeholders swapped
+ */
+function withPlaceholders<T>(value: T, replacements: Map<string, string>): T {
+  if (value === undefined || replacements.size === 0) {
+    return value;
+  }
+  return JSON.parse(replacePlaceholders(JSON.stringify(value), replacements));
+}
+
+/**
+ * Hash a request the way fixtures are keyed
+ */
+export function hashRequest(request: LlmFixture["request"]): string {
+  return createHash("sha256").update(JSON.stringify(request)).digest("hex");
+}
+
+export class RecordingChatModel extends BaseChatModel {
+  spec: ModelSpec;
+  mode: Exclude<FixtureMode, "off">;
+  fixturesDir: string;
+  /** The provider model; not needed for replay */
+  model?: BaseChatModel;
+  tools: Array<Record<string, unknown>>;
+  private boundModel?: Runnable<BaseLanguageModelInput, BaseMessage>;
+
+  constructor(fields: {
+    spec: ModelSpec;
+    mode: Exclude<FixtureMode, "off">;
+    model?: BaseChatModel;
+    fixturesDir?: string;
+    tools?: BindToolsInput[];
+  }) {
+    super({});
+    this.spec = fields.spec;
+    this.mode = fields.mode;
+    this.model = fields.model;
+    this.fixturesDir = fields.fixturesDir ?? getFixturesDir();
+    this.tools = (fields.tools ?? []).map(
+      (tool) => convertToOpenAITool(tool) as unknown as Record<string, unknown>
+    );
+
+    if (this.mode === "record" && !this.model) {
+      throw new Error("Recording needs a provider model to call");
+    }
+    this.boundModel =
+      this.model && fields.tools?.length ? this.model.bindTools?.(fields.tools) : this.model;
+  }
+
+  _llmType(): string {
+    return "recording";
+  }
+
+  /**
+   * Report the recorded provider and model, for usage accounting
+   */
+  getLsParams(options: this["ParsedCallOptions"]) {
+    return {
+      ...super.getLsParams(options),
+      ls_provider: this.spec.provider,
+      ls_model_name: this.spec.model,
+    };
+  }
+
+  bindTools(tools: BindToolsInput[]): RecordingChatModel {
+    const bound = new RecordingChatModel({
+      spec: this.spec,
+      mode: this.mode,
+      model: this.model,
+      fixturesDir: this.fixturesDir,
+      tools,
+    });
+    bound.callbacks = this.callbacks;
+    return bound;
+  }
+
+  private buildRequest(messages: BaseMessage[], options: BaseChatModelCallOptions): LlmFixture["request"] {
+    return {
+      model: `${this.spec.provider}:${this.spec.model}`,
+      temperature: this.spec.temperature,
+      maxTokens: this.spec.maxTokens,
+      messages: messages.map(serializeMessage),
+      tools: this.tools,
+      toolChoice: options.tool_choice,
+      stop: options.stop,
+    };
+  }
+
+  private fixturePath(hash: string): string {
+    return path.join(this.fixturesDir, `${hash}.json`);
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    const sent = this.buildRequest(messages, options);
+    const numbers = numberPlaceholders(JSON.stringify(sent));
+    const request = withPlaceholders(sent, numbers);
+    const hash = hashRequest(request);
+
+    const fixture = this.mode === "replay"
+      ? this.readFixture(hash)
+      : await this.record(hash, request, messages, options, numbers, runManager);
+
+    // Back to the placeholders of this request
+    const response = withPlaceholders(
+      fixture.response,
+      new Map([...numbers].map(([placeholder, numbered]) => [numbered, placeholder]))
+    );
+
+    const message = new AIMessage({
+      content: response.content as AIMessage["content"],
+      tool_calls: response.toolCalls?.map((call) => ({ ...call, type: "tool_call" as const })),
+      usage_metadata: response.usage,
+    });
+
+    return {
+      generations: [{ message, text: typeof message.content === "string" ? message.content : "" }],
+    };
+  }
+
+  private readFixture(hash: string): LlmFixture {
+    const file = this.fixturePath(hash);
+    if (!fs.existsSync(file)) {
+      throw new Error(
+        `No recorded response for ${this.spec.provider}:${this.spec.model} request ${hash} (${file}). Record it with LLM_FIXTURES=record.`
+      );
+    }
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  }
+
+  private async record(
+    hash: string,
+    request: LlmFixture["request"],
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    numbers: Map<string, string>,
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<LlmFixture> {
+    const response = await this.boundModel!.invoke(messages, {
+      stop: options.stop,
+      tool_choice: options.tool_choice,
+      signal: options.signal,
+      callbacks: getChildCallbacks(runManager),
+    } as BaseChatModelCallOptions);
+
+    const fixture: LlmFixture = {
+      hash,
+      recordedAt: new Date().toISOString(),
+      request,
+      response: withPlaceholders(
+        {
+          content: response.content,
+          toolCalls: isAIMessage(response)
+            ? response.tool_calls?.map(({ id, name, args }) => ({ id, name, args }))
+            : undefined,
+          usage: isAIMessage(response) ? response.usage_metadata : undefined,
+        },
+        numbers
+      ),
+    };
+
+    await fs.promises.mkdir(this.fixturesDir, { recursive: true });
+    await fs.promises.writeFile(this.fixturePath(hash), JSON.stringify(fixture, null, 2));
+
+    return fixture;
+  }
+}
@@ -0,0 +1,115 @@
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { Runnable } from "@langchain/core/runnables";
+import { BaseMessage, MessageContent } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { AsyncLocalStorageProviderSingleton } from "@langchain/core/singletons";
+import { createPiiVault, getThreadVault, redactPii, restorePii } from "../guardrails/pii";
+import type { PiiVault } from "../guardrails/types";
+import { getChildCallbacks } from "./resilience";
+
+/**
+ * PII Redaction for Model Calls
+ *
+ * Masks personal data (see lib/guardrails) in every message before it
+ * is sent, so the provider, fixtures, traces and usage records only see
+ * placeholders like [EMAIL_3f9a1c07b2d4]. The text of the answer has the
+ * placeholders restored for display; tool call arguments keep them, so
+ * tools search the masked study materials with masked queries.
+ *
+ * Calls made in a thread (configurable.thread_id of the run they are part
+ * of) use the thread's placeholders; other calls get placeholders of their
+ * own.
+ *
+ * Streamed tokens, tool calls and step traces get the placeholders
+ * restored too when streamAgent and the step collector show them.
+ */
+
+/**
+ * The vault of the thread the call runs in, or a new one
+ */
+function getCallVault(): PiiVault {
+  const threadId = AsyncLocalStorageProviderSingleton.getRunnableConfig()?.configurable?.thread_id;
+  return typeof threadId === "string" ? getThreadVault(threadId) : createPiiVault();
+}
+
+function redactContent(content: MessageContent, vault: PiiVault): MessageContent {
+  if (typeof content === "string") {
+    return redactPii(content, vault);
+  }
+  return content.map((part) =>
+    part.type === "text" && typeof part.text === "string" ? { ...part, text: redactPii(part.text, vault) } : part
+  ) as MessageContent;
+}
+
+/**
+ * A copy of the message with its content masked
+ */
+function redactMessage(message: BaseMessage, vault: PiiVault): BaseMessage {
+  const content = redactContent(message.content, vault);
+  if (content === message.content) {
+    return message;
+  }
+  return Object.assign(Object.create(Object.getPrototypeOf(message)), message, {
+    content,
+    lc_kwargs: { ...message.lc_kwargs, content },
+  });
+}
+
+export class RedactingChatModel extends BaseChatModel {
+  model: BaseChatModel;
+  private boundModel: Runnable<BaseLanguageModelInput, BaseMessage>;
+
+  constructor(fields: { model: BaseChatModel; tools?: BindToolsInput[] }) {
+    super({});
+    this.model = fields.model;
+
+    if (fields.tools?.length && !this.model.bindTools) {
+      throw new Error(`${this.model._llmType()} does not support tool calling`);
+    }
+    this.boundModel = fields.tools?.length ? this.model.bindTools!(fields.tools) : this.model;
+  }
+
+  _llmType(): string {
+    return "redacting";
+  }
+
+  /**
+   * Report the wrapped model's provider and model
+   */
+  getLsParams(options: this["ParsedCallOptions"]) {
+    return {
+      ...super.getLsParams(options),
+      ...this.model.getLsParams(options),
+    };
+  }
+
+  bindTools(tools: BindToolsInput[]): RedactingChatModel {
+    const bound = new RedactingChatModel({ model: this.model, tools });
+    bound.callbacks = this.callbacks;
+    return bound;
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    const vault = getCallVault();
+    const message = await this.boundModel.invoke(
+      messages.map((m) => redactMessage(m, vault)),
+      { ...options, callbacks: getChildCallbacks(runManager) } as BaseChatModelCallOptions
+    );
+
+    if (typeof message.content === "string") {
+      message.content = restorePii(message.content, vault);
+    }
+
+    return { generations: [{ message, text: typeof message.content === "string" ? message.content : "" }] };
+  }
+}
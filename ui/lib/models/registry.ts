@@ -0,0 +1,296 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { ChatGroq } from "@langchain/groq";
+import { ChatOpenAI } from "@langchain/openai";
+import { HuggingFaceGenerateChat } from "./huggingface";
+import { ScriptedChatModel, loadScript } from "./scripted";
+import { PromptToolCallingChatModel } from "./promptToolCalling";
+import { RecordingChatModel, getFixtureMode } from "./recording";
+import { ResilientChatModel } from "./resilience";
+import { RedactingChatModel } from "./redaction";
+import { getPiiTypes } from "../guardrails/pii";
+import { getUsageTracker } from "../usage";
+import { ModelRole, ModelProvider, ModelSpec, ModelOverrides, ModelSettings } from "./types";
+
+/**
+ * Model Provider Registry
+ *
+ * Resolves a model for each role from (highest priority first):
+ * 1. Per-request overrides, e.g. configurable.models.chat = "openai:gpt-4o-mini"
+ * 2. Role env vars: MODEL_CHAT, MODEL_PARSER, MODEL_GRADER, MODEL_SYNTHESIZER,
+ *    MODEL_SUMMARIZER, MODEL_SUPERVISOR
+ * 3. MODEL_DEFAULT
+ * 4. Groq llama-3.3-70b-versatile
+ *
+ * Spec strings look like "provider:model":
+ * - groq:llama-3.3-70b-versatile      (GROQ_API_KEY)
+ * - openai:gpt-4o-mini                (OPENAI_API_KEY, optional OPENAI_BASE_URL
+ *                                      for any OpenAI-compatible endpoint)
+ * - huggingface:generate              (HUGGINGFACE_API_URL)
+ * - fake                              (echoes; or fake:/path/to/script.json)
+ *
+ * Providers without native function calling are wrapped in the prompt-based
+ * tool calling adapter. Set PROMPT_TOOL_CALLING=true to force the adapter,
+ * e.g. for an OpenAI-compatible endpoint that lacks function calling.
+ *
+ * Set LLM_FIXTURES=record or replay to save every model call to fixture
+ * files, or to answer from them offline (see ./recording.ts).
+ *
+ * Provider calls are retried, timed out and guarded by a circuit breaker
+ * (see ./resilience.ts). Fallback models are tried in order when a model
+ * keeps failing: MODEL_<ROLE>_FALLBACKS for one role, MODEL_FALLBACKS
+ * for all of them, e.g. MODEL_FALLBACKS=openai:gpt-4o-mini,groq:llama-3.1-8b-instant
+ *
+ * Personal data in the prompts is masked before any of that, unless
+ * PII_REDACTION=off (see ./redaction.ts).
+ */
+
+const PROVIDERS: ModelProvider[] = ["groq", "openai", "huggingface", "fake"];
+
+const DEFAULT_MODEL = "groq:llama-3.3-70b-versatile";
+
+const NATIVE_TOOL_CALLING: Record<ModelProvider, boolean> = {
+  groq: true,
+  openai: true,
+  huggingface: false,
+  fake: true, // The script decides the tool calls
+};
+
+/**
+ * Role defaults: deterministic roles run at temperature 0
+ */
+const ROLE_TEMPERATURES: Record<ModelRole, number | undefined> = {
+  chat: undefined,
+  parser: 0, // Deterministic for consistent parsing
+  grader: 0, // Deterministic for grading
+  synthesizer: 0.7,
+  summarizer: 0, // Summaries should stick to what was said
+  supervisor: 0, // Deterministic routing
+};
+
+const ROLE_ENV_VARS: Record<ModelRole, string> = {
+  chat: "MODEL_CHAT",
+  parser: "MODEL_PARSER",
+  grader: "MODEL_GRADER",
+  synthesizer: "MODEL_SYNTHESIZER",
+  summarizer: "MODEL_SUMMARIZER",
+  supervisor: "MODEL_SUPERVISOR",
+};
+
+// Cache instances so repeated lookups don't rebuild clients
+const modelCache = new Map<string, BaseChatModel>();
+
+/**
+ * Parse a "provider:model" string into a ModelSpec
+ */
+export function parseModelSpec(value: string): ModelSpec {
+  const separator = value.indexOf(":");
+  const provider = (separator === -1 ? value : value.slice(0, separator)) as ModelProvider;
+  const model = separator === -1 ? "" : value.slice(separator + 1);
+
+  if (!PROVIDERS.includes(provider)) {
+    throw new Error(
+      `Unknown model provider "${provider}". Use one of: ${PROVIDERS.join(", ")}`
+    );
+  }
+
+  if (!model && provider !== "fake") {
+    throw new Error(`Model spec "${value}" is missing a model name (expected "provider:model")`);
+  }
+
+  return { provider, model };
+}
+
+/**
+ * Check per-request overrides before running anything
+ *
+ * @returns An error message, or null if the overrides are valid
+ */
+export function validateModelOverrides(overrides: unknown): string | null {
+  if (overrides === undefined) {
+    return null;
+  }
+  if (typeof overrides !== "object" || overrides === null) {
+    return "models must be an object mapping roles to \"provider:model\" strings";
+  }
+
+  for (const [role, value] of Object.entries(overrides)) {
+    if (!(role in ROLE_ENV_VARS)) {
+      return `Unknown model role "${role}". Use one of: ${Object.keys(ROLE_ENV_VARS).join(", ")}`;
+    }
+    if (typeof value !== "string") {
+      return `Model for role "${role}" must be a "provider:model" string`;
+    }
+    try {
+      parseModelSpec(value);
+    } catch (error) {
+      return (error as Error).message;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Work out which model a role should use
+ */
+export function resolveModelSpec(role: ModelRole, overrides?: ModelOverrides): ModelSpec {
+  const value =
+    overrides?.[role] ||
+    process.env[ROLE_ENV_VARS[role]] ||
+    process.env.MODEL_DEFAULT ||
+    DEFAULT_MODEL;
+
+  return {
+    ...parseModelSpec(value),
+    temperature: ROLE_TEMPERATURES[role],
+  };
+}
+
+/**
+ * Work out which models a role falls back to, with the role's sampling settings
+ */
+export function resolveFallbackSpecs(role: ModelRole, spec: ModelSpec): ModelSpec[] {
+  const value = process.env[`${ROLE_ENV_VARS[role]}_FALLBACKS`] ?? process.env.MODEL_FALLBACKS ?? "";
+
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => ({
+      ...parseModelSpec(entry),
+      temperature: spec.temperature,
+      maxTokens: spec.maxTokens,
+    }))
+    .filter((fallback) => fallback.provider !== spec.provider || fallback.model !== spec.model);
+}
+
+/**
+ * Create a chat model client for a spec
+ *
+ * @param spec - The model to call
+ * @param fallbacks - Models to try in order when it keeps failing
+ */
+export function createModel(spec: ModelSpec, fallbacks: ModelSpec[] = []): BaseChatModel {
+  const model = createUnredactedModel(spec, fallbacks);
+  return getPiiTypes().length > 0 ? new RedactingChatModel({ model }) : model;
+}
+
+function createUnredactedModel(spec: ModelSpec, fallbacks: ModelSpec[]): BaseChatModel {
+  const mode = getFixtureMode();
+  if (mode === "off") {
+    return createResilientModel(spec, fallbacks, true);
+  }
+
+  // Replay never creates the provider client, so it needs no API key
+  const model = new RecordingChatModel({
+    spec,
+    mode,
+    model: mode === "record" ? createResilientModel(spec, fallbacks, false) : undefined,
+  });
+
+  // Usage comes from the recorded response, attributed with the run's metadata
+  model.callbacks = [getUsageTracker()];
+
+  return model;
+}
+
+function createResilientModel(spec: ModelSpec, fallbacks: ModelSpec[], trackUsage: boolean): BaseChatModel {
+  return new ResilientChatModel({
+    candidates: [spec, ...fallbacks].map((candidate) => ({
+      spec: candidate,
+      model: createLiveModel(candidate, trackUsage),
+    })),
+  });
+}
+
+function createLiveModel(spec: ModelSpec, trackUsage: boolean): BaseChatModel {
+  const model = createProviderModel(spec);
+
+  // Record the token usage of every call (on the provider model, so an
+  // adapter wrapped around it doesn't count its calls twice)
+  if (trackUsage) {
+    model.callbacks = [getUsageTracker()];
+  }
+
+  if (!NATIVE_TOOL_CALLING[spec.provider] || process.env.PROMPT_TOOL_CALLING === "true") {
+    return new PromptToolCallingChatModel({ model });
+  }
+
+  return model;
+}
+
+function createProviderModel(spec: ModelSpec): BaseChatModel {
+  switch (spec.provider) {
+    case "groq":
+      return new ChatGroq({
+        model: spec.model,
+        temperature: spec.temperature,
+        maxTokens: spec.maxTokens,
+        maxRetries: 0, // Retries are handled by ResilientChatModel
+      });
+    case "openai":
+      return new ChatOpenAI({
+        model: spec.model,
+        temperature: spec.temperature,
+        maxTokens: spec.maxTokens,
+        maxRetries: 0,
+        configuration: process.env.OPENAI_BASE_URL
+          ? { baseURL: process.env.OPENAI_BASE_URL }
+          : undefined,
+      });
+    case "huggingface":
+      return new HuggingFaceGenerateChat();
+    case "fake":
+      return new ScriptedChatModel({
+        script: spec.model ? loadScript(spec.model) : [],
+      });
+  }
+}
+
+/**
+ * Get the model for a role
+ *
+ * @param role - What the model is used for
+ * @param overrides - Optional per-request model choices
+ * @param settings - Optional sampling parameters replacing the role defaults
+ */
+export function getModel(
+  role: ModelRole,
+  overrides?: ModelOverrides,
+  settings?: ModelSettings
+): BaseChatModel {
+  const spec = { ...resolveModelSpec(role, overrides), ...settings };
+  const fallbacks = resolveFallbackSpecs(role, spec);
+  const key = [
+    role,
+    ...[spec, ...fallbacks].map((s) => `${s.provider}:${s.model}`),
+    spec.temperature ?? "",
+    spec.maxTokens ?? "",
+  ].join("|");
+
+  let model = modelCache.get(key);
+  if (!model) {
+    model = createModel(spec, fallbacks);
+    modelCache.set(key, model);
+  }
+
+  return model;
+}
+
+/**
+ * Read per-request model overrides from a LangGraph/LangChain run config
+ */
+export function getModelOverrides(config?: RunnableConfig): ModelOverrides | undefined {
+  return config?.configurable?.models;
+}
+
+/**
+ * Get the model for a role, honouring overrides passed through the run config
+ *
+ * Graph nodes and tools receive the run config, so this lets a single
+ * request pick different models without threading extra arguments.
+ */
+export function getModelForConfig(role: ModelRole, config?: RunnableConfig): BaseChatModel {
+  return getModel(role, getModelOverrides(config));
+}
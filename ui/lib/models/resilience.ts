@@ -0,0 +1,328 @@
+import type { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import { CallbackManager, CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { Runnable } from "@langchain/core/runnables";
+import { BaseMessage } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { LlmError, toLlmError } from "./errors";
+import { ModelSpec, ResilienceSettings } from "./types";
+
+/**
+ * Resilient Model Calls
+ *
+ * Wraps a model and its fallbacks so every call:
+ *
+ * 1. Is cut off after LLM_TIMEOUT_MS (default 60s)
+ * 2. Is retried up to LLM_MAX_RETRIES times (default 2) on rate limits,
+ *    timeouts and 5xx/network errors, with exponential backoff from
+ *    LLM_RETRY_BASE_MS (default 500ms). A rate-limit response's
+ *    retry-after or x-ratelimit-reset headers replace the backoff; if
+ *    they ask for more than LLM_RETRY_MAX_MS (default 30s) the model is
+ *    given up on right away.
+ * 3. Skips a model whose circuit is open: after LLM_CIRCUIT_THRESHOLD
+ *    (default 5) failures in a row it is left alone for
+ *    LLM_CIRCUIT_RESET_MS (default 30s), then one call is let through
+ *    to probe it.
+ * 4. Moves on to the next model in the fallback list when a model is
+ *    exhausted, unavailable or misconfigured.
+ *
+ * When every model fails, the last LlmError is thrown.
+ *
+ * Each attempt runs as a child model run, so traces show the retries
+ * and usage is recorded for the model that actually answered.
+ */
+
+export interface ResilientCandidate {
+  spec: ModelSpec;
+  model: BaseChatModel;
+}
+
+interface CircuitState {
+  failures: number;
+  openedAt?: number;
+}
+
+const DEFAULT_SETTINGS: ResilienceSettings = {
+  timeoutMs: 60_000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  circuitThreshold: 5,
+  circuitResetMs: 30_000,
+};
+
+const SETTINGS_ENV_VARS: Record<keyof ResilienceSettings, string> = {
+  timeoutMs: "LLM_TIMEOUT_MS",
+  maxRetries: "LLM_MAX_RETRIES",
+  baseDelayMs: "LLM_RETRY_BASE_MS",
+  maxDelayMs: "LLM_RETRY_MAX_MS",
+  circuitThreshold: "LLM_CIRCUIT_THRESHOLD",
+  circuitResetMs: "LLM_CIRCUIT_RESET_MS",
+};
+
+/**
+ * Global singleton for the circuit breakers, keyed by "provider:model"
+ * Using globalThis ensures every API route sees the same failures
+ */
+const globalForCircuits = globalThis as unknown as {
+  llmCircuits: Map<string, CircuitState> | undefined;
+};
+
+function getCircuits(): Map<string, CircuitState> {
+  if (!globalForCircuits.llmCircuits) {
+    globalForCircuits.llmCircuits = new Map();
+  }
+  return globalForCircuits.llmCircuits;
+}
+
+/**
+ * Read the resilience settings from the LLM_* env vars
+ */
+export function getResilienceSettings(): ResilienceSettings {
+  const settings = { ...DEFAULT_SETTINGS };
+  for (const [key, envVar] of Object.entries(SETTINGS_ENV_VARS) as Array<[keyof ResilienceSettings, string]>) {
+    const value = Number(process.env[envVar]);
+    if (process.env[envVar] && Number.isFinite(value) && value >= 0) {
+      settings[key] = value;
+    }
+  }
+  return settings;
+}
+
+function specKey(spec: ModelSpec): string {
+  return `${spec.provider}:${spec.model}`;
+}
+
+function isCircuitOpen(key: string, settings: ResilienceSettings): boolean {
+  const circuit = getCircuits().get(key);
+  if (!circuit?.openedAt) {
+    return false;
+  }
+  if (Date.now() - circuit.openedAt < settings.circuitResetMs) {
+    return true;
+  }
+
+  // Half-open: let this call probe the model; one more failure reopens it
+  circuit.openedAt = undefined;
+  circuit.failures = settings.circuitThreshold - 1;
+  return false;
+}
+
+function recordOutcome(key: string, settings: ResilienceSettings, error?: LlmError): void {
+  const circuits = getCircuits();
+  if (!error) {
+    circuits.delete(key);
+    return;
+  }
+  // Rejected requests say nothing about the model's health
+  if (error.kind === "invalid_request") {
+    return;
+  }
+
+  const circuit = circuits.get(key) ?? { failures: 0 };
+  circuit.failures += 1;
+  if (circuit.failures >= settings.circuitThreshold) {
+    circuit.openedAt = Date.now();
+    console.warn(`[Models] Circuit opened for ${key} after ${circuit.failures} failures`);
+  }
+  circuits.set(key, circuit);
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffMs(attempt: number, settings: ResilienceSettings): number {
+  const ceiling = Math.min(settings.maxDelayMs, settings.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Callbacks for a model call made inside another model's run
+ *
+ * Model run managers have no getChild(), so this builds the manager that
+ * chain runs hand their children: the inherited handlers, tags and
+ * metadata, with this run as the parent. Tags matter here, since the
+ * stream filters hidden model calls (summaries, routing) by them.
+ * Shared with the other wrappers that call a model inside their run.
+ */
+export function getChildCallbacks(runManager?: CallbackManagerForLLMRun): CallbackManager | undefined {
+  if (!runManager) {
+    return undefined;
+  }
+
+  const run = runManager as unknown as {
+    inheritableHandlers: BaseCallbackHandler[];
+    inheritableTags: string[];
+    inheritableMetadata: Record<string, unknown>;
+  };
+  const manager = new CallbackManager(runManager.runId);
+  manager.setHandlers(run.inheritableHandlers);
+  manager.addTags(run.inheritableTags);
+  manager.addMetadata(run.inheritableMetadata);
+  return manager;
+}
+
+export class ResilientChatModel extends BaseChatModel {
+  candidates: ResilientCandidate[];
+  settings: ResilienceSettings;
+  private boundModels: Array<Runnable<BaseLanguageModelInput, BaseMessage>>;
+
+  constructor(fields: {
+    candidates: ResilientCandidate[];
+    settings?: ResilienceSettings;
+    tools?: BindToolsInput[];
+  }) {
+    super({});
+    this.candidates = fields.candidates;
+    this.settings = fields.settings ?? getResilienceSettings();
+
+    this.boundModels = this.candidates.map(({ spec, model }) => {
+      if (!fields.tools?.length) {
+        return model;
+      }
+      if (!model.bindTools) {
+        throw new Error(`${specKey(spec)} does not support tool calling`);
+      }
+      return model.bindTools(fields.tools);
+    });
+  }
+
+  _llmType(): string {
+    return "resilient";
+  }
+
+  /**
+   * Report the primary provider and model, like the model being wrapped
+   */
+  getLsParams(options: this["ParsedCallOptions"]) {
+    const { spec } = this.candidates[0];
+    return {
+      ...super.getLsParams(options),
+      ls_provider: spec.provider,
+      ls_model_name: spec.model,
+    };
+  }
+
+  bindTools(tools: BindToolsInput[]): ResilientChatModel {
+    const bound = new ResilientChatModel({
+      candidates: this.candidates,
+      settings: this.settings,
+      tools,
+    });
+    bound.callbacks = this.callbacks;
+    return bound;
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<ChatResult> {
+    let lastError: LlmError | undefined;
+
+    for (const [index, { spec }] of this.candidates.entries()) {
+      const key = specKey(spec);
+
+      if (isCircuitOpen(key, this.settings)) {
+        lastError = new LlmError(`${key} is failing and was skipped (circuit open)`, {
+          kind: "circuit_open",
+          model: key,
+          retryAfterMs: this.settings.circuitResetMs,
+        });
+        continue;
+      }
+
+      for (let attempt = 0; attempt <= this.settings.maxRetries; attempt++) {
+        try {
+          const message = await this.attempt(index, messages, options, runManager);
+          recordOutcome(key, this.settings);
+          return { generations: [{ message, text: typeof message.content === "string" ? message.content : "" }] };
+        } catch (error) {
+          // The caller gave up; don't retry or fall back
+          if (options.signal?.aborted) {
+            throw error;
+          }
+
+          lastError = toLlmError(error, spec);
+          recordOutcome(key, this.settings, lastError);
+
+          const delay = lastError.retryAfterMs ?? getBackoffMs(attempt, this.settings);
+          if (
+            !lastError.retryable ||
+            attempt === this.settings.maxRetries ||
+            delay > this.settings.maxDelayMs ||
+            isCircuitOpen(key, this.settings)
+          ) {
+            break;
+          }
+
+          console.warn(`[Models] ${lastError.message}; retrying in ${delay}ms`);
+          await sleep(delay, options.signal);
+        }
+      }
+
+      if (index < this.candidates.length - 1) {
+        console.warn(`[Models] Falling back from ${key} to ${specKey(this.candidates[index + 1].spec)}`);
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * One call to one candidate, cut off after the timeout
+   *
+   * The abort signal stops provider SDKs that honour it; the race covers
+   * models that don't.
+   */
+  private async attempt(
+    index: number,
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): Promise<BaseMessage> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    options.signal?.addEventListener("abort", abort, { once: true });
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(
+          new LlmError(
+            `${specKey(this.candidates[index].spec)} timed out after ${this.settings.timeoutMs}ms`,
+            { kind: "timeout" }
+          )
+        );
+      }, this.settings.timeoutMs);
+    });
+
+    try {
+      const call = this.boundModels[index].invoke(messages, {
+        ...options,
+        signal: controller.signal,
+        callbacks: getChildCallbacks(runManager),
+      } as BaseChatModelCallOptions);
+      return await Promise.race([call, timeout]);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", abort);
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import fs from "fs";
+import { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, ChatResult } from "@langchain/core/outputs";
+
+/**
+ * Scripted Fake Chat Model
+ *
+ * Plays back a fixed script of responses so the app can run fully offline.
+ * Script entries are either plain strings or AI turns with tool calls:
+ *
+ * ```json
+ * [
+ *   { "content": "", "toolCalls": [{ "name": "get_weather", "args": { "city": "Tokyo" } }] },
+ *   "It's sunny in Tokyo!"
+ * ]
+ * ```
+ *
+ * Entries are consumed in order and the script loops when it runs out.
+ * With an empty script the model just echoes the last human message.
+ */
+
+export type ScriptEntry =
+  | string
+  | {
+      content?: string;
+      toolCalls?: Array<{ name: string; args: Record<string, unknown> }>;
+    };
+
+/**
+ * Load a script from a JSON file path
+ */
+export function loadScript(path: string): ScriptEntry[] {
+  return JSON.parse(fs.readFileSync(path, "utf-8"));
+}
+
+export class ScriptedChatModel extends BaseChatModel {
+  script: ScriptEntry[];
+  private position = 0;
+
+  constructor(fields: { script?: ScriptEntry[] } = {}) {
+    super({});
+    this.script = fields.script ?? [];
+  }
+
+  _llmType(): string {
+    return "scripted-fake";
+  }
+
+  /**
+   * Tools are ignored: the script already decides which tools get called
+   */
+  bindTools(): this {
+    return this;
+  }
+
+  private nextMessage(messages: BaseMessage[]): AIMessage {
+    if (this.script.length === 0) {
+      const lastHuman = [...messages].reverse().find((m) => m._getType() === "human");
+      return new AIMessage(`[fake] You said: ${lastHuman?.content ?? ""}`);
+    }
+
+    const entry = this.script[this.position % this.script.length];
+    this.position++;
+
+    if (typeof entry === "string") {
+      return new AIMessage(entry);
+    }
+
+    return new AIMessage({
+      content: entry.content ?? "",
+      tool_calls: (entry.toolCalls ?? []).map((call, i) => ({
+        id: `scripted_call_${this.position}_${i}`,
+        name: call.name,
+        args: call.args,
+        type: "tool_call" as const,
+      })),
+    });
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const message = this.nextMessage(messages);
+    return {
+      generations: [{ message, text: typeof message.content === "string" ? message.content : "" }],
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    _options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    const message = this.nextMessage(messages);
+    const text = typeof message.content === "string" ? message.content : "";
+
+    // Stream word by word so the UI behaves like it does with a real model
+    const words = text.split(/(?<=\s)/);
+    for (const word of words) {
+      const chunk = new ChatGenerationChunk({ text: word, message: new AIMessageChunk(word) });
+      yield chunk;
+      await runManager?.handleLLMNewToken(word, undefined, undefined, undefined, undefined, { chunk });
+    }
+
+    if (message.tool_calls?.length) {
+      yield new ChatGenerationChunk({
+        text: "",
+        message: new AIMessageChunk({
+          content: "",
+          tool_call_chunks: message.tool_calls.map((call, index) => ({
+            id: call.id,
+            name: call.name,
+            args: JSON.stringify(call.args),
+            index,
+            type: "tool_call_chunk" as const,
+          })),
+        }),
+      });
+    }
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * Types for the Model Provider Registry
+ *
+ * Every place that talks to an LLM asks the registry for a model
+ * by its role, so each role can run on a different provider/model.
+ */
+
+/**
+ * - chat: the ReAct agent that talks to the user
+ * - parser: turns math word problems into expressions
+ * - grader: scores research documents for relevance
+ * - synthesizer: writes research queries and the final synthesis
+ * - summarizer: condenses older conversation turns into a running summary
+ * - supervisor: decides which part of the system handles each chat turn
+ */
+export type ModelRole =
+  | "chat"
+  | "parser"
+  | "grader"
+  | "synthesizer"
+  | "summarizer"
+  | "supervisor";
+
+export type ModelProvider = "groq" | "openai" | "huggingface" | "fake";
+
+export interface ModelSpec extends ModelSettings {
+  provider: ModelProvider;
+  model: string;
+}
+
+/**
+ * Sampling parameters that can be tuned per caller, e.g. per persona
+ */
+export interface ModelSettings {
+  temperature?: number;
+  maxTokens?: number;
+}
+
+/**
+ * Per-request model choices, e.g. { chat: "openai:gpt-4o-mini" }
+ * Values use the same "provider:model" format as the MODEL_* env vars.
+ */
+export type ModelOverrides = Partial<Record<ModelRole, string>>;
+
+/**
+ * Why a model call failed:
+ * - rate_limit: the provider returned 429
+ * - timeout: no response within LLM_TIMEOUT_MS
+ * - unavailable: a 5xx response or a network error
+ * - auth: the API key was missing or rejected
+ * - invalid_request: the provider rejected the request itself (4xx)
+ * - circuit_open: the model failed too often recently and is being skipped
+ * - unknown: anything else the model threw
+ */
+export type LlmErrorKind =
+  | "rate_limit"
+  | "timeout"
+  | "unavailable"
+  | "auth"
+  | "invalid_request"
+  | "circuit_open"
+  | "unknown";
+
+/**
+ * How model calls are retried and guarded (see ./resilience.ts)
+ */
+export interface ResilienceSettings {
+  /** Time limit of a single attempt */
+  timeoutMs: number;
+  /** Retries per model after the first attempt */
+  maxRetries: number;
+  /** First backoff delay; doubled on each retry */
+  baseDelayMs: number;
+  /** Longest wait between retries; a longer rate-limit reset moves on to the fallbacks */
+  maxDelayMs: number;
+  /** Consecutive failures that open a model's circuit */
+  circuitThreshold: number;
+  /** How long an open circuit skips the model before letting one call through */
+  circuitResetMs: number;
+}
+
+/**
+ * How model calls use fixture files (LLM_FIXTURES):
+ * - off: call the provider
+ * - record: call the provider and save each request and response
+ * - replay: answer from the saved fixtures, never calling the provider
+ */
+export type FixtureMode = "off" | "record" | "replay";
+
+/**
+ * One recorded model call, stored as <hash>.json
+ */
+export interface LlmFixture {
+  /** SHA-256 of the request below */
+  hash: string;
+  recordedAt: string;
+  request: {
+    /** "provider:model" */
+    model: string;
+    temperature?: number;
+    maxTokens?: number;
+    messages: Array<Record<string, unknown>>;
+    tools: Array<Record<string, unknown>>;
+    toolChoice?: unknown;
+    stop?: string[];
+  };
+  response: {
+    content: unknown;
+    toolCalls?: Array<{ id?: string; name: string; args: Record<string, unknown> }>;
+    usage?: { input_tokens: number; output_tokens: number; total_tokens: number };
+  };
+}
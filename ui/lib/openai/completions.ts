@@ -0,0 +1,213 @@
+import { randomUUID } from "crypto";
+import {
+  invokeAgent,
+  streamAgent,
+  getPendingToolCall,
+  AgentRunOptions,
+} from "../agent";
+import type { PendingToolCall } from "../tools";
+import { getUsageRecords } from "../usage";
+import { findLlmError } from "../models";
+import { deleteThreadCheckpoints } from "../checkpointer";
+import {
+  getCompletionModel,
+  getRequestedTools,
+  getRequestRoute,
+  toLangChainMessages,
+} from "./request";
+import {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionError,
+  ChatCompletionRequest,
+  ChatCompletionUsage,
+  PendingApproval,
+} from "./types";
+
+/**
+ * Chat Completions
+ *
+ * Runs a chat completions request through the agent graph. Each request
+ * runs in a new thread whose id is the completion id; the client sends
+ * the whole conversation every time, so the thread is deleted once the
+ * completion is done. Its usage stays in /api/usage.
+ *
+ * Tools always run on the server. When one needs approval the run
+ * pauses and the completion ends with the non-OpenAI finish_reason
+ * "approval_required" and the pending call in `pending_approval`, not as
+ * OpenAI tool_calls, which clients would run themselves. The thread is
+ * kept so it can be resumed through POST /api/chat/resume with the
+ * completion id as threadId.
+ *
+ * Streams only send the answer: the tool agent's text is held back, since
+ * any of its steps may turn out to be a tool call, and its final answer is
+ * sent in one chunk when the run ends.
+ */
+
+const API_ROUTE = "/v1/chat/completions";
+
+/**
+ * Build an error body in the OpenAI format
+ */
+export function createCompletionError(
+  message: string,
+  type: ChatCompletionError["error"]["type"] = "invalid_request_error",
+  code: string | null = null
+): ChatCompletionError {
+  return { error: { message, type, param: null, code } };
+}
+
+function getRunOptions(request: ChatCompletionRequest): AgentRunOptions {
+  const model = getCompletionModel(request.model)!;
+  return {
+    route: API_ROUTE,
+    supervisorRoute: getRequestRoute(request, model),
+    tools: getRequestedTools(request),
+  };
+}
+
+function toPendingApproval(threadId: string, pending: PendingToolCall): PendingApproval {
+  return {
+    thread_id: threadId,
+    resume_url: "/api/chat/resume",
+    tool_call: { id: pending.toolCallId, name: pending.name, arguments: pending.args },
+  };
+}
+
+/**
+ * Token usage of every model call in the completion's thread
+ */
+function getCompletionUsage(threadId: string): ChatCompletionUsage {
+  const records = getUsageRecords({ threadId });
+  const prompt = records.reduce((sum, r) => sum + r.inputTokens, 0);
+  const completion = records.reduce((sum, r) => sum + r.outputTokens, 0);
+
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+}
+
+function contentToString(content: unknown): string {
+  return typeof content === "string" ? content : JSON.stringify(content ?? "");
+}
+
+/**
+ * Run a request to completion
+ */
+export async function createChatCompletion(request: ChatCompletionRequest): Promise<ChatCompletion> {
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  let pendingToolCall: PendingToolCall | null = null;
+  let content: unknown;
+
+  try {
+    const response = await invokeAgent(
+      toLangChainMessages(request.messages),
+      id,
+      getRunOptions(request)
+    );
+    pendingToolCall = await getPendingToolCall(id);
+    content = response.messages.at(-1)?.content;
+  } finally {
+    if (!pendingToolCall) {
+      await deleteThreadCheckpoints(id);
+    }
+  }
+
+  const message = pendingToolCall
+    ? { role: "assistant" as const, content: null, pending_approval: toPendingApproval(id, pendingToolCall) }
+    : { role: "assistant" as const, content: contentToString(content) };
+
+  return {
+    id,
+    object: "chat.completion",
+    created,
+    model: request.model,
+    choices: [
+      {
+        index: 0,
+        message,
+        finish_reason: pendingToolCall ? "approval_required" : "stop",
+      },
+    ],
+    usage: getCompletionUsage(id),
+  };
+}
+
+/**
+ * Stream a request as chat.completion.chunk objects
+ *
+ * Errors are sent as a final OpenAI error object rather than thrown,
+ * since the response has already started.
+ */
+export async function* streamChatCompletion(
+  request: ChatCompletionRequest
+): AsyncGenerator<ChatCompletionChunk | ChatCompletionError> {
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  const chunk = (
+    delta: ChatCompletionChunk["choices"][number]["delta"],
+    finishReason: ChatCompletionChunk["choices"][number]["finish_reason"] = null
+  ): ChatCompletionChunk => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model: request.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  yield chunk({ role: "assistant", content: "" });
+
+  let paused = false;
+
+  try {
+    let streamed = false;
+
+    for await (const event of streamAgent(
+      toLangChainMessages(request.messages),
+      id,
+      getRunOptions(request)
+    )) {
+      if (event.type === "token") {
+        if (event.node === "agent") {
+          continue;
+        }
+        streamed = true;
+        yield chunk({ content: event.content });
+      } else if (event.type === "interrupt") {
+        paused = true;
+        yield chunk({ pending_approval: toPendingApproval(id, event.pendingToolCall) }, "approval_required");
+      } else if (event.type === "final") {
+        // The part streamed before a block policy matched was clean, but
+        // never end a blocked answer as if it was sent
+        if (streamed && event.violations.some((v) => v.action === "block")) {
+          yield createCompletionError(event.content, "server_error", "content_filter");
+          return;
+        }
+        // Models that don't stream tokens only deliver the full answer here
+        if (!streamed) {
+          yield chunk({ content: event.content });
+        }
+        yield chunk({}, "stop");
+      }
+    }
+  } catch (error) {
+    console.error("Chat completion error:", error);
+    const llmError = findLlmError(error);
+    yield createCompletionError(
+      llmError?.message ?? "Failed to generate a completion",
+      "server_error",
+      llmError?.kind ?? null
+    );
+    return;
+  } finally {
+    // Also runs when the client disconnects mid-stream
+    if (!paused) {
+      await deleteThreadCheckpoints(id);
+    }
+  }
+
+  if (request.stream_options?.include_usage) {
+    yield { ...chunk({}), choices: [], usage: getCompletionUsage(id) };
+  }
+}
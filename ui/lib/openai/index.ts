@@ -0,0 +1,22 @@
+/**
+ * OpenAI-compatible API Module
+ *
+ * Serves the agent over the OpenAI chat completions protocol, so
+ * OpenAI clients and tooling can talk to it (/v1/chat/completions).
+ */
+
+export * from "./types";
+export {
+  listCompletionModels,
+  getCompletionModel,
+  validateCompletionRequest,
+  validateCompletionRoute,
+  getRequestedTools,
+  getRequestRoute,
+  toLangChainMessages,
+} from "./request";
+export {
+  createChatCompletion,
+  streamChatCompletion,
+  createCompletionError,
+} from "./completions";
@@ -0,0 +1,222 @@
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { getToolNames } from "../agent";
+import { resolvePersona } from "../personas";
+import { getAvailableRoutes, type SupervisorRoute } from "../supervisor";
+import {
+  ChatCompletionContent,
+  ChatCompletionMessage,
+  ChatCompletionRequest,
+  CompletionModel,
+} from "./types";
+
+/**
+ * Chat Completion Requests
+ *
+ * Maps an OpenAI chat completions request onto an agent run: the model
+ * id picks the chat route, the `messages` array becomes the thread's
+ * messages, and `tools` / `tool_choice` pick which of the agent's own
+ * tools it may use.
+ */
+
+const COMPLETION_MODELS: CompletionModel[] = [
+  {
+    id: "study-agent",
+    route: "agent",
+    description: "Tool agent: weather, math and the uploaded study materials",
+  },
+  {
+    id: "study-chat",
+    route: "respond",
+    description: "Plain chat with the chat model, no tools",
+  },
+  {
+    id: "study-research",
+    route: "research",
+    description: "Researches the last user message on the web and answers with a synthesis",
+  },
+];
+
+const ROLES = ["system", "developer", "user", "assistant", "tool"];
+
+/**
+ * Model ids served by /v1/chat/completions
+ */
+export function listCompletionModels(): CompletionModel[] {
+  return COMPLETION_MODELS;
+}
+
+export function getCompletionModel(id: string): CompletionModel | undefined {
+  return COMPLETION_MODELS.find((model) => model.id === id);
+}
+
+/**
+ * Check a chat completions request body
+ *
+ * @returns An error message, or null if the request is valid
+ */
+export function validateCompletionRequest(body: unknown): string | null {
+  if (!body || typeof body !== "object") {
+    return "Request body must be a JSON object";
+  }
+
+  const request = body as Partial<ChatCompletionRequest>;
+  if (typeof request.model !== "string") {
+    return "model is required";
+  }
+  if (!Array.isArray(request.messages) || request.messages.length === 0) {
+    return "messages must be a non-empty array";
+  }
+  for (const message of request.messages) {
+    if (!message || !ROLES.includes(message.role)) {
+      return `Each message needs a role: ${ROLES.join(", ")}`;
+    }
+  }
+  const toolCallError = validateToolCalls(request.messages);
+  if (toolCallError) {
+    return toolCallError;
+  }
+  if (request.messages.at(-1)!.role !== "user") {
+    return "The last message must be a user message";
+  }
+  if (request.n !== undefined && request.n !== 1) {
+    return "Only n=1 is supported";
+  }
+
+  const available = getToolNames();
+  for (const name of getRequestedTools(request as ChatCompletionRequest) ?? []) {
+    if (!available.includes(name)) {
+      return `Unknown tool "${name}". Available tools: ${available.join(", ")}`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that every assistant tool call is answered by the tool messages
+ * right after it, and every tool message answers one, since the provider
+ * rejects a conversation where they don't pair up
+ */
+function validateToolCalls(messages: ChatCompletionMessage[]): string | null {
+  // Tool calls still waiting for their results
+  const openCalls = new Set<string>();
+
+  for (const [index, message] of messages.entries()) {
+    if (message.role === "tool") {
+      if (typeof message.tool_call_id !== "string" || !openCalls.delete(message.tool_call_id)) {
+        return `messages[${index}] is a tool message without a matching tool call`;
+      }
+      continue;
+    }
+    if (openCalls.size > 0) {
+      return `messages[${index}] follows tool calls that have no tool messages`;
+    }
+    if (message.tool_calls === undefined) {
+      continue;
+    }
+    if (message.role !== "assistant" || !Array.isArray(message.tool_calls)) {
+      return `messages[${index}].tool_calls must be an array on an assistant message`;
+    }
+
+    for (const [callIndex, call] of message.tool_calls.entries()) {
+      if (typeof call?.id !== "string" || !call.id || typeof call.function?.name !== "string") {
+        return `messages[${index}].tool_calls[${callIndex}] needs an id and a function name`;
+      }
+      if (openCalls.has(call.id)) {
+        return `messages[${index}].tool_calls[${callIndex}] repeats the id ${call.id}`;
+      }
+      openCalls.add(call.id);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that the model's route is open to the persona completions run as
+ *
+ * Requests skip the supervisor's choice of route, so the persona's limits
+ * (see getAvailableRoutes) are checked here. Call it once the model is
+ * known to exist.
+ *
+ * @returns An error message, or null if the route is allowed
+ */
+export function validateCompletionRoute(request: ChatCompletionRequest): string | null {
+  const model = getCompletionModel(request.model)!;
+  const route = getRequestRoute(request, model);
+  const routes = getAvailableRoutes(resolvePersona(), getRequestedTools(request));
+
+  if (!routes.includes(route)) {
+    return `The model "${model.id}" can't be used here: the persona or the requested tools don't allow its ${route} route`;
+  }
+  return null;
+}
+
+/**
+ * Tool names the client limited the agent to, or undefined for all of them
+ */
+export function getRequestedTools(request: ChatCompletionRequest): string[] | undefined {
+  if (typeof request.tool_choice === "object") {
+    return [request.tool_choice.function?.name];
+  }
+  return request.tools?.map((t) => t.function?.name);
+}
+
+/**
+ * The chat route a request runs: the model's, unless tools are turned off
+ */
+export function getRequestRoute(request: ChatCompletionRequest, model: CompletionModel): SupervisorRoute {
+  return model.route === "agent" && request.tool_choice === "none" ? "respond" : model.route;
+}
+
+function contentToText(content: ChatCompletionContent | undefined): string {
+  if (typeof content === "string") {
+    return content;
+  }
+  return (content ?? [])
+    .filter((part) => part.type === "text" && typeof part.text === "string")
+    .map((part) => part.text)
+    .join("\n");
+}
+
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Convert OpenAI messages to LangChain messages
+ */
+export function toLangChainMessages(messages: ChatCompletionMessage[]): BaseMessage[] {
+  return messages.map((message) => {
+    const content = contentToText(message.content);
+
+    switch (message.role) {
+      case "system":
+      case "developer":
+        return new SystemMessage({ content });
+      case "assistant":
+        return new AIMessage({
+          content,
+          tool_calls: message.tool_calls?.map((call) => ({
+            id: call.id,
+            name: call.function.name,
+            args: parseArguments(call.function.arguments),
+          })),
+        });
+      case "tool":
+        return new ToolMessage({ content, tool_call_id: message.tool_call_id ?? "" });
+      default:
+        return new HumanMessage({ content, name: message.name });
+    }
+  });
+}
@@ -0,0 +1,130 @@
+/**
+ * Types for the OpenAI-compatible API
+ *
+ * The subset of the OpenAI chat completions protocol served by
+ * /v1/chat/completions and /v1/models.
+ */
+
+import type { SupervisorRoute } from "../supervisor";
+
+/**
+ * A model id clients can ask for, and the chat route it runs
+ */
+export interface CompletionModel {
+  id: string;
+  route: SupervisorRoute;
+  description: string;
+}
+
+/**
+ * Message content: a string or a list of parts (only text parts are used)
+ */
+export type ChatCompletionContent =
+  | string
+  | null
+  | Array<{ type: string; text?: string }>;
+
+export interface ChatCompletionToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+export interface ChatCompletionMessage {
+  role: "system" | "developer" | "user" | "assistant" | "tool";
+  content: ChatCompletionContent;
+  name?: string;
+  tool_calls?: ChatCompletionToolCall[];
+  tool_call_id?: string;
+}
+
+/**
+ * A tool the client offers; only the function name is read, since the
+ * agent runs its own tools
+ */
+export interface ChatCompletionTool {
+  type: "function";
+  function: { name: string; description?: string; parameters?: unknown };
+}
+
+export interface ChatCompletionRequest {
+  model: string;
+  messages: ChatCompletionMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  tools?: ChatCompletionTool[];
+  tool_choice?: "none" | "auto" | "required" | { type: "function"; function: { name: string } };
+  n?: number;
+}
+
+export interface ChatCompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+/**
+ * "approval_required" is not an OpenAI finish reason: the run paused on a
+ * tool call that needs the user's approval (see PendingApproval)
+ */
+export type ChatCompletionFinishReason = "stop" | "approval_required";
+
+/**
+ * A tool call the server paused on until the user approves it
+ *
+ * Unlike OpenAI tool calls, the client doesn't run it or send a tool
+ * message back: the thread is resumed by POSTing { threadId: thread_id,
+ * action: "approve" | "reject" | "edit", args? } to resume_url, which
+ * answers like POST /api/chat.
+ */
+export interface PendingApproval {
+  thread_id: string;
+  resume_url: string;
+  tool_call: { id?: string; name: string; arguments: Record<string, unknown> };
+}
+
+export interface ChatCompletion {
+  id: string;
+  object: "chat.completion";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    message: {
+      role: "assistant";
+      content: string | null;
+      pending_approval?: PendingApproval;
+    };
+    finish_reason: ChatCompletionFinishReason;
+  }>;
+  usage: ChatCompletionUsage;
+}
+
+export interface ChatCompletionChunk {
+  id: string;
+  object: "chat.completion.chunk";
+  created: number;
+  model: string;
+  choices: Array<{
+    index: number;
+    delta: {
+      role?: "assistant";
+      content?: string;
+      pending_approval?: PendingApproval;
+    };
+    finish_reason: ChatCompletionFinishReason | null;
+  }>;
+  usage?: ChatCompletionUsage | null;
+}
+
+/**
+ * Error body in the OpenAI format
+ */
+export interface ChatCompletionError {
+  error: {
+    message: string;
+    type: "invalid_request_error" | "server_error";
+    param: string | null;
+    code: string | null;
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Personas Module
+ *
+ * Named assistant personalities a thread can pick when it starts.
+ */
+
+export * from "./types";
+export {
+  listPersonas,
+  getPersona,
+  resolvePersona,
+  validatePersona,
+  getPersonaModelOverrides,
+  DEFAULT_PERSONA_ID,
+} from "./personas";
@@ -0,0 +1,110 @@
+import type { ModelOverrides, ModelRole } from "../models";
+import { Persona } from "./types";
+
+/**
+ * Built-in Personas
+ *
+ * A thread picks its persona when it is created through /api/chat; the
+ * choice is stored in the thread's graph state, so it survives restarts
+ * (with CHECKPOINTER=file), forks and edits.
+ */
+
+export const DEFAULT_PERSONA_ID = "default";
+
+const PERSONAS: Persona[] = [
+  {
+    id: DEFAULT_PERSONA_ID,
+    name: "Study assistant",
+    description: "General helper with every tool: weather, math and your study materials.",
+  },
+  {
+    id: "socratic-tutor",
+    name: "Socratic tutor",
+    description: "Guides you to the answer with questions instead of giving it away.",
+    systemPrompt: `You are a Socratic tutor helping a student learn.
+- Do not give final answers straight away. Ask one guiding question at a time that moves the student a step closer.
+- Build on what the student already said; point out the first mistake you see and ask them to reconsider it.
+- Use the study materials tools to ground your questions in what the student is studying.
+- Use solve_math_puzzle only to check the student's answer, never to hand them the solution.
+- When the student reaches the answer, confirm it and summarize the reasoning in two or three sentences.`,
+    tools: ["query_study_materials", "list_study_materials", "solve_math_puzzle"],
+    settings: { temperature: 0.7 },
+  },
+  {
+    id: "concise-calculator",
+    name: "Concise calculator",
+    description: "Computes results with the math tools and answers in a line.",
+    systemPrompt: `You are a calculator.
+- Always compute with the calculate or solve_math_puzzle tool; never do arithmetic in your head.
+- Reply with the result and at most one short sentence. No greetings, no explanations unless asked.`,
+    tools: ["calculate", "solve_math_puzzle"],
+    settings: { temperature: 0, maxTokens: 256 },
+  },
+  {
+    id: "research-assistant",
+    name: "Research assistant",
+    description: "Answers from your study materials and cites the sources it used.",
+    systemPrompt: `You are a careful research assistant.
+- Search the user's study materials before answering questions about their content, and list them when unsure what is available.
+- Base your answer on the retrieved passages and cite the source file for each claim, e.g. [lecture-3.pdf].
+- If the materials don't cover the question, say so plainly instead of guessing.
+- Structure longer answers with short headings or bullet points.`,
+    tools: ["query_study_materials", "list_study_materials"],
+    settings: { temperature: 0.3 },
+  },
+];
+
+/**
+ * All available personas
+ */
+export function listPersonas(): Persona[] {
+  return PERSONAS;
+}
+
+/**
+ * Look up a persona by id
+ */
+export function getPersona(id: string): Persona | undefined {
+  return PERSONAS.find((persona) => persona.id === id);
+}
+
+/**
+ * The persona for a thread, falling back to the default one
+ */
+export function resolvePersona(id?: string): Persona {
+  return (id && getPersona(id)) || getPersona(DEFAULT_PERSONA_ID)!;
+}
+
+/**
+ * Check a requested persona id
+ *
+ * @returns An error message, or null if the persona exists
+ */
+export function validatePersona(id: unknown): string | null {
+  if (id === undefined) {
+    return null;
+  }
+  if (typeof id !== "string" || !getPersona(id)) {
+    return `Unknown persona "${String(id)}". Use one of: ${PERSONAS.map((p) => p.id).join(", ")}`;
+  }
+  return null;
+}
+
+/**
+ * Model overrides with the persona's chat model filled in
+ *
+ * A per-request model for the role still wins over the persona's.
+ *
+ * @param role - The role that writes the persona's answers: "chat", or
+ *   "synthesizer" for research reports
+ */
+export function getPersonaModelOverrides(
+  persona: Persona,
+  overrides?: ModelOverrides,
+  role: ModelRole = "chat"
+): ModelOverrides | undefined {
+  if (!persona.model || overrides?.[role]) {
+    return overrides;
+  }
+  return { ...overrides, [role]: persona.model };
+}
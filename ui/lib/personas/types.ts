@@ -0,0 +1,25 @@
+/**
+ * Types for Personas
+ *
+ * A persona shapes how the chat assistant behaves in a thread:
+ * its system prompt, which tools it may call and its model parameters.
+ */
+
+import type { ModelSettings } from "../models";
+
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  /** Instructions prepended to every model call; none for the default persona */
+  systemPrompt?: string;
+  /**
+   * Names of the tools the persona may call; all tools when omitted.
+   * "web_research" (RESEARCH_TOOL in lib/supervisor) allows the research route.
+   */
+  tools?: string[];
+  /** Chat model as "provider:model"; the configured chat model when omitted */
+  model?: string;
+  /** Sampling parameters for the chat model */
+  settings?: ModelSettings;
+}
@@ -49,6 +49,7 @@ import {
   decideNext,
   synthesizeResearch,
 } from "./nodes";
+import { getTracingCallbacks } from "../tracing";
 
 /**
  * State Annotation for LangGraph
@@ -150,7 +151,11 @@ export async function runResearch(
   if (config?.minRelevantDocs) initialState.minRelevantDocs = config.minRelevantDocs;
 
   // Execute the graph - this will run through all nodes including cycles
-  const finalState = await graph.invoke(initialState);
+  const finalState = await graph.invoke(initialState, {
+    configurable: { models: config?.models },
+    metadata: { route: config?.route },
+    callbacks: getTracingCallbacks(),
+  });
 
   return finalState as ResearchState;
 }
@@ -172,7 +177,13 @@ export async function* streamResearch(
   if (config?.minRelevantDocs) initialState.minRelevantDocs = config.minRelevantDocs;
 
   // Stream mode provides updates after each node execution
-  const stream = await graph.stream(initialState, { streamMode: "updates" });
+  const stream = await graph.stream(initialState, {
+    streamMode: "updates",
+    configurable: { models: config?.models },
+    metadata: { route: config?.route },
+    callbacks: getTracingCallbacks(),
+    signal: config?.signal,
+  });
 
   for await (const update of stream) {
     // Each update contains the node name and its state changes
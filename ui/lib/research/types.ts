@@ -6,11 +6,16 @@
  * it has gathered sufficient high-quality information.
  */
 
+import type { ModelOverrides } from "../models";
+import type { InjectionFinding } from "../guardrails";
+
 export interface SearchResult {
   title: string;
   url: string;
   snippet: string;
   content?: string;
+  /** Prompt-injection-like passages found when the result came in */
+  injectionFindings?: InjectionFinding[];
 }
 
 export interface GradedDocument {
@@ -93,5 +98,8 @@ export interface ResearchConfig {
   qualityThreshold?: number;
   minRelevantDocs?: number;
   queriesPerIteration?: number;
+  models?: ModelOverrides; // Per-request grader/synthesizer models
+  route?: string; // API route that started the run, for usage accounting
+  signal?: AbortSignal; // Stops the run, e.g. when the client goes away
 }
 
@@ -0,0 +1,214 @@
+import { randomUUID } from "crypto";
+import { embedText, getCorpusVersion } from "../vectorStore";
+import {
+  ResponseCacheEntry,
+  ResponseCacheHit,
+  ResponseCacheSettings,
+  ResponseCacheStats,
+} from "./types";
+
+/**
+ * Response Cache
+ *
+ * Keeps answers in memory, keyed by the question's embedding, the
+ * thread's persona and user and the corpus version they were based on.
+ * A lookup returns the most similar entry at or above
+ * RESPONSE_CACHE_THRESHOLD (default 0.9) whose numbers and short words
+ * match the question's exactly, since embeddings barely tell "page 3"
+ * from "page 4" or "type A" from "type B".
+ *
+ * Adding or deleting documents bumps the corpus version, which drops
+ * every entry built on the old corpus. Entries also expire after
+ * RESPONSE_CACHE_TTL_MS (default 24h), and only the newest
+ * RESPONSE_CACHE_MAX_ENTRIES (default 500) are kept.
+ *
+ * Set RESPONSE_CACHE=off to disable it.
+ */
+
+const DEFAULT_THRESHOLD = 0.9;
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Words of up to this many characters must match exactly...
+const SHORT_WORD_LENGTH = 3;
+
+// ...except these, which rarely change what is asked
+const FUNCTION_WORDS = new Set([
+  "a", "an", "the", "is", "are", "was", "be", "am", "do", "did", "has", "had", "can",
+  "of", "in", "on", "at", "to", "for", "by", "as", "and", "or", "so",
+  "i", "me", "my", "you", "we", "our", "it", "its",
+]);
+
+interface ResponseCacheState {
+  /** Oldest first */
+  entries: ResponseCacheEntry[];
+  corpusVersion: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * Global singleton for the cache
+ * Using globalThis ensures every API route shares the same entries
+ */
+const globalForResponseCache = globalThis as unknown as {
+  responseCache: ResponseCacheState | undefined;
+};
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getResponseCacheSettings(): ResponseCacheSettings {
+  return {
+    enabled: process.env.RESPONSE_CACHE !== "off",
+    threshold: readNumber("RESPONSE_CACHE_THRESHOLD", DEFAULT_THRESHOLD),
+    maxEntries: readNumber("RESPONSE_CACHE_MAX_ENTRIES", DEFAULT_MAX_ENTRIES),
+    ttlMs: readNumber("RESPONSE_CACHE_TTL_MS", DEFAULT_TTL_MS),
+  };
+}
+
+/**
+ * The cache, emptied first if the corpus changed since it was filled
+ */
+function getCache(): ResponseCacheState {
+  const corpusVersion = getCorpusVersion();
+
+  if (!globalForResponseCache.responseCache) {
+    globalForResponseCache.responseCache = { entries: [], corpusVersion, hits: 0, misses: 0 };
+  }
+
+  const cache = globalForResponseCache.responseCache;
+  if (cache.corpusVersion !== corpusVersion) {
+    if (cache.entries.length > 0) {
+      console.log(`[ResponseCache] Corpus changed, dropping ${cache.entries.length} cached answers`);
+    }
+    cache.entries = [];
+    cache.corpusVersion = corpusVersion;
+  }
+
+  const { ttlMs } = getResponseCacheSettings();
+  const cutoff = Date.now() - ttlMs;
+  cache.entries = cache.entries.filter((entry) => entry.createdAt >= cutoff);
+
+  return cache;
+}
+
+/**
+ * Cosine similarity of two L2-normalized vectors
+ */
+function similarity(a: number[], b: number[]): number {
+  let dot = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+}
+
+/**
+ * The numbers and short words of a question, sorted, e.g. "3|b|ph"
+ */
+function getExactTerms(question: string): string {
+  const words = question.toLowerCase().match(/[\p{L}\p{N}]+(?:[.,]\d+)*/gu) ?? [];
+  const terms = words.filter(
+    (word) => /\d/.test(word) || (word.length <= SHORT_WORD_LENGTH && !FUNCTION_WORDS.has(word))
+  );
+  return Array.from(new Set(terms)).sort().join("|");
+}
+
+/**
+ * Find a cached answer to a question
+ */
+export async function lookupResponse(
+  question: string,
+  persona: string,
+  userId: string
+): Promise<ResponseCacheHit | null> {
+  const settings = getResponseCacheSettings();
+  if (!settings.enabled) {
+    return null;
+  }
+
+  const cache = getCache();
+  const terms = getExactTerms(question);
+  const candidates = cache.entries.filter(
+    (entry) => entry.persona === persona && entry.userId === userId && getExactTerms(entry.question) === terms
+  );
+  if (candidates.length === 0) {
+    cache.misses += 1;
+    return null;
+  }
+
+  const embedding = await embedText(question);
+  let best: ResponseCacheHit | null = null;
+  for (const entry of candidates) {
+    const score = similarity(embedding, entry.embedding);
+    if (score >= settings.threshold && (!best || score > best.similarity)) {
+      best = { entry, similarity: score };
+    }
+  }
+
+  if (!best) {
+    cache.misses += 1;
+    return null;
+  }
+
+  cache.hits += 1;
+  best.entry.hits += 1;
+  return best;
+}
+
+/**
+ * Cache the answer to a question, based on the current corpus
+ */
+export async function storeResponse(
+  question: string,
+  answer: string,
+  persona: string,
+  userId: string
+): Promise<void> {
+  const settings = getResponseCacheSettings();
+  if (!settings.enabled) {
+    return;
+  }
+
+  const embedding = await embedText(question);
+  const cache = getCache();
+
+  cache.entries.push({
+    id: randomUUID(),
+    question,
+    embedding,
+    answer,
+    persona,
+    userId,
+    corpusVersion: cache.corpusVersion,
+    createdAt: Date.now(),
+    hits: 0,
+  });
+
+  if (cache.entries.length > settings.maxEntries) {
+    cache.entries.splice(0, cache.entries.length - settings.maxEntries);
+  }
+}
+
+/**
+ * Drop every cached answer
+ */
+export function clearResponseCache(): number {
+  const cache = getCache();
+  const count = cache.entries.length;
+  cache.entries = [];
+  return count;
+}
+
+export function getResponseCacheStats(): ResponseCacheStats {
+  const cache = getCache();
+  return {
+    entries: cache.entries.length,
+    corpusVersion: cache.corpusVersion,
+    hits: cache.hits,
+    misses: cache.misses,
+  };
+}
@@ -0,0 +1,17 @@
+/**
+ * Response Cache Module
+ *
+ * Answers repeated study-materials questions from a semantic cache keyed
+ * by the question's embedding, the persona, the user and the corpus
+ * version. Adding or deleting documents invalidates every cached answer.
+ */
+
+export * from "./types";
+export {
+  lookupResponse,
+  storeResponse,
+  clearResponseCache,
+  getResponseCacheStats,
+  getResponseCacheSettings,
+} from "./cache";
+export { checkResponseCache, selectAfterCache, cacheResponse } from "./nodes";
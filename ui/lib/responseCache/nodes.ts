@@ -0,0 +1,146 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { AIMessage, BaseMessage, isAIMessage, isToolMessage } from "@langchain/core/messages";
+import type { SupervisorAnnotation, SupervisorState } from "../supervisor";
+import { DEFAULT_PERSONA_ID } from "../personas";
+import { DEFAULT_USER_ID } from "../memory";
+import { lookupResponse, storeResponse } from "./cache";
+
+/**
+ * Response Cache Nodes
+ *
+ * check_response_cache runs before the supervisor and answers a turn from
+ * the cache when the same study-materials question was asked before.
+ * cache_response runs after the tool agent and caches answers that were
+ * based on a query_study_materials search, since only those depend on the
+ * corpus the cache is invalidated by.
+ *
+ * Only a thread's first message is looked up or cached: later ones can
+ * refer to earlier turns ("and the second one?"), and so can their answers.
+ * Answers written with the user's memories in context aren't cached either.
+ *
+ * The graph itself is assembled in lib/agent.ts.
+ */
+
+const CACHED_TOOL = "query_study_materials";
+
+function contentToString(content: BaseMessage["content"]): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+/**
+ * Index of the latest user message, where the current turn starts
+ */
+function getTurnStart(messages: BaseMessage[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]._getType() === "human") {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Whether the current turn opens the thread, with nothing before it
+ * (not even a summary of earlier turns) that its question could refer to
+ */
+function isFirstTurn(messages: BaseMessage[]): boolean {
+  return getTurnStart(messages) === 0;
+}
+
+/**
+ * Whether this run may be answered from the cache
+ *
+ * Regenerating asks for a new answer, a forced route other than the tool
+ * agent wouldn't search the study materials, and neither would a run
+ * whose allowed tools leave out the search.
+ */
+function canUseCache(config?: RunnableConfig): boolean {
+  const configurable = config?.configurable ?? {};
+  const forcedRoute = configurable.supervisor_route as string | undefined;
+  const allowedTools = configurable.allowed_tools as string[] | undefined;
+
+  return (
+    !configurable.skip_response_cache &&
+    (!forcedRoute || forcedRoute === "agent") &&
+    (!allowedTools || allowedTools.includes(CACHED_TOOL))
+  );
+}
+
+/**
+ * Graph node: answer the latest user message from the cache, if possible
+ */
+export async function checkResponseCache(
+  state: SupervisorState,
+  config?: RunnableConfig
+): Promise<Partial<typeof SupervisorAnnotation.Update>> {
+  const question = state.messages[getTurnStart(state.messages)];
+  if (!question || !isFirstTurn(state.messages) || !canUseCache(config)) {
+    return { cacheHit: false };
+  }
+
+  const hit = await lookupResponse(
+    contentToString(question.content),
+    state.persona ?? DEFAULT_PERSONA_ID,
+    state.userId ?? DEFAULT_USER_ID
+  );
+  if (!hit) {
+    return { cacheHit: false };
+  }
+
+  console.log(
+    `[ResponseCache] Answering from cache (similarity ${hit.similarity.toFixed(3)}): "${hit.entry.question}"`
+  );
+
+  return {
+    cacheHit: true,
+    messages: [
+      new AIMessage({
+        content: hit.entry.answer,
+        response_metadata: {
+          cached: true,
+          similarity: hit.similarity,
+          cachedQuestion: hit.entry.question,
+        },
+      }),
+    ],
+  };
+}
+
+/**
+ * Conditional edge: whether the turn was answered from the cache
+ */
+export function selectAfterCache(state: SupervisorState): "hit" | "miss" {
+  return state.cacheHit ? "hit" : "miss";
+}
+
+/**
+ * Graph node: cache the tool agent's answer if it searched the study materials
+ */
+export async function cacheResponse(
+  state: SupervisorState,
+  config?: RunnableConfig
+): Promise<Partial<typeof SupervisorAnnotation.Update>> {
+  const turnStart = getTurnStart(state.messages);
+  const answer = state.messages.at(-1);
+  if (turnStart < 0 || !answer || !isAIMessage(answer) || answer.tool_calls?.length) {
+    return {};
+  }
+  if (!isFirstTurn(state.messages) || state.memories?.length) {
+    return {};
+  }
+
+  const turn = state.messages.slice(turnStart + 1);
+  const searched = turn.some((m) => isToolMessage(m) && m.name === CACHED_TOOL);
+  if (!searched || config?.configurable?.allowed_tools) {
+    return {};
+  }
+
+  await storeResponse(
+    contentToString(state.messages[turnStart].content),
+    contentToString(answer.content),
+    state.persona ?? DEFAULT_PERSONA_ID,
+    state.userId ?? DEFAULT_USER_ID
+  );
+
+  return {};
+}
@@ -0,0 +1,48 @@
+/**
+ * Types for the Response Cache
+ *
+ * Answers grounded in the study materials are cached by the embedding of
+ * the question, so a near-identical question about the same PDFs is
+ * answered without running the agent again.
+ */
+
+export interface ResponseCacheEntry {
+  id: string;
+  question: string;
+  /** Embedding of the question, L2-normalized */
+  embedding: number[];
+  answer: string;
+  /** Persona the answer was written for */
+  persona: string;
+  /** User the answer was written for */
+  userId: string;
+  /** Corpus version (see getCorpusVersion) the answer was based on */
+  corpusVersion: number;
+  createdAt: number;
+  hits: number;
+}
+
+export interface ResponseCacheHit {
+  entry: ResponseCacheEntry;
+  /** Cosine similarity between the question and the cached one, 0-1 */
+  similarity: number;
+}
+
+/**
+ * Read from the RESPONSE_CACHE_* env vars
+ */
+export interface ResponseCacheSettings {
+  enabled: boolean;
+  /** Lowest similarity that counts as the same question */
+  threshold: number;
+  maxEntries: number;
+  /** Entries older than this are dropped */
+  ttlMs: number;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  corpusVersion: number;
+  hits: number;
+  misses: number;
+}
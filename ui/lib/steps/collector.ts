@@ -0,0 +1,216 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { restorePiiInValue, type PiiVault } from "../guardrails";
+import { APPROVED_TOOL_TAG } from "../tools";
+import { AgentStep, AgentTrace, ModelStep, TokenUsage, ToolStep } from "./types";
+
+/**
+ * Step Collector
+ *
+ * Callback handler that records an ordered trace of an agent run:
+ * model calls (with their tool calls and token usage) and tool calls
+ * (with their arguments and results), each with its timing.
+ *
+ * Pass it in the run config: { callbacks: [collector] }
+ */
+
+function contentToString(content: unknown): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+function parseToolInput(input: string): unknown {
+  try {
+    return JSON.parse(input);
+  } catch {
+    return input;
+  }
+}
+
+function getTokenUsage(output: LLMResult): TokenUsage | undefined {
+  const message = (output.generations[0]?.[0] as ChatGeneration | undefined)?.message as
+    | { usage_metadata?: { input_tokens: number; output_tokens: number; total_tokens: number } }
+    | undefined;
+
+  if (message?.usage_metadata) {
+    return {
+      inputTokens: message.usage_metadata.input_tokens,
+      outputTokens: message.usage_metadata.output_tokens,
+      totalTokens: message.usage_metadata.total_tokens,
+    };
+  }
+
+  const usage = output.llmOutput?.tokenUsage;
+  if (usage) {
+    return {
+      inputTokens: usage.promptTokens ?? 0,
+      outputTokens: usage.completionTokens ?? 0,
+      totalTokens: usage.totalTokens ?? 0,
+    };
+  }
+
+  return undefined;
+}
+
+export class StepCollector extends BaseCallbackHandler {
+  name = "step_collector";
+
+  private readonly startedAt = Date.now();
+  private readonly steps: AgentStep[] = [];
+  private readonly stepsByRunId = new Map<string, AgentStep>();
+  private readonly parentRunIds = new Map<string, string | undefined>();
+  private readonly toolNames = new Map<string, string>();
+  private readonly modelRunIds = new Set<string>();
+  private piiVault?: PiiVault;
+
+  constructor() {
+    // Wait for the handler so the trace is complete when the run returns
+    super({ _awaitHandler: true });
+  }
+
+  private elapsed(): number {
+    return Date.now() - this.startedAt;
+  }
+
+  private finish(runId: string, update: Partial<ModelStep> | Partial<ToolStep>) {
+    const step = this.stepsByRunId.get(runId);
+    if (step) {
+      Object.assign(step, update, { durationMs: this.elapsed() - step.startMs });
+    }
+  }
+
+  /**
+   * Closest tool run above a run, if it was started from inside a tool
+   */
+  private findParentTool(parentRunId?: string): string | undefined {
+    let runId = parentRunId;
+    while (runId) {
+      const name = this.toolNames.get(runId);
+      if (name) {
+        return name;
+      }
+      runId = this.parentRunIds.get(runId);
+    }
+    return undefined;
+  }
+
+  handleChainStart(
+    _chain: Serialized,
+    _inputs: unknown,
+    runId: string,
+    parentRunId?: string
+  ) {
+    this.parentRunIds.set(runId, parentRunId);
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    this.parentRunIds.set(runId, parentRunId);
+    this.modelRunIds.add(runId);
+
+    // Wrappers like ResilientChatModel call the provider model inside their
+    // own run; only record the outer call
+    if (parentRunId && this.modelRunIds.has(parentRunId)) {
+      return;
+    }
+
+    const step: ModelStep = {
+      type: "model",
+      runId,
+      model: String(metadata?.ls_model_name ?? llm.id.at(-1) ?? "unknown"),
+      node: metadata?.langgraph_node as string | undefined,
+      parentTool: this.findParentTool(parentRunId),
+      content: "",
+      toolCalls: [],
+      startMs: this.elapsed(),
+    };
+    this.steps.push(step);
+    this.stepsByRunId.set(runId, step);
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const generation = output.generations[0]?.[0] as ChatGeneration | undefined;
+    const message = generation?.message as
+      | { content: unknown; tool_calls?: ModelStep["toolCalls"] }
+      | undefined;
+
+    this.finish(runId, {
+      content: contentToString(message?.content ?? generation?.text ?? ""),
+      toolCalls: (message?.tool_calls ?? []).map(({ id, name, args }) => ({ id, name, args })),
+      tokenUsage: getTokenUsage(output),
+    });
+  }
+
+  handleLLMError(error: Error, runId: string) {
+    this.finish(runId, { error: error.message });
+  }
+
+  handleToolStart(
+    _tool: Serialized,
+    input: string,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    _metadata?: Record<string, unknown>,
+    runName?: string
+  ) {
+    this.parentRunIds.set(runId, parentRunId);
+    this.toolNames.set(runId, runName ?? "tool");
+
+    // Approval wrappers call the real tool inside them; only record the outer call
+    if (tags?.includes(APPROVED_TOOL_TAG)) {
+      return;
+    }
+
+    const step: ToolStep = {
+      type: "tool",
+      runId,
+      name: runName ?? "tool",
+      input: parseToolInput(input),
+      startMs: this.elapsed(),
+    };
+    this.steps.push(step);
+    this.stepsByRunId.set(runId, step);
+  }
+
+  handleToolEnd(output: unknown, runId: string) {
+    const content = (output as { content?: unknown } | undefined)?.content ?? output;
+    this.finish(runId, { output: contentToString(content) });
+  }
+
+  handleToolError(error: Error, runId: string) {
+    this.finish(runId, { error: error.message });
+  }
+
+  /**
+   * The steps recorded so far, with run totals
+   */
+  /**
+   * Show the personal data behind the PII placeholders of this vault
+   * (see lib/guardrails) in the trace
+   */
+  setPiiVault(vault: PiiVault): void {
+    this.piiVault = vault;
+  }
+
+  getTrace(): AgentTrace {
+    const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+    for (const step of this.steps) {
+      if (step.type === "model" && step.tokenUsage) {
+        tokenUsage.inputTokens += step.tokenUsage.inputTokens;
+        tokenUsage.outputTokens += step.tokenUsage.outputTokens;
+        tokenUsage.totalTokens += step.tokenUsage.totalTokens;
+      }
+    }
+
+    return { steps: restorePiiInValue(this.steps, this.piiVault), durationMs: this.elapsed(), tokenUsage };
+  }
+}
@@ -0,0 +1,9 @@
+/**
+ * Agent Steps Module
+ *
+ * Records the intermediate steps of an agent run (model calls,
+ * tool calls, timings and token usage) for debugging.
+ */
+
+export * from "./types";
+export { StepCollector } from "./collector";
@@ -0,0 +1,54 @@
+/**
+ * Types for Agent Step Traces
+ *
+ * A trace lists what happened during one agent run, in the order
+ * the steps started: every model call and every tool call.
+ */
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * A chat model call
+ */
+export interface ModelStep {
+  type: "model";
+  runId: string;
+  model: string;
+  /** Graph node that made the call, e.g. "agent" or "summarize_conversation" */
+  node?: string;
+  /** Tool the call was made from, e.g. the parser inside solve_math_puzzle */
+  parentTool?: string;
+  content: string;
+  toolCalls: Array<{ id?: string; name: string; args: Record<string, unknown> }>;
+  tokenUsage?: TokenUsage;
+  /** Milliseconds from the start of the run */
+  startMs: number;
+  durationMs?: number;
+  error?: string;
+}
+
+/**
+ * A tool call and its result
+ */
+export interface ToolStep {
+  type: "tool";
+  runId: string;
+  name: string;
+  input: unknown;
+  output?: string;
+  startMs: number;
+  durationMs?: number;
+  error?: string;
+}
+
+export type AgentStep = ModelStep | ToolStep;
+
+export interface AgentTrace {
+  steps: AgentStep[];
+  durationMs: number;
+  tokenUsage: TokenUsage;
+}
@@ -0,0 +1,16 @@
+/**
+ * Conversation Summarization Module
+ *
+ * Keeps long chat threads within the model's context window by
+ * folding older turns into a running summary message.
+ */
+
+export * from "./types";
+export {
+  summarizeConversation,
+  getSummarizationSettings,
+  estimateTokens,
+  isSummaryMessage,
+  SUMMARY_MESSAGE_ID,
+  SUMMARY_TAG,
+} from "./summarize";
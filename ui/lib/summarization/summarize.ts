@@ -0,0 +1,222 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseMessage,
+  RemoveMessage,
+  SystemMessage,
+  isAIMessage,
+  isToolMessage,
+} from "@langchain/core/messages";
+import { MessagesAnnotation, REMOVE_ALL_MESSAGES } from "@langchain/langgraph";
+import { getModelForConfig } from "../models";
+import { SummarizationSettings } from "./types";
+
+/**
+ * Conversation Summarization
+ *
+ * Runs before the agent on every turn. Once a thread's estimated size
+ * passes CONTEXT_TOKEN_BUDGET, everything older than the last
+ * SUMMARY_KEEP_RECENT_TURNS turns is folded into a single running summary
+ * message at the top of the thread. The recent turns and the summary are
+ * kept verbatim; the condensed messages are removed from the checkpoint.
+ *
+ * Environment:
+ * - CONTEXT_TOKEN_BUDGET (default: 6000, 0 disables summarization)
+ * - SUMMARY_KEEP_RECENT_TURNS (default: 3)
+ * - SUMMARY_MAX_TOOL_OUTPUT_CHARS (default: 1000)
+ */
+
+const DEFAULT_TOKEN_BUDGET = 6000;
+const DEFAULT_KEEP_RECENT_TURNS = 3;
+const DEFAULT_MAX_TOOL_OUTPUT_CHARS = 1000;
+
+/**
+ * Fixed id of the summary message, so each update replaces the last one
+ */
+export const SUMMARY_MESSAGE_ID = "conversation-summary";
+
+/**
+ * Tag on the summarizer's model run, so streams can skip its tokens
+ */
+export const SUMMARY_TAG = "conversation_summary";
+
+const SUMMARY_PREFIX = "Summary of the earlier conversation:\n";
+
+// Rough rule of thumb for Llama/GPT tokenizers on English text
+const CHARS_PER_TOKEN = 4;
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+/**
+ * Read the summarization settings from the environment
+ */
+export function getSummarizationSettings(): SummarizationSettings {
+  return {
+    tokenBudget: readNumber("CONTEXT_TOKEN_BUDGET", DEFAULT_TOKEN_BUDGET),
+    keepRecentTurns: Math.max(1, readNumber("SUMMARY_KEEP_RECENT_TURNS", DEFAULT_KEEP_RECENT_TURNS)),
+    maxToolOutputChars: readNumber("SUMMARY_MAX_TOOL_OUTPUT_CHARS", DEFAULT_MAX_TOOL_OUTPUT_CHARS),
+  };
+}
+
+function contentToString(content: BaseMessage["content"]): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+/**
+ * Estimate how many tokens a list of messages takes up in a prompt
+ */
+export function estimateTokens(messages: BaseMessage[]): number {
+  let chars = 0;
+  for (const message of messages) {
+    chars += contentToString(message.content).length;
+    if (isAIMessage(message) && message.tool_calls?.length) {
+      chars += JSON.stringify(message.tool_calls).length;
+    }
+  }
+
+  return Math.ceil(chars / CHARS_PER_TOKEN);
+}
+
+export function isSummaryMessage(message: BaseMessage): boolean {
+  return message.id === SUMMARY_MESSAGE_ID;
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars
+    ? `${text.slice(0, maxChars)}… [${text.length - maxChars} more characters]`
+    : text;
+}
+
+/**
+ * Shrink a tool result before it goes to the summarizer
+ *
+ * query_study_materials returns the full retrieved chunks as JSON; the
+ * summary only needs the question, the sources and a short excerpt.
+ */
+function compactToolOutput(output: string, maxChars: number): string {
+  try {
+    const parsed = JSON.parse(output);
+    if (parsed && typeof parsed === "object" && Array.isArray(parsed.sources)) {
+      const sources = parsed.sources
+        .map((s: { filename?: string }) => s.filename)
+        .filter(Boolean)
+        .join(", ");
+      return [
+        parsed.question ? `Question: ${parsed.question}` : "",
+        sources ? `Sources: ${sources}` : "",
+        typeof parsed.context === "string" ? `Excerpt: ${truncate(parsed.context, maxChars)}` : "",
+      ]
+        .filter(Boolean)
+        .join("\n");
+    }
+  } catch {
+    // Not JSON, fall through to plain truncation
+  }
+
+  return truncate(output, maxChars);
+}
+
+/**
+ * Render messages as a plain-text transcript for the summarizer
+ */
+function toTranscript(messages: BaseMessage[], settings: SummarizationSettings): string {
+  return messages
+    .map((message) => {
+      const content = contentToString(message.content);
+
+      if (message._getType() === "human") {
+        return `User: ${content}`;
+      }
+      if (isToolMessage(message)) {
+        return `Tool result (${message.name ?? "tool"}):\n${compactToolOutput(content, settings.maxToolOutputChars)}`;
+      }
+      if (isAIMessage(message) && message.tool_calls?.length) {
+        const calls = message.tool_calls
+          .map((call) => `${call.name}(${JSON.stringify(call.args)})`)
+          .join(", ");
+        return `Assistant called: ${calls}${content ? `\nAssistant: ${content}` : ""}`;
+      }
+      return `Assistant: ${content}`;
+    })
+    .join("\n\n");
+}
+
+function buildSummaryPrompt(previousSummary: string | null, transcript: string): string {
+  return `You maintain a running summary of a conversation between a student and a study assistant.
+${previousSummary ? `\nCurrent summary:\n${previousSummary}\n` : ""}
+Conversation to fold into the summary:
+${transcript}
+
+Write an updated summary that keeps:
+- What the user asked and the answers they were given
+- Facts, numbers and results from tools, with the study material sources they came from
+- Open questions and anything the user said they want to do next
+
+Be concise. Respond with the summary only.`;
+}
+
+/**
+ * Index of the first message kept verbatim: the start of the Nth most recent turn
+ *
+ * Splitting on human messages keeps AI tool calls together with their results.
+ */
+function findRecentTurnsStart(messages: BaseMessage[], keepRecentTurns: number): number {
+  let turns = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i]._getType() === "human" && ++turns === keepRecentTurns) {
+      return i;
+    }
+  }
+
+  return 0;
+}
+
+/**
+ * Graph node: condense older turns once the thread passes the token budget
+ */
+export async function summarizeConversation(
+  state: typeof MessagesAnnotation.State,
+  config?: RunnableConfig
+): Promise<Partial<typeof MessagesAnnotation.Update>> {
+  const settings = getSummarizationSettings();
+  const { messages } = state;
+
+  if (settings.tokenBudget === 0 || estimateTokens(messages) <= settings.tokenBudget) {
+    return {};
+  }
+
+  const existingSummary = messages.find(isSummaryMessage);
+  const conversation = messages.filter((m) => !isSummaryMessage(m));
+
+  const recentStart = findRecentTurnsStart(conversation, settings.keepRecentTurns);
+  const older = conversation.slice(0, recentStart);
+  const recent = conversation.slice(recentStart);
+
+  if (older.length === 0) {
+    return {};
+  }
+
+  const previousSummary = existingSummary
+    ? contentToString(existingSummary.content).replace(SUMMARY_PREFIX, "")
+    : null;
+
+  const model = getModelForConfig("summarizer", config);
+  const response = await model.invoke(
+    buildSummaryPrompt(previousSummary, toTranscript(older, settings)),
+    { ...config, tags: [...(config?.tags ?? []), SUMMARY_TAG] }
+  );
+
+  const summary = new SystemMessage({
+    id: SUMMARY_MESSAGE_ID,
+    content: `${SUMMARY_PREFIX}${contentToString(response.content).trim()}`,
+  });
+
+  // Rewrite the thread as [summary, ...recent turns]
+  return {
+    messages: [new RemoveMessage({ id: REMOVE_ALL_MESSAGES }), summary, ...recent],
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * Types for Conversation Summarization
+ *
+ * Long threads are condensed into a running summary message so the
+ * prompt sent to the chat model stays within a token budget.
+ */
+
+export interface SummarizationSettings {
+  /** Estimated prompt tokens a thread may reach before it is condensed (0 disables) */
+  tokenBudget: number;
+  /** Most recent turns (a human message and everything after it) kept verbatim */
+  keepRecentTurns: number;
+  /** Longest tool output, in characters, passed to the summarizer */
+  maxToolOutputChars: number;
+}
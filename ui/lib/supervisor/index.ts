@@ -0,0 +1,20 @@
+/**
+ * Supervisor Module
+ *
+ * Routes each chat turn to a direct answer, the tool agent or the
+ * research graph. The graph itself is assembled in lib/agent.ts.
+ */
+
+export * from "./types";
+export {
+  SupervisorAnnotation,
+  SUPERVISOR_TAG,
+  classifyTurn,
+  selectRoute,
+  respondDirectly,
+  parseRoute,
+  getAvailableRoutes,
+  RESEARCH_TOOL,
+  type SupervisorState,
+} from "./supervisor";
+export { researchTopic, RESEARCH_TAG, RESEARCH_NODES } from "./research";
@@ -0,0 +1,61 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { buildResearchGraph, createInitialState, ResearchState } from "../research";
+import { getModelOverrides } from "../models";
+import { getPersonaModelOverrides, resolvePersona } from "../personas";
+import { SupervisorAnnotation, SupervisorState } from "./supervisor";
+
+/**
+ * Research from Chat
+ *
+ * Runs the cyclic research graph as a subgraph of the chat, using the
+ * latest user message as the topic. The synthesis is added to the
+ * thread as an assistant message; progress reaches the chat stream
+ * through the subgraph's node events (see streamAgent). The thread's
+ * persona writes the report: its system prompt, model and settings go
+ * to the synthesizer.
+ */
+
+/**
+ * Tag on the research subgraph run, so streams can report its progress
+ */
+export const RESEARCH_TAG = "chat_research";
+
+/**
+ * Research graph nodes that report progress
+ */
+export const RESEARCH_NODES = ["generate_queries", "search", "grade", "decide", "synthesize"];
+
+const researchGraph = buildResearchGraph();
+
+function contentToString(content: BaseMessage["content"]): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+/**
+ * Graph node: research the latest user message and reply with the synthesis
+ */
+export async function researchTopic(
+  state: SupervisorState,
+  config?: RunnableConfig
+): Promise<Partial<typeof SupervisorAnnotation.Update>> {
+  const lastHuman = state.messages.findLast((m) => m._getType() === "human");
+  const topic = lastHuman ? contentToString(lastHuman.content) : "";
+
+  const persona = resolvePersona(state.persona);
+
+  const result = (await researchGraph.invoke(createInitialState(topic), {
+    ...config,
+    configurable: {
+      ...config?.configurable,
+      models: getPersonaModelOverrides(persona, getModelOverrides(config), "synthesizer"),
+      research_instructions: persona.systemPrompt,
+      research_settings: persona.settings,
+    },
+    tags: [...(config?.tags ?? []), RESEARCH_TAG],
+  })) as ResearchState;
+
+  return {
+    messages: [new AIMessage(result.synthesis || "The research did not produce a summary.")],
+  };
+}
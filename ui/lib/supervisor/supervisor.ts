@@ -0,0 +1,173 @@
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { Annotation, MessagesAnnotation } from "@langchain/langgraph";
+import { getModel, getModelForConfig, getModelOverrides } from "../models";
+import { Persona, getPersonaModelOverrides, resolvePersona } from "../personas";
+import type { GuardrailViolation } from "../guardrails";
+import { buildMemoryMessage, type MemoryFact } from "../memory";
+import { SupervisorRoute } from "./types";
+
+/**
+ * Supervisor
+ *
+ * Classifies the latest user message with the "supervisor" model role
+ * and records the chosen route in the graph state. Anything the
+ * classifier doesn't answer clearly goes to the tool agent, which can
+ * handle every kind of turn, just less cheaply.
+ *
+ * The classifier only picks from the routes the thread's persona allows:
+ * research searches the web, so it needs RESEARCH_TOOL in the persona's
+ * tools (and in the run's allowed tools, when it has a list).
+ *
+ * A run can skip the classifier by setting `supervisor_route` in its
+ * configurable (see AgentRunOptions.supervisorRoute), if its persona may
+ * take that route.
+ */
+
+const ROUTES: SupervisorRoute[] = ["respond", "agent", "research"];
+
+const ROUTE_DESCRIPTIONS: Record<SupervisorRoute, string> = {
+  respond: "greetings, small talk, or questions answerable from the conversation or general knowledge without tools",
+  agent: "needs a tool: weather, calculations or math word problems, the user's uploaded study materials/PDFs, or remembering, recalling or forgetting facts about the user",
+  research: "asks for in-depth research on a topic that needs searching the web and synthesizing several sources",
+};
+
+/**
+ * Tool name a persona lists to allow the research route
+ */
+export const RESEARCH_TOOL = "web_research";
+
+const DEFAULT_ROUTE: SupervisorRoute = "agent";
+
+// How many recent messages the classifier sees, for follow-ups like "yes, do that"
+const CONTEXT_MESSAGES = 6;
+
+/**
+ * Tag on the classifier's model run, so streams can skip its tokens
+ */
+export const SUPERVISOR_TAG = "supervisor_route";
+
+/**
+ * Chat graph state: the conversation, the thread's persona and user ids,
+ * the route for the current turn, the user's facts recalled for it,
+ * whether it was answered from the response cache and the output policy
+ * violations of its answer
+ */
+export const SupervisorAnnotation = Annotation.Root({
+  ...MessagesAnnotation.spec,
+  persona: Annotation<string>(),
+  userId: Annotation<string>(),
+  route: Annotation<SupervisorRoute>(),
+  memories: Annotation<MemoryFact[]>(),
+  cacheHit: Annotation<boolean>(),
+  violations: Annotation<GuardrailViolation[]>(),
+});
+
+export type SupervisorState = typeof SupervisorAnnotation.State;
+
+function contentToString(content: BaseMessage["content"]): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+function toTranscript(messages: BaseMessage[]): string {
+  return messages
+    .filter((m) => m._getType() === "human" || m._getType() === "ai")
+    .slice(-CONTEXT_MESSAGES)
+    .map((m) => `${m._getType() === "human" ? "User" : "Assistant"}: ${contentToString(m.content)}`)
+    .join("\n");
+}
+
+function buildRoutingPrompt(transcript: string, routes: SupervisorRoute[]): string {
+  return `You route messages in a study assistant chat. Read the conversation and classify the user's LAST message.
+
+Routes:
+${routes.map((route) => `- ${route}: ${ROUTE_DESCRIPTIONS[route]}`).join("\n")}
+
+Conversation:
+${transcript}
+
+Answer with exactly one word: ${routes.slice(0, -1).join(", ")} or ${routes.at(-1)}.`;
+}
+
+/**
+ * Routes a persona may take; the tool agent is always allowed, since it
+ * also answers turns its persona has no tools for
+ *
+ * @param allowedTools - The run's tool list, when it narrows the persona's
+ */
+export function getAvailableRoutes(persona: Persona, allowedTools?: string[]): SupervisorRoute[] {
+  const canResearch =
+    (!persona.tools || persona.tools.includes(RESEARCH_TOOL)) &&
+    (!allowedTools || allowedTools.includes(RESEARCH_TOOL));
+
+  return ROUTES.filter((route) => route !== "research" || canResearch);
+}
+
+/**
+ * Pull the route out of the classifier's answer
+ *
+ * @param routes - The routes it may pick; anything else goes to the default
+ */
+export function parseRoute(text: string, routes: SupervisorRoute[] = ROUTES): SupervisorRoute {
+  const normalized = text.trim().toLowerCase();
+  return routes.find((route) => normalized.startsWith(route)) ?? DEFAULT_ROUTE;
+}
+
+/**
+ * Graph node: classify the latest user message
+ */
+export async function classifyTurn(
+  state: SupervisorState,
+  config?: RunnableConfig
+): Promise<Partial<typeof SupervisorAnnotation.Update>> {
+  const routes = getAvailableRoutes(
+    resolvePersona(state.persona),
+    config?.configurable?.allowed_tools as string[] | undefined
+  );
+
+  // A forced route the persona may not take is classified like any turn
+  const forcedRoute = config?.configurable?.supervisor_route as SupervisorRoute | undefined;
+  if (forcedRoute && routes.includes(forcedRoute)) {
+    return { route: forcedRoute };
+  }
+
+  const model = getModelForConfig("supervisor", config);
+  const response = await model.invoke(
+    [new HumanMessage(buildRoutingPrompt(toTranscript(state.messages), routes))],
+    { ...config, tags: [...(config?.tags ?? []), SUPERVISOR_TAG] }
+  );
+
+  return { route: parseRoute(contentToString(response.content), routes) };
+}
+
+/**
+ * Conditional edge: follow the route picked by classifyTurn
+ */
+export function selectRoute(state: SupervisorState): SupervisorRoute {
+  return state.route ?? DEFAULT_ROUTE;
+}
+
+/**
+ * Graph node: answer directly with the chat model, without tools
+ */
+export async function respondDirectly(
+  state: SupervisorState,
+  config?: RunnableConfig
+): Promise<Partial<typeof SupervisorAnnotation.Update>> {
+  const persona = resolvePersona(state.persona);
+  const model = getModel(
+    "chat",
+    getPersonaModelOverrides(persona, getModelOverrides(config)),
+    persona.settings
+  );
+
+  const memoryMessage = buildMemoryMessage(state.memories);
+  const messages = [
+    ...(persona.systemPrompt ? [new SystemMessage(persona.systemPrompt)] : []),
+    ...(memoryMessage ? [memoryMessage] : []),
+    ...state.messages,
+  ];
+  const response = await model.invoke(messages, config);
+
+  return { messages: [response] };
+}
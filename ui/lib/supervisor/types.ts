@@ -0,0 +1,22 @@
+/**
+ * Types for the Supervisor Graph
+ *
+ * The supervisor classifies each chat turn and hands it to the part of
+ * the system best suited to answer it.
+ */
+
+/**
+ * - respond: answer directly from the conversation, no tools
+ * - agent: the ReAct tool agent (weather, math, study materials)
+ * - research: the cyclic web research graph
+ */
+export type SupervisorRoute = "respond" | "agent" | "research";
+
+/**
+ * Progress from one step of a research run inside the chat
+ */
+export interface ResearchProgress {
+  node: string;
+  status?: string;
+  logs: string[];
+}
@@ -0,0 +1,382 @@
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { agent } from "../agent";
+import { DEFAULT_PERSONA_ID, validatePersona } from "../personas";
+import { SUMMARY_MESSAGE_ID } from "../summarization";
+import { serializeMessage, generateThreadId, getThread, getThreadTitle } from "./threads";
+import {
+  Citation,
+  ExportedMessage,
+  ThreadDetail,
+  ThreadExport,
+} from "./types";
+
+/**
+ * Thread Export and Import
+ *
+ * Exports a thread as Markdown, a printable HTML transcript, or JSON with
+ * every message including tool calls and results. Answers keep the study
+ * materials their turn's query_study_materials calls found as citations.
+ * A JSON export can be imported into a new thread and continued there.
+ */
+
+const EXPORT_VERSION = 1;
+const ROLES = ["human", "ai", "tool", "system"];
+
+const ROLE_LABELS: Record<ExportedMessage["role"], string> = {
+  human: "You",
+  ai: "Assistant",
+  tool: "Tool",
+  system: "Note",
+};
+
+/**
+ * Read the sources out of a query_study_materials result
+ */
+function parseCitations(content: string): Citation[] {
+  try {
+    const result = JSON.parse(content);
+    if (!Array.isArray(result?.sources)) {
+      return [];
+    }
+    return result.sources
+      .filter((source: { filename?: unknown }) => typeof source?.filename === "string")
+      .map((source: { filename: string; relevance?: number }) => ({
+        filename: source.filename,
+        relevance: source.relevance,
+      }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Serialize messages, attaching each turn's citations to its final answer
+ */
+function exportMessages(messages: BaseMessage[]): ExportedMessage[] {
+  const exported: ExportedMessage[] = [];
+  const toolNames = new Map<string, string>();
+  let citations = new Map<string, Citation>();
+
+  for (const message of messages) {
+    const serialized: ExportedMessage = serializeMessage(message);
+
+    if (serialized.role === "human") {
+      citations = new Map();
+    }
+    for (const call of serialized.toolCalls ?? []) {
+      if (call.id) {
+        toolNames.set(call.id, call.name);
+      }
+    }
+    if (serialized.role === "tool" && toolNames.get(serialized.toolCallId ?? "") === "query_study_materials") {
+      for (const citation of parseCitations(serialized.content)) {
+        // Keep the best relevance of a file found more than once
+        const existing = citations.get(citation.filename);
+        if (!existing || (citation.relevance ?? 0) > (existing.relevance ?? 0)) {
+          citations.set(citation.filename, citation);
+        }
+      }
+    }
+    if (serialized.role === "ai" && !serialized.toolCalls?.length && citations.size > 0) {
+      serialized.citations = Array.from(citations.values());
+    }
+
+    exported.push(serialized);
+  }
+
+  return exported;
+}
+
+/**
+ * Export a thread's current messages
+ *
+ * @returns The export, or null if the thread doesn't exist
+ */
+export async function exportThread(threadId: string): Promise<ThreadExport | null> {
+  const state = await agent.getState({ configurable: { thread_id: threadId } });
+  if (!state.createdAt) {
+    return null;
+  }
+
+  const messages = (state.values.messages ?? []) as BaseMessage[];
+  return {
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    threadId,
+    title: getThreadTitle(messages),
+    persona: state.values.persona ?? DEFAULT_PERSONA_ID,
+    ...(state.values.userId ? { userId: state.values.userId } : {}),
+    messages: exportMessages(messages),
+  };
+}
+
+function formatRelevance(citation: Citation): string {
+  return typeof citation.relevance === "number" ? ` (relevance ${citation.relevance.toFixed(2)})` : "";
+}
+
+function formatArgs(args: Record<string, unknown>): string {
+  return JSON.stringify(args);
+}
+
+/**
+ * Render an export as a Markdown transcript
+ *
+ * Tool results are left out; the calls and the citations stay.
+ */
+export function renderMarkdown(data: ThreadExport): string {
+  const lines = [
+    `# ${data.title}`,
+    "",
+    `- Thread: ${data.threadId}`,
+    `- Persona: ${data.persona}`,
+    `- Exported: ${data.exportedAt}`,
+  ];
+
+  for (const message of data.messages) {
+    if (message.role === "tool") {
+      continue;
+    }
+
+    const parts: string[] = [];
+    if (message.role === "system") {
+      parts.push(...message.content.split("\n").map((line) => `> ${line}`));
+    } else if (message.content) {
+      parts.push(message.content);
+    }
+    for (const call of message.toolCalls ?? []) {
+      parts.push(`*Used \`${call.name}\` with \`${formatArgs(call.args)}\`*`);
+    }
+    if (message.citations?.length) {
+      parts.push(
+        "**Sources:**",
+        ...message.citations.map((c) => `- ${c.filename}${formatRelevance(c)}`)
+      );
+    }
+
+    if (parts.length > 0) {
+      lines.push("", `## ${ROLE_LABELS[message.role]}`, "", parts.join("\n\n"));
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const HTML_STYLE = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; line-height: 1.5; }
+  header { border-bottom: 1px solid #ccc; margin-bottom: 1.5rem; }
+  header p { color: #555; font-size: 0.875rem; margin: 0.25rem 0; }
+  .message { margin-bottom: 1.25rem; page-break-inside: avoid; }
+  .role { font-weight: 600; font-size: 0.875rem; color: #444; }
+  .content { white-space: pre-wrap; }
+  .human .content { background: #eef4ff; padding: 0.5rem 0.75rem; border-radius: 0.5rem; }
+  .system .content { color: #555; font-style: italic; }
+  .tool-call, .citations { font-size: 0.8125rem; color: #555; }
+  .citations ul { margin: 0.25rem 0; padding-left: 1.25rem; }
+  @media print { body { margin: 0; max-width: none; } }
+`;
+
+/**
+ * Render an export as a standalone, printable HTML transcript
+ */
+export function renderHtml(data: ThreadExport): string {
+  const messages = data.messages
+    .filter((message) => message.role !== "tool")
+    .map((message) => {
+      const parts: string[] = [];
+      if (message.content) {
+        parts.push(`<div class="content">${escapeHtml(message.content)}</div>`);
+      }
+      for (const call of message.toolCalls ?? []) {
+        parts.push(
+          `<div class="tool-call">Used <code>${escapeHtml(call.name)}</code> with <code>${escapeHtml(formatArgs(call.args))}</code></div>`
+        );
+      }
+      if (message.citations?.length) {
+        const items = message.citations
+          .map((c) => `<li>${escapeHtml(c.filename)}${escapeHtml(formatRelevance(c))}</li>`)
+          .join("");
+        parts.push(`<div class="citations">Sources:<ul>${items}</ul></div>`);
+      }
+      if (parts.length === 0) {
+        return "";
+      }
+      return `<section class="message ${message.role}"><div class="role">${ROLE_LABELS[message.role]}</div>${parts.join("")}</section>`;
+    })
+    .filter(Boolean)
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(data.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(data.title)}</h1>
+<p>Thread ${escapeHtml(data.threadId)} · Persona ${escapeHtml(data.persona)} · Exported ${escapeHtml(data.exportedAt)}</p>
+</header>
+<main>
+${messages}
+</main>
+</body>
+</html>
+`;
+}
+
+/**
+ * Check that a request body is a JSON thread export
+ */
+export function validateThreadExport(data: unknown): string | null {
+  if (!data || typeof data !== "object") {
+    return "Body must be a JSON thread export";
+  }
+
+  const { version, persona, userId, messages } = data as Partial<ThreadExport>;
+  if (version !== EXPORT_VERSION) {
+    return `Unsupported export version ${String(version)}; expected ${EXPORT_VERSION}`;
+  }
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return "messages must be a non-empty array";
+  }
+  if (userId !== undefined && (typeof userId !== "string" || !userId.trim())) {
+    return "userId must be a non-empty string";
+  }
+
+  const personaError = validatePersona(persona);
+  if (personaError) {
+    return personaError;
+  }
+
+  // Tool calls still waiting for their results
+  const openCalls = new Set<string>();
+
+  for (const [index, message] of messages.entries()) {
+    if (!message || !ROLES.includes(message.role) || typeof message.content !== "string") {
+      return `messages[${index}] must have a role (${ROLES.join(", ")}) and string content`;
+    }
+    // Other system messages would be instructions the thread never had
+    if (message.role === "system" && (index !== 0 || message.id !== SUMMARY_MESSAGE_ID)) {
+      return `messages[${index}] is a system message; only the conversation summary can be imported`;
+    }
+    if (message.toolCalls !== undefined && (message.role !== "ai" || !Array.isArray(message.toolCalls))) {
+      return `messages[${index}].toolCalls must be an array on an ai message`;
+    }
+
+    if (message.role === "tool") {
+      if (typeof message.toolCallId !== "string" || !openCalls.delete(message.toolCallId)) {
+        return `messages[${index}] is a tool result without a matching tool call`;
+      }
+      continue;
+    }
+    if (openCalls.size > 0) {
+      return `messages[${index}] follows tool calls that have no results`;
+    }
+
+    for (const [callIndex, call] of (message.toolCalls ?? []).entries()) {
+      const callError = validateToolCall(call);
+      if (callError) {
+        return `messages[${index}].toolCalls[${callIndex}] ${callError}`;
+      }
+      if (openCalls.has(call.id!)) {
+        return `messages[${index}].toolCalls[${callIndex}] repeats the id ${call.id}`;
+      }
+      openCalls.add(call.id!);
+    }
+  }
+
+  if (openCalls.size > 0) {
+    return "The last tool calls have no results";
+  }
+
+  return null;
+}
+
+/**
+ * Check the shape of an exported tool call
+ */
+function validateToolCall(call: unknown): string | null {
+  const { id, name, args } = (call ?? {}) as Partial<NonNullable<ExportedMessage["toolCalls"]>[number]>;
+  if (typeof id !== "string" || !id) {
+    return "must have a string id";
+  }
+  if (typeof name !== "string" || !name) {
+    return "must have a string name";
+  }
+  if (!args || typeof args !== "object" || Array.isArray(args)) {
+    return "must have an args object";
+  }
+  return null;
+}
+
+/**
+ * Turn an exported message back into a LangChain message
+ */
+function deserializeMessage(message: ExportedMessage): BaseMessage {
+  const fields = { id: message.id, content: message.content, name: message.name };
+
+  switch (message.role) {
+    case "human":
+      return new HumanMessage(fields);
+    case "system":
+      return new SystemMessage(fields);
+    case "tool":
+      return new ToolMessage({ ...fields, tool_call_id: message.toolCallId ?? "" });
+    case "ai":
+      return new AIMessage({
+        ...fields,
+        tool_calls: (message.toolCalls ?? []).map((call) => ({
+          id: call.id,
+          name: call.name,
+          args: call.args,
+          type: "tool_call" as const,
+        })),
+      });
+  }
+}
+
+/**
+ * Rebuild an exported thread in the checkpointer as a new thread
+ *
+ * Message ids are kept, so editing and regenerating work on the
+ * imported messages. Validate the export with validateThreadExport first.
+ *
+ * @returns The new thread
+ */
+export async function importThread(data: ThreadExport): Promise<ThreadDetail> {
+  const messages = data.messages.map(deserializeMessage);
+  const threadId = generateThreadId();
+
+  await agent.updateState(
+    { configurable: { thread_id: threadId } },
+    {
+      messages,
+      persona: data.persona ?? DEFAULT_PERSONA_ID,
+      ...(data.userId ? { userId: data.userId } : {}),
+    },
+    // As the last node of a turn, so the thread waits for its next message
+    "guard_output"
+  );
+
+  const thread = await getThread(threadId);
+  if (!thread) {
+    throw new Error(`Imported thread ${threadId} could not be loaded`);
+  }
+  return thread;
+}
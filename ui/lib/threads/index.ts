@@ -0,0 +1,25 @@
+/**
+ * Thread Management Module
+ *
+ * Lists, loads, deletes, forks, exports and imports conversations
+ * stored in the agent's checkpointer, and plans edits and regenerations
+ * that rewind a thread to an earlier checkpoint.
+ */
+
+export * from "./types";
+export {
+  listThreads,
+  getThread,
+  deleteThread,
+  forkThread,
+  serializeMessage,
+  generateThreadId,
+} from "./threads";
+export {
+  exportThread,
+  importThread,
+  renderMarkdown,
+  renderHtml,
+  validateThreadExport,
+} from "./export";
+export { getCurrentBranch, planMessageEdit, planRegeneration } from "./timeTravel";
@@ -0,0 +1,225 @@
+import { BaseMessage, isAIMessage, isToolMessage } from "@langchain/core/messages";
+import { agent } from "../agent";
+import { DEFAULT_PERSONA_ID } from "../personas";
+import { getCheckpointer, deleteThreadCheckpoints } from "../checkpointer";
+import { copyThreadVault } from "../guardrails";
+import {
+  ThreadSummary,
+  ThreadDetail,
+  ThreadCheckpoint,
+  SerializedMessage,
+} from "./types";
+
+const TITLE_MAX_LENGTH = 60;
+
+/**
+ * Generate a new thread ID (same format the chat page uses)
+ */
+export function generateThreadId(): string {
+  return `thread-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function contentToString(content: BaseMessage["content"]): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+/**
+ * Convert a LangChain message into a JSON-friendly shape for the API
+ */
+export function serializeMessage(message: BaseMessage): SerializedMessage {
+  const serialized: SerializedMessage = {
+    id: message.id,
+    role: message._getType() as SerializedMessage["role"],
+    content: contentToString(message.content),
+  };
+
+  if (message.name) {
+    serialized.name = message.name;
+  }
+  if (isAIMessage(message) && message.tool_calls?.length) {
+    serialized.toolCalls = message.tool_calls.map((call) => ({
+      id: call.id,
+      name: call.name,
+      args: call.args,
+    }));
+  }
+  if (isToolMessage(message)) {
+    serialized.toolCallId = message.tool_call_id;
+  }
+
+  return serialized;
+}
+
+/**
+ * Use the first human message as the thread title
+ */
+export function getThreadTitle(messages: BaseMessage[]): string {
+  const firstHuman = messages.find((m) => m._getType() === "human");
+  if (!firstHuman) {
+    return "New conversation";
+  }
+
+  const text = contentToString(firstHuman.content).trim();
+  return text.length > TITLE_MAX_LENGTH
+    ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…`
+    : text;
+}
+
+/**
+ * List all threads in the checkpointer, most recently updated first
+ */
+export async function listThreads(): Promise<ThreadSummary[]> {
+  const checkpointer = getCheckpointer();
+  const threads = new Map<string, ThreadSummary>();
+
+  // Only root-namespace checkpoints describe the conversation itself
+  for await (const tuple of checkpointer.list({ configurable: { checkpoint_ns: "" } })) {
+    const threadId = tuple.config.configurable?.thread_id as string;
+    const existing = threads.get(threadId);
+
+    if (existing) {
+      // Checkpoints are listed newest first, so keep pushing createdAt back
+      if (tuple.checkpoint.ts < existing.createdAt) {
+        existing.createdAt = tuple.checkpoint.ts;
+      }
+      continue;
+    }
+
+    const messages = (tuple.checkpoint.channel_values.messages ?? []) as BaseMessage[];
+    threads.set(threadId, {
+      threadId,
+      title: getThreadTitle(messages),
+      persona: (tuple.checkpoint.channel_values.persona as string | undefined) ?? DEFAULT_PERSONA_ID,
+      messageCount: messages.length,
+      createdAt: tuple.checkpoint.ts,
+      updatedAt: tuple.checkpoint.ts,
+    });
+  }
+
+  return Array.from(threads.values())
+    .filter((thread) => thread.messageCount > 0)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * Flag the checkpoints reachable from the latest one through parent links
+ *
+ * @param checkpoints - A thread's checkpoints, newest first
+ */
+function markCurrentBranch(checkpoints: ThreadCheckpoint[]): void {
+  const byId = new Map(checkpoints.map((c) => [c.checkpointId, c]));
+
+  let current: ThreadCheckpoint | undefined = checkpoints[0];
+  while (current) {
+    current.onCurrentBranch = true;
+    current = current.parentCheckpointId ? byId.get(current.parentCheckpointId) : undefined;
+  }
+}
+
+/**
+ * Load a thread's full message history and its checkpoints
+ *
+ * Checkpoints from every branch are listed, including those abandoned
+ * by editing or regenerating a message.
+ *
+ * @param threadId - Thread to load
+ * @param checkpointId - Optional checkpoint to load the messages from
+ *   (default: latest), e.g. to look at an abandoned branch
+ * @returns The thread, or null if it has no checkpoints
+ */
+export async function getThread(
+  threadId: string,
+  checkpointId?: string
+): Promise<ThreadDetail | null> {
+  const config = { configurable: { thread_id: threadId } };
+  const state = await agent.getState({
+    configurable: { thread_id: threadId, checkpoint_id: checkpointId },
+  });
+
+  if (!state.createdAt) {
+    return null;
+  }
+
+  const checkpoints: ThreadCheckpoint[] = [];
+  for await (const snapshot of agent.getStateHistory(config)) {
+    checkpoints.push({
+      checkpointId: snapshot.config.configurable?.checkpoint_id,
+      parentCheckpointId: snapshot.parentConfig?.configurable?.checkpoint_id,
+      createdAt: snapshot.createdAt,
+      step: snapshot.metadata?.step,
+      messageCount: (snapshot.values.messages ?? []).length,
+      next: snapshot.next,
+      onCurrentBranch: false,
+    });
+  }
+  markCurrentBranch(checkpoints);
+
+  const messages = (state.values.messages ?? []) as BaseMessage[];
+
+  return {
+    threadId,
+    title: getThreadTitle(messages),
+    persona: state.values.persona ?? DEFAULT_PERSONA_ID,
+    messageCount: messages.length,
+    createdAt: checkpoints.at(-1)?.createdAt ?? state.createdAt,
+    updatedAt: checkpoints[0]?.createdAt ?? state.createdAt,
+    messages: messages.map(serializeMessage),
+    checkpoints,
+  };
+}
+
+/**
+ * Delete a thread and all of its checkpoints
+ *
+ * @returns false if the thread did not exist
+ */
+export async function deleteThread(threadId: string): Promise<boolean> {
+  const state = await agent.getState({ configurable: { thread_id: threadId } });
+  if (!state.createdAt) {
+    return false;
+  }
+
+  await deleteThreadCheckpoints(threadId);
+  return true;
+}
+
+/**
+ * Fork a thread into a new thread
+ *
+ * Copies the messages as they were at the given checkpoint (or the latest
+ * one), the thread's persona and its user into a fresh thread, which can then be
+ * continued independently. The thread's PII placeholders (see
+ * lib/guardrails) are copied along, so they restore in the fork too.
+ *
+ * @param threadId - Thread to fork from
+ * @param checkpointId - Optional earlier checkpoint to fork from
+ * @returns The new thread, or null if the source checkpoint doesn't exist
+ */
+export async function forkThread(
+  threadId: string,
+  checkpointId?: string
+): Promise<ThreadDetail | null> {
+  const source = await agent.getState({
+    configurable: { thread_id: threadId, checkpoint_id: checkpointId },
+  });
+
+  if (!source.createdAt) {
+    return null;
+  }
+
+  const newThreadId = generateThreadId();
+  // Tool calls in the copied messages keep the source thread's PII placeholders
+  copyThreadVault(threadId, newThreadId);
+  await agent.updateState(
+    { configurable: { thread_id: newThreadId } },
+    {
+      messages: source.values.messages ?? [],
+      persona: source.values.persona ?? DEFAULT_PERSONA_ID,
+      ...(source.values.userId ? { userId: source.values.userId } : {}),
+    },
+    // As the last node of a turn, so the fork waits for its next message
+    "guard_output"
+  );
+
+  return getThread(newThreadId);
+}
@@ -0,0 +1,112 @@
+import { BaseMessage, HumanMessage } from "@langchain/core/messages";
+import type { StateSnapshot } from "@langchain/langgraph";
+import { agent } from "../agent";
+import { DEFAULT_PERSONA_ID } from "../personas";
+import { RewindPlan } from "./types";
+
+/**
+ * Checkpoint Time-Travel
+ *
+ * Editing a human message or regenerating the last answer rewinds the
+ * thread to the checkpoint just before that message and replays from
+ * there with the new text. LangGraph forks a new branch off the older
+ * checkpoint, so the abandoned branch stays in the checkpointer and can
+ * still be loaded or forked by checkpoint id.
+ */
+
+/**
+ * The current branch of a thread, newest checkpoint first
+ *
+ * The history lists every checkpoint of the thread, including abandoned
+ * branches; following parent links from the latest one skips those.
+ */
+export async function getCurrentBranch(threadId: string): Promise<StateSnapshot[]> {
+  const byId = new Map<string, StateSnapshot>();
+  let latest: StateSnapshot | undefined;
+
+  for await (const snapshot of agent.getStateHistory({ configurable: { thread_id: threadId } })) {
+    latest ??= snapshot;
+    byId.set(snapshot.config.configurable?.checkpoint_id, snapshot);
+  }
+
+  const branch: StateSnapshot[] = [];
+  let current = latest;
+  while (current) {
+    branch.push(current);
+    current = byId.get(current.parentConfig?.configurable?.checkpoint_id);
+  }
+
+  return branch;
+}
+
+/**
+ * Find the checkpoint from before a message was added to the thread
+ */
+async function findCheckpointBefore(threadId: string, messageId: string): Promise<string | null> {
+  for (const snapshot of await getCurrentBranch(threadId)) {
+    const messages = (snapshot.values.messages ?? []) as BaseMessage[];
+    if (!messages.some((m) => m.id === messageId)) {
+      return snapshot.config.configurable?.checkpoint_id ?? null;
+    }
+  }
+
+  return null;
+}
+
+async function getLatestState(threadId: string) {
+  const state = await agent.getState({ configurable: { thread_id: threadId } });
+  return {
+    messages: (state.values.messages ?? []) as BaseMessage[],
+    persona: (state.values.persona as string | undefined) ?? DEFAULT_PERSONA_ID,
+    userId: state.values.userId as string | undefined,
+  };
+}
+
+/**
+ * Plan an edit of an earlier human message
+ *
+ * @returns Where to replay from and the edited message, or null if the
+ *   thread has no human message with that id
+ */
+export async function planMessageEdit(
+  threadId: string,
+  messageId: string,
+  content: BaseMessage["content"]
+): Promise<RewindPlan | null> {
+  const { messages, persona, userId } = await getLatestState(threadId);
+  const original = messages.find((m) => m.id === messageId);
+
+  if (!original || original._getType() !== "human") {
+    return null;
+  }
+
+  const checkpointId = await findCheckpointBefore(threadId, messageId);
+  if (!checkpointId) {
+    return null;
+  }
+
+  return {
+    checkpointId,
+    replacedMessageId: messageId,
+    message: new HumanMessage({ content }),
+    persona,
+    ...(userId ? { userId } : {}),
+  };
+}
+
+/**
+ * Plan a regeneration of the last AI turn: replay the last human message
+ *
+ * @returns Where to replay from and the message to resend, or null if the
+ *   thread has no human message yet
+ */
+export async function planRegeneration(threadId: string): Promise<RewindPlan | null> {
+  const { messages } = await getLatestState(threadId);
+  const lastHuman = messages.findLast((m) => m._getType() === "human");
+
+  if (!lastHuman?.id) {
+    return null;
+  }
+
+  return planMessageEdit(threadId, lastHuman.id, lastHuman.content);
+}
@@ -0,0 +1,91 @@
+/**
+ * Types for the Thread Management API
+ *
+ * Threads are conversations stored in the agent's checkpointer,
+ * identified by their LangGraph thread_id.
+ */
+
+import type { HumanMessage } from "@langchain/core/messages";
+
+export interface ThreadSummary {
+  threadId: string;
+  title: string;
+  persona: string;
+  messageCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SerializedMessage {
+  id?: string;
+  role: "human" | "ai" | "tool" | "system";
+  content: string;
+  name?: string;
+  toolCalls?: Array<{ id?: string; name: string; args: Record<string, unknown> }>;
+  toolCallId?: string;
+}
+
+/**
+ * A point in a thread's history that can be forked from
+ */
+export interface ThreadCheckpoint {
+  checkpointId: string;
+  parentCheckpointId?: string;
+  createdAt?: string;
+  step?: number;
+  messageCount: number;
+  next: string[];
+  /** False for checkpoints on branches abandoned by an edit or regeneration */
+  onCurrentBranch: boolean;
+}
+
+export interface ThreadDetail extends ThreadSummary {
+  messages: SerializedMessage[];
+  checkpoints: ThreadCheckpoint[];
+}
+
+/**
+ * How to replay a thread from an earlier checkpoint
+ */
+export interface RewindPlan {
+  /** Checkpoint from just before the replaced message */
+  checkpointId: string;
+  /** Human message being edited or regenerated */
+  replacedMessageId: string;
+  /** Message to send from that checkpoint */
+  message: HumanMessage;
+  /** The thread's persona, restored when replaying from before the first message */
+  persona: string;
+  /** The thread's user, restored like the persona */
+  userId?: string;
+}
+
+export const EXPORT_FORMATS = ["markdown", "json", "html"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * A study material an answer drew on, from query_study_materials
+ */
+export interface Citation {
+  filename: string;
+  relevance?: number;
+}
+
+export interface ExportedMessage extends SerializedMessage {
+  /** On answers: the study materials found by the turn's query_study_materials calls */
+  citations?: Citation[];
+}
+
+/**
+ * A thread as written by the JSON export and read by the import
+ */
+export interface ThreadExport {
+  version: 1;
+  exportedAt: string;
+  threadId: string;
+  title: string;
+  persona: string;
+  userId?: string;
+  messages: ExportedMessage[];
+}
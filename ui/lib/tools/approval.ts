@@ -0,0 +1,155 @@
+import { AIMessage, BaseMessage, ToolMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { tool, StructuredToolInterface } from "@langchain/core/tools";
+import { interrupt } from "@langchain/langgraph";
+import { ToolNode } from "@langchain/langgraph/prebuilt";
+
+/**
+ * Human-in-the-loop Tool Approval
+ *
+ * Tools listed in TOOLS_REQUIRING_APPROVAL (comma-separated, default:
+ * "calculate", which evaluates raw JavaScript) are wrapped so that calling
+ * them raises a LangGraph interrupt. The thread pauses at its checkpoint
+ * until it is resumed with an approve, edit or reject decision.
+ *
+ * A resume answers a single call, so a step runs at most one call that
+ * needs approval: when the model asks for several tools at once and one
+ * of them needs approval, only that one runs, and the others are answered
+ * with a note to call them again afterwards. Otherwise one decision would
+ * cover calls the user never saw, and the other tools would run twice.
+ */
+
+const DEFAULT_TOOLS_REQUIRING_APPROVAL = ["calculate"];
+
+/**
+ * Tag on the inner tool run, so streams can skip the duplicate events
+ */
+export const APPROVED_TOOL_TAG = "approved_tool_call";
+
+/**
+ * The tool call a paused thread is waiting on
+ */
+export interface PendingToolCall {
+  toolCallId?: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * How the user answered a pending tool call
+ */
+export type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; args: Record<string, unknown> }
+  | { action: "reject"; reason?: string };
+
+/**
+ * Names of the tools that need approval before they run
+ */
+export function getToolsRequiringApproval(): string[] {
+  const configured = process.env.TOOLS_REQUIRING_APPROVAL;
+  if (configured === undefined) {
+    return DEFAULT_TOOLS_REQUIRING_APPROVAL;
+  }
+
+  return configured
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+}
+
+/**
+ * Wrap a tool so it pauses for human approval before running
+ */
+export function requireApproval(wrapped: StructuredToolInterface): StructuredToolInterface {
+  return tool(
+    async (args: Record<string, unknown>, config) => {
+      // Pauses the thread on first run; returns the decision on resume
+      const decision = interrupt<PendingToolCall, ApprovalDecision>({
+        toolCallId: config?.toolCall?.id,
+        name: wrapped.name,
+        args,
+      });
+
+      if (decision.action === "reject") {
+        const reason = decision.reason ? ` (${decision.reason})` : "";
+        return `The user rejected this ${wrapped.name} call${reason}. Do not retry it unless asked.`;
+      }
+
+      const finalArgs = decision.action === "edit" ? decision.args : args;
+      return wrapped.invoke(finalArgs, {
+        ...config,
+        tags: [...(config?.tags ?? []), APPROVED_TOOL_TAG],
+      });
+    },
+    {
+      name: wrapped.name,
+      description: wrapped.description,
+      schema: wrapped.schema,
+    }
+  ) as StructuredToolInterface;
+}
+
+/**
+ * Wrap the configured tools with approval, leaving the others untouched
+ *
+ * `alsoRequiringApproval` names more tools to wrap, e.g. those an MCP
+ * server's config asks approval for.
+ */
+export function applyApprovalPolicy(
+  tools: StructuredToolInterface[],
+  alsoRequiringApproval: string[] = []
+): StructuredToolInterface[] {
+  const requiringApproval = new Set([...getToolsRequiringApproval(), ...alsoRequiringApproval]);
+  return tools.map((t) => (requiringApproval.has(t.name) ? requireApproval(t) : t));
+}
+
+/**
+ * Tool node that runs a call needing approval on its own
+ */
+class ApprovalToolNode extends ToolNode {
+  constructor(
+    tools: StructuredToolInterface[],
+    private requiringApproval: Set<string>
+  ) {
+    super(tools);
+  }
+
+  protected async run(input: { messages: BaseMessage[] }, config: RunnableConfig) {
+    const message = input.messages.at(-1) as AIMessage;
+    const calls = message.tool_calls ?? [];
+    const held = calls.find((call) => this.requiringApproval.has(call.name));
+    if (!held || calls.length === 1) {
+      return super.run(input, config);
+    }
+
+    const deferred = calls
+      .filter((call) => call !== held)
+      .map(
+        (call) =>
+          new ToolMessage({
+            name: call.name,
+            tool_call_id: call.id ?? "",
+            content: `Not run: ${held.name} needs the user's approval first. Call ${call.name} again afterwards if it is still needed.`,
+          })
+      );
+
+    const alone = new AIMessage({ id: message.id, content: message.content, tool_calls: [held] });
+    const result = await super.run({ ...input, messages: [...input.messages.slice(0, -1), alone] }, config);
+    return Array.isArray(result) ? [...result, { messages: deferred }] : { messages: [...result.messages, ...deferred] };
+  }
+}
+
+/**
+ * The tool node of a ReAct agent, with the approval policy applied
+ *
+ * `alsoRequiringApproval` names more tools that need approval, e.g. those
+ * an MCP server's config asks approval for.
+ */
+export function createApprovalToolNode(
+  tools: StructuredToolInterface[],
+  alsoRequiringApproval: string[] = []
+): ToolNode {
+  const requiringApproval = new Set([...getToolsRequiringApproval(), ...alsoRequiringApproval]);
+  return new ApprovalToolNode(applyApprovalPolicy(tools, alsoRequiringApproval), requiringApproval);
+}
@@ -2,4 +2,14 @@ export { getWeather } from "./weather";
 export { calculate } from "./calculate";
 export { solveMathPuzzle } from "./mathPuzzle";
 export { queryStudyMaterials, listStudyMaterials } from "./studyBuddy";
+export { saveUserMemory, recallUserMemories, forgetUserMemory } from "./memory";
 
+export {
+  requireApproval,
+  applyApprovalPolicy,
+  createApprovalToolNode,
+  getToolsRequiringApproval,
+  APPROVED_TOOL_TAG,
+  type PendingToolCall,
+  type ApprovalDecision,
+} from "./approval";
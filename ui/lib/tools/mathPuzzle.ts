@@ -1,7 +1,8 @@
 import { tool } from "@langchain/core/tools";
 import { z } from "zod";
-import { ChatGroq } from "@langchain/groq";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { getModelForConfig } from "../models";
 import { safeEvaluate } from "../utils/mathEvaluator";
 
 /**
@@ -14,11 +15,6 @@ import { safeEvaluate } from "../utils/mathEvaluator";
  * This ensures accurate calculations while leveraging LLM for understanding.
  */
 
-const parserModel = new ChatGroq({
-  model: "llama-3.3-70b-versatile",
-  temperature: 0, // Deterministic for consistent parsing
-});
-
 const PARSER_SYSTEM_PROMPT = `You are a math expression extractor. Your job is to:
 1. Read the word problem carefully
 2. Extract ONLY the mathematical expression needed to solve it
@@ -36,7 +32,13 @@ Examples:
 - "What is 15% of 200?" → "0.15 * 200"
 - "If you divide 144 by 12, then multiply by 3?" → "(144 / 12) * 3"`;
 
-async function parseWordProblem(problem: string): Promise<string> {
+async function parseWordProblem(
+  problem: string,
+  config?: RunnableConfig
+): Promise<string> {
+  // The "parser" role runs at temperature 0 for consistent parsing
+  const parserModel = getModelForConfig("parser", config);
+
   const response = await parserModel.invoke([
     new SystemMessage(PARSER_SYSTEM_PROMPT),
     new HumanMessage(problem),
@@ -56,10 +58,10 @@ async function parseWordProblem(problem: string): Promise<string> {
 }
 
 export const solveMathPuzzle = tool(
-  async ({ problem }) => {
+  async ({ problem }, config) => {
     try {
       // Step 1: Parse the word problem into a math expression using LLM
-      const expression = await parseWordProblem(problem);
+      const expression = await parseWordProblem(problem, config);
       
       // Step 2: Safely evaluate the expression (no hallucination)
       const result = safeEvaluate(expression);
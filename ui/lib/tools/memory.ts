@@ -0,0 +1,94 @@
+import { tool } from "@langchain/core/tools";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { z } from "zod";
+import {
+  saveMemory,
+  searchMemories,
+  deleteMemory,
+  DEFAULT_USER_ID,
+  MEMORY_CATEGORIES,
+} from "../memory";
+
+/**
+ * Long-term Memory Tools
+ *
+ * Let the agent save, recall and forget facts about the user that should
+ * carry over to their other threads (see lib/memory). The user comes
+ * from `configurable.user_id`, which the chat graph sets from the thread.
+ */
+
+function getUserId(config?: RunnableConfig): string {
+  return (config?.configurable?.user_id as string | undefined) ?? DEFAULT_USER_ID;
+}
+
+export const saveUserMemory = tool(
+  async ({ fact, category }, config) => {
+    const memory = await saveMemory(
+      getUserId(config),
+      fact,
+      category,
+      config?.configurable?.thread_id as string | undefined
+    );
+    return JSON.stringify({ success: true, memory: { id: memory.id, content: memory.content, category: memory.category } });
+  },
+  {
+    name: "save_memory",
+    description:
+      "Remember a lasting fact about the user for future conversations, such as their course, level, goals or preferences. Use it when the user shares such a fact or asks you to remember something. Don't save one-off questions or temporary details.",
+    schema: z.object({
+      fact: z
+        .string()
+        .describe("The fact in one short sentence about the user, e.g. 'Is taking CS101 this semester'"),
+      category: z
+        .enum(MEMORY_CATEGORIES)
+        .optional()
+        .default("other")
+        .describe("What kind of fact it is"),
+    }),
+  }
+);
+
+export const recallUserMemories = tool(
+  async ({ query }, config) => {
+    const matches = await searchMemories(getUserId(config), query);
+    if (matches.length === 0) {
+      return JSON.stringify({ success: true, memories: [], message: "Nothing is remembered about the user yet." });
+    }
+    return JSON.stringify({
+      success: true,
+      memories: matches.map(({ fact, score }) => ({
+        id: fact.id,
+        content: fact.content,
+        category: fact.category,
+        relevance: Math.round(score * 100) / 100,
+      })),
+    });
+  },
+  {
+    name: "recall_memories",
+    description:
+      "Search what you remember about the user from earlier conversations. The most relevant memories are already given to you each turn; use this to look for others.",
+    schema: z.object({
+      query: z.string().describe("What to look for, e.g. 'course' or 'preferred explanation style'"),
+    }),
+  }
+);
+
+export const forgetUserMemory = tool(
+  async ({ memoryId }, config) => {
+    const deleted = deleteMemory(getUserId(config), memoryId);
+    return JSON.stringify(
+      deleted
+        ? { success: true, message: `Forgot memory ${memoryId}` }
+        : { success: false, message: `No memory with id ${memoryId}. Use recall_memories to find its id.` }
+    );
+  },
+  {
+    name: "forget_memory",
+    description:
+      "Forget a fact about the user, when they ask you to or when it is no longer true. Save the corrected fact afterwards if there is one.",
+    schema: z.object({
+      memoryId: z.string().describe("Id of the memory, from recall_memories or the memories you were given"),
+    }),
+  }
+);
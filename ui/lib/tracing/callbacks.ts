@@ -0,0 +1,173 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { APPROVED_TOOL_TAG } from "../tools";
+import { endSpan, getActiveSpan, RunSpanSource, setSpanAttributes, startSpan } from "./tracer";
+import { Span } from "./types";
+
+/**
+ * LangChain Tracing Callbacks
+ *
+ * Turns the runs of a LangGraph invocation into spans under the span
+ * that was active when the run started (usually the route's):
+ *
+ * - node: each graph node, including the nodes of subgraphs
+ * - tool: each tool call, with its input and output
+ * - llm: each chat model call, with its model and token usage
+ *
+ * Other runs (sequences, lambdas, the graph itself) get no span; their
+ * children attach to the closest traced ancestor.
+ */
+
+function contentToString(content: unknown): string {
+  return typeof content === "string" ? content : JSON.stringify(content);
+}
+
+export class TracingCallbackHandler extends BaseCallbackHandler implements RunSpanSource {
+  name = "tracing";
+
+  private readonly spans = new Map<string, Span>();
+  private readonly parentRunIds = new Map<string, string | undefined>();
+
+  constructor(private readonly rootSpan: Span) {
+    // Spans must exist before the run's code asks for its parent span
+    super({ _awaitHandler: true });
+  }
+
+  getSpanForRun(runId: string): Span | undefined {
+    let current: string | undefined = runId;
+    while (current) {
+      const span = this.spans.get(current);
+      if (span) {
+        return span;
+      }
+      current = this.parentRunIds.get(current);
+    }
+    return undefined;
+  }
+
+  private start(
+    runId: string,
+    parentRunId: string | undefined,
+    name: string,
+    kind: Span["kind"],
+    attributes: Record<string, unknown>
+  ) {
+    const parent = (parentRunId && this.getSpanForRun(parentRunId)) || this.rootSpan;
+    this.spans.set(runId, startSpan(name, kind, attributes, parent));
+  }
+
+  private end(runId: string, attributes: Record<string, unknown> = {}, error?: unknown) {
+    const span = this.spans.get(runId);
+    if (span) {
+      setSpanAttributes(span, attributes);
+      endSpan(span, error);
+    }
+  }
+
+  handleChainStart(
+    _chain: Serialized,
+    _inputs: unknown,
+    runId: string,
+    parentRunId?: string,
+    _tags?: string[],
+    metadata?: Record<string, unknown>,
+    _runType?: string,
+    runName?: string
+  ) {
+    this.parentRunIds.set(runId, parentRunId);
+
+    // A node's run carries its own name in langgraph_node; "__start__" and friends are internal
+    const node = metadata?.langgraph_node;
+    if (runName && node === runName && !runName.startsWith("__")) {
+      this.start(runId, parentRunId, runName, "node", {
+        "langgraph.node": runName,
+        "langgraph.step": metadata?.langgraph_step,
+        "thread.id": metadata?.thread_id,
+      });
+    }
+  }
+
+  handleChainEnd(outputs: unknown, runId: string) {
+    const status = (outputs as { status?: unknown } | undefined)?.status;
+    this.end(runId, { "node.status": typeof status === "string" ? status : undefined });
+  }
+
+  handleChainError(error: Error, runId: string) {
+    this.end(runId, {}, error);
+  }
+
+  handleToolStart(
+    _tool: Serialized,
+    input: string,
+    runId: string,
+    parentRunId?: string,
+    tags?: string[],
+    _metadata?: Record<string, unknown>,
+    runName?: string
+  ) {
+    this.parentRunIds.set(runId, parentRunId);
+    this.start(runId, parentRunId, runName ?? "tool", "tool", {
+      "tool.name": runName,
+      "tool.input": input,
+      // The call inside an approval wrapper, after the user approved it
+      "tool.approved": tags?.includes(APPROVED_TOOL_TAG) || undefined,
+    });
+  }
+
+  handleToolEnd(output: unknown, runId: string) {
+    const content = (output as { content?: unknown } | undefined)?.content ?? output;
+    this.end(runId, { "tool.output": contentToString(content) });
+  }
+
+  handleToolError(error: Error, runId: string) {
+    this.end(runId, {}, error);
+  }
+
+  handleChatModelStart(
+    llm: Serialized,
+    messages: BaseMessage[][],
+    runId: string,
+    parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    this.parentRunIds.set(runId, parentRunId);
+
+    const provider = metadata?.ls_provider ?? llm.id.at(-1);
+    const model = metadata?.ls_model_name;
+    this.start(runId, parentRunId, `llm ${model ?? provider}`, "llm", {
+      "llm.provider": provider,
+      "llm.model": model,
+      "llm.messages": messages[0]?.length,
+      "langgraph.node": metadata?.langgraph_node,
+    });
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const message = (output.generations[0]?.[0] as ChatGeneration | undefined)?.message as
+      | { usage_metadata?: { input_tokens: number; output_tokens: number }; tool_calls?: unknown[] }
+      | undefined;
+
+    this.end(runId, {
+      "llm.input_tokens": message?.usage_metadata?.input_tokens,
+      "llm.output_tokens": message?.usage_metadata?.output_tokens,
+      "llm.tool_calls": message?.tool_calls?.length || undefined,
+    });
+  }
+
+  handleLLMError(error: Error, runId: string) {
+    this.end(runId, {}, error);
+  }
+}
+
+/**
+ * Callbacks that trace a LangChain run under the active span
+ * Empty outside a traced request.
+ */
+export function getTracingCallbacks(): BaseCallbackHandler[] {
+  const span = getActiveSpan();
+  return span ? [new TracingCallbackHandler(span)] : [];
+}
@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import { Span, SpanAttributeValue, TraceExporter, TraceExporterType } from "./types";
+
+/**
+ * Trace Exporters
+ *
+ * Configured with TRACE_EXPORTERS, a comma-separated list (default: none,
+ * traces then only live in memory for the viewer at /traces):
+ *
+ * - jsonl: appends one span per line to TRACE_JSONL_PATH
+ *   (default: .data/traces.jsonl); the viewer reloads it on startup
+ * - otlp: posts spans to OTEL_EXPORTER_OTLP_TRACES_ENDPOINT, or
+ *   OTEL_EXPORTER_OTLP_ENDPOINT + "/v1/traces" (default:
+ *   http://localhost:4318), in the OTLP/HTTP JSON format
+ */
+
+const EXPORTER_TYPES: TraceExporterType[] = ["jsonl", "otlp"];
+
+const DEFAULT_JSONL_PATH = path.join(process.cwd(), ".data", "traces.jsonl");
+
+const DEFAULT_OTLP_ENDPOINT = "http://localhost:4318";
+
+const SERVICE_NAME = "langchain-agent-ui";
+
+// OTLP span kinds: INTERNAL, SERVER, CLIENT
+const OTLP_SPAN_KINDS: Record<Span["kind"], number> = {
+  route: 2,
+  node: 1,
+  tool: 1,
+  llm: 3,
+  retrieval: 1,
+};
+
+// OTLP status codes: UNSET, OK, ERROR
+const OTLP_STATUS_CODES: Record<Span["status"], number> = {
+  unset: 0,
+  ok: 1,
+  error: 2,
+};
+
+/**
+ * Exporters listed in TRACE_EXPORTERS
+ */
+export function getTraceExporterTypes(): TraceExporterType[] {
+  const types = (process.env.TRACE_EXPORTERS ?? "")
+    .split(",")
+    .map((type) => type.trim())
+    .filter((type) => type.length > 0);
+
+  for (const type of types) {
+    if (!EXPORTER_TYPES.includes(type as TraceExporterType)) {
+      throw new Error(`Unknown trace exporter "${type}". Use one of: ${EXPORTER_TYPES.join(", ")}`);
+    }
+  }
+  return types as TraceExporterType[];
+}
+
+export function getTraceJsonlPath(): string {
+  return process.env.TRACE_JSONL_PATH || DEFAULT_JSONL_PATH;
+}
+
+function createJsonlExporter(filePath: string): TraceExporter {
+  let pendingWrite = Promise.resolve();
+
+  return {
+    export(spans) {
+      const lines = spans.map((span) => `${JSON.stringify(span)}\n`).join("");
+
+      // Appends are chained so lines never interleave
+      pendingWrite = pendingWrite
+        .then(async () => {
+          await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.promises.appendFile(filePath, lines, "utf-8");
+        })
+        .catch((error) => console.error("Failed to write traces:", error));
+
+      return pendingWrite;
+    },
+  };
+}
+
+function toOtlpValue(value: SpanAttributeValue) {
+  if (typeof value === "boolean") {
+    return { boolValue: value };
+  }
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toOtlpSpan(span: Span) {
+  const attributes = { ...span.attributes, "app.span_kind": span.kind };
+
+  return {
+    traceId: span.traceId,
+    spanId: span.spanId,
+    parentSpanId: span.parentSpanId,
+    name: span.name,
+    kind: OTLP_SPAN_KINDS[span.kind],
+    // Milliseconds to nanoseconds, as a string to keep the precision
+    startTimeUnixNano: `${span.startTime}000000`,
+    endTimeUnixNano: `${span.endTime ?? span.startTime}000000`,
+    attributes: Object.entries(attributes).map(([key, value]) => ({ key, value: toOtlpValue(value) })),
+    status: { code: OTLP_STATUS_CODES[span.status], message: span.error },
+  };
+}
+
+function getOtlpEndpoint(): string {
+  if (process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT) {
+    return process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT;
+  }
+  const base = process.env.OTEL_EXPORTER_OTLP_ENDPOINT || DEFAULT_OTLP_ENDPOINT;
+  return `${base.replace(/\/$/, "")}/v1/traces`;
+}
+
+function createOtlpExporter(endpoint: string): TraceExporter {
+  return {
+    async export(spans) {
+      const body = {
+        resourceSpans: [
+          {
+            resource: {
+              attributes: [{ key: "service.name", value: { stringValue: SERVICE_NAME } }],
+            },
+            scopeSpans: [{ scope: { name: SERVICE_NAME }, spans: spans.map(toOtlpSpan) }],
+          },
+        ],
+      };
+
+      try {
+        const response = await fetch(endpoint, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(body),
+        });
+        if (!response.ok) {
+          console.error(`OTLP export failed: ${response.status} ${await response.text()}`);
+        }
+      } catch (error) {
+        console.error("OTLP export failed:", error);
+      }
+    },
+  };
+}
+
+/**
+ * Create the exporters listed in TRACE_EXPORTERS
+ */
+export function createExporters(): TraceExporter[] {
+  return getTraceExporterTypes().map((type) =>
+    type === "jsonl" ? createJsonlExporter(getTraceJsonlPath()) : createOtlpExporter(getOtlpEndpoint())
+  );
+}
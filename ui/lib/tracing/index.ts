@@ -0,0 +1,23 @@
+/**
+ * Tracing Module
+ *
+ * Span-based tracing with one trace per API request, covering routes,
+ * graph nodes, tool calls, model calls and vector searches. Traces are
+ * kept in memory for the viewer at /traces and exported to a JSONL file
+ * or an OTLP collector (TRACE_EXPORTERS).
+ */
+
+export * from "./types";
+export {
+  withSpan,
+  startSpan,
+  endSpan,
+  runInSpan,
+  getActiveSpan,
+  getTraceId,
+  setSpanAttributes,
+} from "./tracer";
+export { TracingCallbackHandler, getTracingCallbacks } from "./callbacks";
+export { traceRoute } from "./route";
+export { listTraces, getTrace } from "./store";
+export { getTraceExporterTypes } from "./exporters";
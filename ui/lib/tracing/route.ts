@@ -0,0 +1,79 @@
+import type { NextRequest } from "next/server";
+import { endSpan, runInSpan, setSpanAttributes, startSpan } from "./tracer";
+
+/**
+ * Route Tracing
+ *
+ * Wraps an API route handler in a "route" span, the root of the
+ * request's trace. The trace id is returned in the X-Trace-Id header.
+ *
+ * Streaming responses keep running after the handler returns, so their
+ * span ends when the stream does, or when the client goes away first.
+ */
+
+const TRACE_ID_HEADER = "X-Trace-Id";
+
+export function traceRoute<A extends unknown[]>(
+  route: string,
+  handler: (request: NextRequest, ...args: A) => Promise<Response>
+): (request: NextRequest, ...args: A) => Promise<Response> {
+  return async (request, ...args) => {
+    // No parent: every request starts its own trace
+    const span = startSpan(
+      `${request.method} ${route}`,
+      "route",
+      { "http.method": request.method, "http.route": route },
+      undefined
+    );
+
+    let response: Response;
+    try {
+      response = await runInSpan(span, () => handler(request, ...args));
+    } catch (error) {
+      endSpan(span, error);
+      throw error;
+    }
+
+    setSpanAttributes(span, { "http.status_code": response.status });
+    if (response.status >= 500) {
+      span.status = "error";
+      span.error = `HTTP ${response.status}`;
+    }
+    response.headers.set(TRACE_ID_HEADER, span.traceId);
+
+    if (!response.body || !response.headers.get("Content-Type")?.includes("text/event-stream")) {
+      endSpan(span);
+      return response;
+    }
+
+    const abort = () => {
+      setSpanAttributes(span, { "http.client_aborted": true });
+      endSpan(span);
+    };
+    request.signal.addEventListener("abort", abort, { once: true });
+
+    const reader = response.body.getReader();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await reader.read();
+          if (done) {
+            request.signal.removeEventListener("abort", abort);
+            endSpan(span);
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          endSpan(span, error);
+          controller.error(error);
+        }
+      },
+      cancel(reason) {
+        abort();
+        return reader.cancel(reason);
+      },
+    });
+    return new Response(body, { status: response.status, headers: response.headers });
+  };
+}
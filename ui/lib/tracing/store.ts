@@ -0,0 +1,148 @@
+import fs from "fs";
+import { createExporters, getTraceExporterTypes, getTraceJsonlPath } from "./exporters";
+import { Span, Trace, TraceExporter, TraceSummary } from "./types";
+
+/**
+ * Trace Store
+ *
+ * Keeps the most recent traces (TRACE_BUFFER_SIZE, default 200) in memory
+ * for the trace viewer and hands finished spans to the exporters. A
+ * trace is exported when its root span ends; spans that end after that,
+ * like a stream outliving its route, are exported on their own.
+ */
+
+const DEFAULT_BUFFER_SIZE = 200;
+
+interface TraceRecord {
+  spans: Span[];
+  /** The root span has ended */
+  complete: boolean;
+}
+
+interface TraceStore {
+  traces: Map<string, TraceRecord>;
+  exporters: TraceExporter[];
+}
+
+/**
+ * Global singleton for the trace buffer
+ * Using globalThis ensures every API route records into the same buffer
+ */
+const globalForTraces = globalThis as unknown as {
+  traceStore: TraceStore | undefined;
+};
+
+function getBufferSize(): number {
+  const size = Number(process.env.TRACE_BUFFER_SIZE);
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_BUFFER_SIZE;
+}
+
+/**
+ * Read back the traces a jsonl exporter wrote before a restart
+ */
+function loadTraces(filePath: string): Map<string, TraceRecord> {
+  const traces = new Map<string, TraceRecord>();
+  if (!fs.existsSync(filePath)) {
+    return traces;
+  }
+
+  const lines = fs.readFileSync(filePath, "utf-8").split("\n");
+  for (const line of lines) {
+    if (line.trim().length === 0) continue;
+    const span = JSON.parse(line) as Span;
+    const trace = traces.get(span.traceId) ?? { spans: [], complete: true };
+    trace.spans.push(span);
+    traces.set(span.traceId, trace);
+  }
+
+  // Keep only the newest traces
+  const excess = traces.size - getBufferSize();
+  Array.from(traces.keys())
+    .slice(0, Math.max(0, excess))
+    .forEach((traceId) => traces.delete(traceId));
+
+  return traces;
+}
+
+function getStore(): TraceStore {
+  if (!globalForTraces.traceStore) {
+    globalForTraces.traceStore = {
+      traces: getTraceExporterTypes().includes("jsonl")
+        ? loadTraces(getTraceJsonlPath())
+        : new Map(),
+      exporters: createExporters(),
+    };
+  }
+  return globalForTraces.traceStore;
+}
+
+function exportSpans(store: TraceStore, spans: Span[]): void {
+  for (const exporter of store.exporters) {
+    exporter.export(spans).catch((error) => console.error("Trace export failed:", error));
+  }
+}
+
+/**
+ * Add a finished span to its trace
+ */
+export function recordSpan(span: Span): void {
+  const store = getStore();
+
+  let trace = store.traces.get(span.traceId);
+  if (!trace) {
+    trace = { spans: [], complete: false };
+    store.traces.set(span.traceId, trace);
+
+    // Maps iterate in insertion order, so the first key is the oldest trace
+    if (store.traces.size > getBufferSize()) {
+      store.traces.delete(store.traces.keys().next().value!);
+    }
+  }
+
+  trace.spans.push(span);
+
+  if (!span.parentSpanId) {
+    trace.complete = true;
+    exportSpans(store, trace.spans);
+  } else if (trace.complete) {
+    exportSpans(store, [span]);
+  }
+}
+
+function summarize(traceId: string, spans: Span[]): TraceSummary {
+  const root = spans.find((span) => !span.parentSpanId);
+  const startTime = Math.min(...spans.map((span) => span.startTime));
+
+  return {
+    traceId,
+    name: root?.name ?? spans[0].name,
+    startTime,
+    durationMs: root?.durationMs,
+    spanCount: spans.length,
+    status: spans.some((span) => span.status === "error") ? "error" : root?.status ?? "unset",
+  };
+}
+
+/**
+ * Summaries of the buffered traces, newest first
+ */
+export function listTraces(limit?: number): TraceSummary[] {
+  const summaries = Array.from(getStore().traces.entries())
+    .map(([traceId, trace]) => summarize(traceId, trace.spans))
+    .sort((a, b) => b.startTime - a.startTime);
+
+  return limit ? summaries.slice(0, limit) : summaries;
+}
+
+/**
+ * A buffered trace with its spans in start order
+ */
+export function getTrace(traceId: string): Trace | null {
+  const trace = getStore().traces.get(traceId);
+  if (!trace) {
+    return null;
+  }
+
+  const spans = [...trace.spans].sort((a, b) => a.startTime - b.startTime);
+  return { ...summarize(traceId, spans), spans };
+}
@@ -0,0 +1,172 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomBytes } from "crypto";
+import { AsyncLocalStorageProviderSingleton } from "@langchain/core/singletons";
+import { recordSpan } from "./store";
+import { Span, SpanAttributeValue, SpanKind } from "./types";
+
+/**
+ * Tracer
+ *
+ * Spans started with withSpan become the active span for everything
+ * awaited inside them, through AsyncLocalStorage, so nested work needs
+ * no span passed around. Inside a LangChain run (a tool, a graph node)
+ * the span of that run, kept by TracingCallbackHandler, is the parent
+ * instead, when it is the more recent of the two.
+ */
+
+const MAX_ATTRIBUTE_LENGTH = 500;
+
+/**
+ * Anything that can map a LangChain run id to its span
+ */
+export interface RunSpanSource {
+  getSpanForRun(runId: string): Span | undefined;
+}
+
+/**
+ * Global singleton for the active span storage
+ */
+const globalForTracer = globalThis as unknown as {
+  spanStorage: AsyncLocalStorage<Span> | undefined;
+};
+
+function getSpanStorage(): AsyncLocalStorage<Span> {
+  if (!globalForTracer.spanStorage) {
+    globalForTracer.spanStorage = new AsyncLocalStorage<Span>();
+  }
+  return globalForTracer.spanStorage;
+}
+
+/**
+ * Span of the LangChain run we are currently inside, if it is traced
+ */
+function getLangChainRunSpan(): Span | undefined {
+  const config = AsyncLocalStorageProviderSingleton.getRunnableConfig();
+  const manager = config?.callbacks;
+  const runId: string | undefined = manager?.getParentRunId?.();
+  if (!runId || !Array.isArray(manager.handlers)) {
+    return undefined;
+  }
+
+  for (const handler of manager.handlers) {
+    const span = (handler as Partial<RunSpanSource>).getSpanForRun?.(runId);
+    if (span) {
+      return span;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The span new spans are parented to
+ */
+export function getActiveSpan(): Span | undefined {
+  const stored = getSpanStorage().getStore();
+  const runSpan = getLangChainRunSpan();
+
+  // Both enclose the current code; the one started last is the innermost
+  if (runSpan && (!stored || runSpan.startTime > stored.startTime)) {
+    return runSpan;
+  }
+  return stored;
+}
+
+/**
+ * Trace id of the current request, if it is traced
+ */
+export function getTraceId(): string | undefined {
+  return getActiveSpan()?.traceId;
+}
+
+function toAttributeValue(value: unknown): SpanAttributeValue {
+  if (typeof value === "number" || typeof value === "boolean") {
+    return value;
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > MAX_ATTRIBUTE_LENGTH ? `${text.slice(0, MAX_ATTRIBUTE_LENGTH)}…` : text;
+}
+
+/**
+ * Set attributes on a span; undefined values are skipped and long
+ * values are truncated
+ */
+export function setSpanAttributes(span: Span, attributes: Record<string, unknown>): void {
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined && value !== null) {
+      span.attributes[key] = toAttributeValue(value);
+    }
+  }
+}
+
+/**
+ * Start a span under the active span (or a new trace)
+ * End it with endSpan; prefer withSpan when the work is one function.
+ */
+export function startSpan(
+  name: string,
+  kind: SpanKind,
+  attributes: Record<string, unknown> = {},
+  parent: Span | undefined = getActiveSpan()
+): Span {
+  const span: Span = {
+    traceId: parent?.traceId ?? randomBytes(16).toString("hex"),
+    spanId: randomBytes(8).toString("hex"),
+    parentSpanId: parent?.spanId,
+    name,
+    kind,
+    startTime: Date.now(),
+    status: "unset",
+    attributes: {},
+  };
+  setSpanAttributes(span, attributes);
+  return span;
+}
+
+/**
+ * End a span and record it
+ */
+export function endSpan(span: Span, error?: unknown): void {
+  if (span.endTime !== undefined) {
+    return;
+  }
+
+  span.endTime = Date.now();
+  span.durationMs = span.endTime - span.startTime;
+  if (error) {
+    span.status = "error";
+    span.error = error instanceof Error ? error.message : String(error);
+  } else if (span.status === "unset") {
+    span.status = "ok";
+  }
+
+  recordSpan(span);
+}
+
+/**
+ * Run a function in a new span, which is active while it runs
+ */
+export async function withSpan<T>(
+  name: string,
+  kind: SpanKind,
+  attributes: Record<string, unknown>,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  const span = startSpan(name, kind, attributes);
+
+  try {
+    const result = await getSpanStorage().run(span, () => fn(span));
+    endSpan(span);
+    return result;
+  } catch (error) {
+    endSpan(span, error);
+    throw error;
+  }
+}
+
+/**
+ * Run a function with an existing span active, e.g. a stream that
+ * outlives the function that started its span
+ */
+export function runInSpan<T>(span: Span, fn: () => T): T {
+  return getSpanStorage().run(span, fn);
+}
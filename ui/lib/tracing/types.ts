@@ -0,0 +1,62 @@
+/**
+ * Types for Tracing
+ *
+ * Every API request gets a trace: a tree of timed spans for the route,
+ * the LangGraph nodes, tool calls, model calls and vector searches it
+ * ran, with attributes describing each step.
+ */
+
+/**
+ * - route: an API request
+ * - node: a LangGraph node, e.g. "agent" or "grade"
+ * - tool: a tool call
+ * - llm: a chat model call
+ * - retrieval: a vector store search
+ */
+export type SpanKind = "route" | "node" | "tool" | "llm" | "retrieval";
+
+export type SpanStatus = "unset" | "ok" | "error";
+
+export type SpanAttributeValue = string | number | boolean;
+
+export interface Span {
+  /** 32 hex characters, shared by every span of a request */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  /** Epoch milliseconds */
+  startTime: number;
+  endTime?: number;
+  durationMs?: number;
+  status: SpanStatus;
+  error?: string;
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * Where finished spans are sent (TRACE_EXPORTERS)
+ * - jsonl: appended to TRACE_JSONL_PATH, one span per line
+ * - otlp: posted to an OpenTelemetry collector over OTLP/HTTP (JSON)
+ */
+export type TraceExporterType = "jsonl" | "otlp";
+
+export interface TraceExporter {
+  export(spans: Span[]): Promise<void>;
+}
+
+export interface TraceSummary {
+  traceId: string;
+  /** Name of the root span, e.g. "POST /api/chat" */
+  name: string;
+  startTime: number;
+  durationMs?: number;
+  spanCount: number;
+  status: SpanStatus;
+}
+
+export interface Trace extends TraceSummary {
+  spans: Span[];
+}
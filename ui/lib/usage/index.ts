@@ -0,0 +1,11 @@
+/**
+ * Usage Accounting Module
+ *
+ * Records the tokens and cost of every model call, attributed to a
+ * thread, an API route and a graph node, and aggregates them per day.
+ */
+
+export * from "./types";
+export { UsageTracker, getUsageTracker } from "./tracker";
+export { recordUsage, getUsageRecords, getUsageReport } from "./store";
+export { getPriceTable, calculateCost } from "./pricing";
@@ -0,0 +1,53 @@
+import { ModelPrice } from "./types";
+
+/**
+ * Model Price Table
+ *
+ * USD per million input/output tokens, keyed by "provider:model".
+ * Add or override entries with MODEL_PRICES, a JSON object in the same
+ * shape, e.g. MODEL_PRICES='{"openai:gpt-4.1-mini": {"input": 0.4, "output": 1.6}}'.
+ * Models without a price (like the HuggingFace endpoint) cost 0.
+ */
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  "groq:llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "groq:llama-3.1-8b-instant": { input: 0.05, output: 0.08 },
+  "groq:llama3-70b-8192": { input: 0.59, output: 0.79 },
+  "groq:llama3-8b-8192": { input: 0.05, output: 0.08 },
+  "groq:gemma2-9b-it": { input: 0.2, output: 0.2 },
+  "openai:gpt-4o": { input: 2.5, output: 10 },
+  "openai:gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+let priceTable: Record<string, ModelPrice> | undefined;
+
+/**
+ * The default prices merged with MODEL_PRICES
+ */
+export function getPriceTable(): Record<string, ModelPrice> {
+  if (!priceTable) {
+    let configured: Record<string, ModelPrice> = {};
+    if (process.env.MODEL_PRICES) {
+      try {
+        configured = JSON.parse(process.env.MODEL_PRICES);
+      } catch (error) {
+        console.error("Ignoring invalid MODEL_PRICES:", error);
+      }
+    }
+    priceTable = { ...DEFAULT_PRICES, ...configured };
+  }
+
+  return priceTable;
+}
+
+/**
+ * Cost of a call in USD
+ */
+export function calculateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = getPriceTable()[model];
+  if (!price) {
+    return 0;
+  }
+
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,138 @@
+import fs from "fs";
+import path from "path";
+import { UsageFilter, UsageRecord, UsageReport, UsageTotals } from "./types";
+
+/**
+ * Usage Store
+ *
+ * Keeps usage records in memory. Set USAGE_LOG_PATH to also append them
+ * to a JSON Lines file, which is read back on startup so totals survive
+ * restarts.
+ */
+
+interface UsageStore {
+  records: UsageRecord[];
+  pendingWrite: Promise<void>;
+}
+
+/**
+ * Global singleton for the usage records
+ * Using globalThis ensures every API route adds to the same totals
+ */
+const globalForUsage = globalThis as unknown as {
+  usageStore: UsageStore | undefined;
+};
+
+function loadRecords(filePath: string): UsageRecord[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+
+  return fs
+    .readFileSync(filePath, "utf-8")
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => JSON.parse(line) as UsageRecord);
+}
+
+function getStore(): UsageStore {
+  if (!globalForUsage.usageStore) {
+    const logPath = process.env.USAGE_LOG_PATH;
+    globalForUsage.usageStore = {
+      records: logPath ? loadRecords(logPath) : [],
+      pendingWrite: Promise.resolve(),
+    };
+  }
+  return globalForUsage.usageStore;
+}
+
+/**
+ * Add a model call to the usage records
+ */
+export function recordUsage(record: UsageRecord): void {
+  const store = getStore();
+  store.records.push(record);
+
+  const logPath = process.env.USAGE_LOG_PATH;
+  if (logPath) {
+    // Appends are chained so lines never interleave
+    store.pendingWrite = store.pendingWrite
+      .then(async () => {
+        await fs.promises.mkdir(path.dirname(logPath), { recursive: true });
+        await fs.promises.appendFile(logPath, `${JSON.stringify(record)}\n`, "utf-8");
+      })
+      .catch((error) => console.error("Failed to write usage log:", error));
+  }
+}
+
+/**
+ * Usage records matching a filter, oldest first
+ */
+export function getUsageRecords(filter: UsageFilter = {}): UsageRecord[] {
+  return getStore().records.filter((record) => {
+    const date = record.timestamp.slice(0, 10);
+    return (
+      (!filter.threadId || record.threadId === filter.threadId) &&
+      (!filter.route || record.route === filter.route) &&
+      (!filter.from || date >= filter.from) &&
+      (!filter.to || date <= filter.to)
+    );
+  });
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.calls += 1;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.totalTokens += record.totalTokens;
+  totals.cost += record.cost;
+}
+
+/**
+ * Sum records into one group per key
+ */
+function groupBy<K extends string>(
+  records: UsageRecord[],
+  keyName: K,
+  getKey: (record: UsageRecord) => string
+): Array<UsageTotals & Record<K, string>> {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = getKey(record);
+    const totals = groups.get(key) ?? emptyTotals();
+    addToTotals(totals, record);
+    groups.set(key, totals);
+  }
+
+  return Array.from(groups.entries()).map(
+    ([key, totals]) => ({ [keyName]: key, ...totals }) as UsageTotals & Record<K, string>
+  );
+}
+
+const byCostDescending = (a: UsageTotals, b: UsageTotals) =>
+  b.cost - a.cost || b.totalTokens - a.totalTokens;
+
+/**
+ * Aggregate usage: overall totals, per day and per thread, route, node and model
+ */
+export function getUsageReport(filter: UsageFilter = {}): UsageReport {
+  const records = getUsageRecords(filter);
+
+  const totals = emptyTotals();
+  records.forEach((record) => addToTotals(totals, record));
+
+  return {
+    totals,
+    byDay: groupBy(records, "date", (r) => r.timestamp.slice(0, 10)).sort((a, b) =>
+      a.date.localeCompare(b.date)
+    ),
+    byThread: groupBy(records, "threadId", (r) => r.threadId ?? "none").sort(byCostDescending),
+    byRoute: groupBy(records, "route", (r) => r.route ?? "unknown").sort(byCostDescending),
+    byNode: groupBy(records, "node", (r) => r.node ?? "none").sort(byCostDescending),
+    byModel: groupBy(records, "model", (r) => r.model).sort(byCostDescending),
+  };
+}
@@ -0,0 +1,109 @@
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { Serialized } from "@langchain/core/load/serializable";
+import type { BaseMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { calculateCost } from "./pricing";
+import { recordUsage } from "./store";
+
+/**
+ * Usage Tracker
+ *
+ * Callback handler attached to every model the registry creates, so each
+ * call is recorded no matter which graph, node or tool makes it:
+ *
+ * - thread: configurable.thread_id, which LangGraph copies into run metadata
+ * - route: the `route` metadata API routes set on their runs
+ * - node: the LangGraph node the call ran in (langgraph_node)
+ * - model: "provider:model" from LangChain's ls_provider / ls_model_name
+ */
+
+interface RunInfo {
+  model: string;
+  threadId?: string;
+  route?: string;
+  node?: string;
+}
+
+function getTokenUsage(output: LLMResult): { input: number; output: number } {
+  const message = (output.generations[0]?.[0] as ChatGeneration | undefined)?.message as
+    | { usage_metadata?: { input_tokens: number; output_tokens: number } }
+    | undefined;
+
+  if (message?.usage_metadata) {
+    return {
+      input: message.usage_metadata.input_tokens,
+      output: message.usage_metadata.output_tokens,
+    };
+  }
+
+  const usage = output.llmOutput?.tokenUsage;
+  return {
+    input: usage?.promptTokens ?? 0,
+    output: usage?.completionTokens ?? 0,
+  };
+}
+
+export class UsageTracker extends BaseCallbackHandler {
+  name = "usage_tracker";
+
+  private readonly runs = new Map<string, RunInfo>();
+
+  handleChatModelStart(
+    llm: Serialized,
+    _messages: BaseMessage[][],
+    runId: string,
+    _parentRunId?: string,
+    _extraParams?: Record<string, unknown>,
+    _tags?: string[],
+    metadata?: Record<string, unknown>
+  ) {
+    const provider = metadata?.ls_provider ?? llm.id.at(-1);
+    const model = metadata?.ls_model_name;
+
+    this.runs.set(runId, {
+      model: model ? `${provider}:${model}` : String(provider),
+      threadId: metadata?.thread_id as string | undefined,
+      route: metadata?.route as string | undefined,
+      node: metadata?.langgraph_node as string | undefined,
+    });
+  }
+
+  handleLLMEnd(output: LLMResult, runId: string) {
+    const run = this.runs.get(runId);
+    if (!run) {
+      return;
+    }
+    this.runs.delete(runId);
+
+    const tokens = getTokenUsage(output);
+    recordUsage({
+      timestamp: new Date().toISOString(),
+      ...run,
+      inputTokens: tokens.input,
+      outputTokens: tokens.output,
+      totalTokens: tokens.input + tokens.output,
+      cost: calculateCost(run.model, tokens.input, tokens.output),
+    });
+  }
+
+  handleLLMError(_error: Error, runId: string) {
+    this.runs.delete(runId);
+  }
+}
+
+/**
+ * Global singleton for the tracker
+ */
+const globalForTracker = globalThis as unknown as {
+  usageTracker: UsageTracker | undefined;
+};
+
+/**
+ * Get the shared usage tracker
+ */
+export function getUsageTracker(): UsageTracker {
+  if (!globalForTracker.usageTracker) {
+    globalForTracker.usageTracker = new UsageTracker();
+  }
+  return globalForTracker.usageTracker;
+}
@@ -0,0 +1,59 @@
+/**
+ * Types for Usage Accounting
+ *
+ * Every chat model call is recorded with the thread, API route and
+ * graph node it ran for, so token spend and cost can be broken down.
+ */
+
+/**
+ * One model call
+ */
+export interface UsageRecord {
+  timestamp: string;
+  /** "provider:model", e.g. "groq:llama-3.3-70b-versatile" */
+  model: string;
+  threadId?: string;
+  /** API route that started the run, e.g. "/api/chat" */
+  route?: string;
+  /** LangGraph node that made the call, e.g. "agent" or "grade" */
+  node?: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  /** Cost in USD; 0 when the model has no price */
+  cost: number;
+}
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+export interface UsageFilter {
+  threadId?: string;
+  route?: string;
+  /** Inclusive start date, YYYY-MM-DD */
+  from?: string;
+  /** Inclusive end date, YYYY-MM-DD */
+  to?: string;
+}
+
+export interface UsageReport {
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { date: string }>;
+  byThread: Array<UsageTotals & { threadId: string }>;
+  byRoute: Array<UsageTotals & { route: string }>;
+  byNode: Array<UsageTotals & { node: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+}
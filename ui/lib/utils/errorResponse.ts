@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { findLlmError } from "../models/errors";
+
+/**
+ * Model error responses
+ *
+ * When a request failed because a model call did (after its retries and
+ * fallbacks), answer with the matching status instead of a generic 500:
+ * 429 for rate limits, 504 for timeouts, 503 when the providers are down
+ * or their circuits are open, 502 when a provider rejected the request.
+ * The body is `{ error, code }`, with the error kind as `code`.
+ *
+ * @returns The response, or null if the error didn't come from a model
+ */
+export function createModelErrorResponse(error: unknown): NextResponse | null {
+  const llmError = findLlmError(error);
+  if (!llmError) {
+    return null;
+  }
+
+  const headers: Record<string, string> = {};
+  if (llmError.retryAfterMs !== undefined) {
+    headers["Retry-After"] = String(Math.ceil(llmError.retryAfterMs / 1000));
+  }
+
+  return NextResponse.json(
+    { error: llmError.message, code: llmError.kind },
+    { status: llmError.status, headers }
+  );
+}
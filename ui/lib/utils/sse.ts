@@ -0,0 +1,50 @@
+import { findLlmError } from "../models/errors";
+
+/**
+ * Server-Sent Events helper
+ *
+ * Turns an async generator of JSON-serializable events into a
+ * `text/event-stream` Response, in the same format as /api/research:
+ * one `data: {...}` line per event, then `data: [DONE]`.
+ *
+ * A failure ends the stream with an `error` event. When a model call
+ * caused it, the event carries the model error's message and its kind
+ * as `code` (e.g. "rate_limit").
+ */
+export function createEventStreamResponse<T>(
+  events: AsyncIterable<T>,
+  errorMessage: string
+): Response {
+  const encoder = new TextEncoder();
+
+  const readableStream = new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const event of events) {
+          const data = JSON.stringify(event) + "\n";
+          controller.enqueue(encoder.encode(`data: ${data}\n`));
+        }
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } catch (error) {
+        console.error("Event stream error:", error);
+        const llmError = findLlmError(error);
+        const errorData = JSON.stringify({
+          type: "error",
+          error: llmError?.message ?? errorMessage,
+          code: llmError?.kind,
+        });
+        controller.enqueue(encoder.encode(`data: ${errorData}\n\n`));
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(readableStream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -1,11 +1,15 @@
 export { createEmbeddings, embedText, embedTexts } from "./embeddings";
 export {
   getVectorStore,
+  createVectorStore,
   addDocuments,
   similaritySearch,
   similaritySearchWithScores,
   deleteDocumentsByFilter,
   deleteDocument,
   getRetriever,
+  getCorpusVersion,
+  listIndexedDocuments,
+  getDocumentChunks,
 } from "./store";
 
@@ -1,6 +1,8 @@
 import { MemoryVectorStore } from "langchain/vectorstores/memory";
 import { Document } from "@langchain/core/documents";
 import { createEmbeddings } from "./embeddings";
+import { withSpan, setSpanAttributes } from "../tracing";
+import { getDocumentVault, redactPii } from "../guardrails/pii";
 
 /**
  * Global singleton for vector store
@@ -8,6 +10,7 @@ import { createEmbeddings } from "./embeddings";
  */
 const globalForVectorStore = globalThis as unknown as {
   vectorStore: MemoryVectorStore | undefined;
+  corpusVersion: number | undefined;
 };
 
 /**
@@ -19,18 +22,46 @@ export async function getVectorStore(): Promise<MemoryVectorStore> {
     return globalForVectorStore.vectorStore;
   }
 
-  const embeddings = createEmbeddings();
-  globalForVectorStore.vectorStore = new MemoryVectorStore(embeddings);
+  globalForVectorStore.vectorStore = createVectorStore();
 
   return globalForVectorStore.vectorStore;
 }
 
+/**
+ * Create a store of its own, apart from the uploaded documents,
+ * e.g. for an eval run
+ */
+export function createVectorStore(): MemoryVectorStore {
+  return new MemoryVectorStore(createEmbeddings());
+}
+
+/**
+ * Version of the indexed corpus
+ * Bumped whenever chunks are added or removed, so anything derived from
+ * the corpus (like cached answers) can tell when it is out of date.
+ */
+export function getCorpusVersion(): number {
+  return globalForVectorStore.corpusVersion ?? 0;
+}
+
+function markCorpusChanged(): void {
+  globalForVectorStore.corpusVersion = getCorpusVersion() + 1;
+}
+
 /**
  * Add documents to the vector store
+ * Personal data in the chunks is masked before they are indexed (see lib/guardrails).
+ *
+ * @param target - A store from createVectorStore; the shared store when omitted
  */
-export async function addDocuments(documents: Document[]): Promise<string[]> {
-  const store = await getVectorStore();
-  await store.addDocuments(documents);
+export async function addDocuments(documents: Document[], target?: MemoryVectorStore): Promise<string[]> {
+  const store = target ?? (await getVectorStore());
+  await store.addDocuments(
+    documents.map((doc) => new Document({ ...doc, pageContent: redactPii(doc.pageContent, getDocumentVault()) }))
+  );
+  if (!target) {
+    markCorpusChanged();
+  }
   
   console.log(`[VectorStore] Added ${documents.length} documents. Total: ${store.memoryVectors.length}`);
   
@@ -45,27 +76,80 @@ export async function similaritySearch(
   query: string,
   k: number = 4
 ): Promise<Document[]> {
-  const store = await getVectorStore();
-  console.log(`[VectorStore] Searching. Total documents: ${store.memoryVectors.length}`);
-  return await store.similaritySearch(query, k);
+  return withSpan("vector_search", "retrieval", { "retrieval.query": query, "retrieval.k": k }, async (span) => {
+    const store = await getVectorStore();
+    console.log(`[VectorStore] Searching. Total documents: ${store.memoryVectors.length}`);
+
+    const results = await store.similaritySearch(query, k);
+    setSpanAttributes(span, {
+      "retrieval.store_size": store.memoryVectors.length,
+      "retrieval.results": results.length,
+    });
+    return results;
+  });
 }
 
 /**
  * Search with scores for relevance ranking
+ *
+ * @param target - A store from createVectorStore; the shared store when omitted
  */
 export async function similaritySearchWithScores(
   query: string,
-  k: number = 4
+  k: number = 4,
+  target?: MemoryVectorStore
 ): Promise<[Document, number][]> {
+  return withSpan("vector_search", "retrieval", { "retrieval.query": query, "retrieval.k": k }, async (span) => {
+    const store = target ?? (await getVectorStore());
+    console.log(`[VectorStore] Searching with scores. Total documents: ${store.memoryVectors.length}`);
+    setSpanAttributes(span, { "retrieval.store_size": store.memoryVectors.length });
+
+    if (store.memoryVectors.length === 0) {
+      console.log("[VectorStore] No documents in store!");
+      return [];
+    }
+
+    const results = await store.similaritySearchWithScore(query, k);
+    setSpanAttributes(span, {
+      "retrieval.results": results.length,
+      "retrieval.top_score": results[0]?.[1],
+      "retrieval.sources": Array.from(new Set(results.map(([doc]) => doc.metadata.filename))).join(", "),
+    });
+    return results;
+  });
+}
+
+/**
+ * The indexed documents, with how many chunks each has, in upload order
+ */
+export async function listIndexedDocuments(): Promise<
+  Array<{ documentId: string; filename: string; chunks: number }>
+> {
   const store = await getVectorStore();
-  console.log(`[VectorStore] Searching with scores. Total documents: ${store.memoryVectors.length}`);
-  
-  if (store.memoryVectors.length === 0) {
-    console.log("[VectorStore] No documents in store!");
-    return [];
+  const documents = new Map<string, { documentId: string; filename: string; chunks: number }>();
+
+  for (const vector of store.memoryVectors) {
+    const { documentId, filename } = vector.metadata ?? {};
+    if (!documentId) continue;
+
+    const document = documents.get(documentId) ?? { documentId, filename: filename || "Unknown", chunks: 0 };
+    document.chunks += 1;
+    documents.set(documentId, document);
   }
-  
-  return await store.similaritySearchWithScore(query, k);
+
+  return Array.from(documents.values());
+}
+
+/**
+ * The chunks of one document in reading order
+ */
+export async function getDocumentChunks(documentId: string): Promise<Document[]> {
+  const store = await getVectorStore();
+
+  return store.memoryVectors
+    .filter((vector) => vector.metadata?.documentId === documentId)
+    .sort((a, b) => (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0))
+    .map((vector) => new Document({ pageContent: vector.content, metadata: vector.metadata }));
 }
 
 /**
@@ -82,7 +166,10 @@ export async function deleteDocumentsByFilter(
     return !Object.entries(filter).every(([key, value]) => metadata[key] === value);
   });
   
-  store.memoryVectors = filteredVectors;
+  if (filteredVectors.length !== allDocs.length) {
+    store.memoryVectors = filteredVectors;
+    markCorpusChanged();
+  }
 }
 
 /**
@@ -106,6 +193,7 @@ export async function getRetriever(k: number = 4) {
 export async function clearVectorStore(): Promise<void> {
   const store = await getVectorStore();
   store.memoryVectors = [];
+  markCorpusChanged();
 }
 
 /**
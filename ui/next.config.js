@@ -1,7 +1,10 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
+  // OpenAI clients expect the API under /v1 (e.g. baseURL "http://localhost:3000/v1")
+  async rewrites() {
+    return [{ source: "/v1/:path*", destination: "/api/v1/:path*" }];
+  },
 };
 
 module.exports = nextConfig;
-
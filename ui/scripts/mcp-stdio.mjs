@@ -0,0 +1,94 @@
+#!/usr/bin/env node
+/**
+ * MCP stdio entry point
+ *
+ * Lets stdio MCP clients use this app's MCP server. The uploaded
+ * documents live in the running app's memory, so instead of serving the
+ * tools itself this bridge forwards each JSON-RPC line from stdin to the
+ * app's POST /api/mcp and writes the replies, progress notifications
+ * included, to stdout.
+ *
+ *   MCP_SERVER_URL=http://localhost:3000/api/mcp node scripts/mcp-stdio.mjs
+ *
+ * MCP_SERVER_URL defaults to http://localhost:3000/api/mcp;
+ * MCP_SERVER_TOKEN is sent as a bearer token and must match the app's.
+ */
+
+import readline from "readline";
+
+const url = process.env.MCP_SERVER_URL || "http://localhost:3000/api/mcp";
+const token = process.env.MCP_SERVER_TOKEN;
+
+const write = (message) => process.stdout.write(`${JSON.stringify(message)}\n`);
+
+async function readEventStream(response) {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() ?? "";
+
+    for (const event of events) {
+      const data = event
+        .split(/\r?\n/)
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) write(JSON.parse(data));
+    }
+  }
+}
+
+async function forward(message) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(message),
+  });
+
+  if (response.status === 202) return;
+  if (response.headers.get("content-type")?.includes("text/event-stream")) {
+    await readEventStream(response);
+    return;
+  }
+
+  const body = await response.json();
+  if (!response.ok && !body.jsonrpc) {
+    throw new Error(body.error || `HTTP ${response.status}`);
+  }
+  (Array.isArray(body) ? body : [body]).forEach(write);
+}
+
+// Lines are forwarded concurrently, so a long research run doesn't hold up pings
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+  if (!line.trim()) return;
+
+  let message;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    write({ jsonrpc: "2.0", id: null, error: { code: -32700, message: "Parse error" } });
+    return;
+  }
+
+  forward(message).catch((error) => {
+    console.error(`[mcp-stdio] ${error.message}`);
+    if (message.id !== undefined && message.method) {
+      write({
+        jsonrpc: "2.0",
+        id: message.id,
+        error: { code: -32603, message: `Could not reach ${url}: ${error.message}` },
+      });
+    }
+  });
+});